@@ -9,27 +9,41 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-
-interface DocAnalysisResult {
-  file: string;
-  type: 'markdown' | 'jsdoc' | 'inline' | 'typescript';
-  coverage: number;
-  issues: Array<{
-    type: 'missing' | 'incomplete' | 'outdated' | 'formatting';
-    description: string;
-    line?: number;
-    severity: 'low' | 'medium' | 'high';
-  }>;
-  suggestions: string[];
+import { createSarifLog } from '../src/reporting/SarifReporter';
+import { evaluateQualityGates, formatQualityGateSummary } from '../src/reporting/QualityGates';
+import { parseCommandLine } from '../src/config/CommandLine';
+import { loadWorkshopConfig } from '../src/config/WorkshopConfigLoader';
+import { DocAnalysisResult, QualityGateConfig, RuleMetadata } from '../src/types/index';
+
+interface DocsAnalyzeOptions {
+  /** Report format written next to the console summary */
+  format?: 'json' | 'sarif';
+  /** Report file path (defaults to docs-analysis-report.<format> in the plugin directory) */
+  output?: string;
 }
 
+const USAGE = 'Usage: npm run analyze-docs -- [plugin-path] [--format json|sarif] [--output <file>]';
+
+// Rule metadata for each documentation issue type
+const docRules: RuleMetadata[] = [
+  { id: 'doc-missing', category: 'documentation', severity: 'medium', description: 'Missing documentation' },
+  { id: 'doc-incomplete', category: 'documentation', severity: 'medium', description: 'Incomplete documentation' },
+  { id: 'doc-outdated', category: 'documentation', severity: 'low', description: 'Outdated documentation' },
+  { id: 'doc-formatting', category: 'documentation', severity: 'low', description: 'Documentation formatting problem' },
+];
+
 class DocsAnalyzer {
   private results: DocAnalysisResult[] = [];
+  private gates: QualityGateConfig;
+
+  constructor(gates: QualityGateConfig = {}) {
+    this.gates = gates;
+  }
 
   /**
    * Analyze documentation in a plugin directory
    */
-  public async analyzeDocumentation(pluginPath: string): Promise<void> {
+  public async analyzeDocumentation(pluginPath: string, options: DocsAnalyzeOptions = {}): Promise<void> {
     console.log(`📚 Analyzing documentation: ${pluginPath}`);
     
     if (!fs.existsSync(pluginPath)) {
@@ -59,7 +73,33 @@ class DocsAnalyzer {
     }
 
     // Output results
-    this.outputResults(pluginPath);
+    this.outputResults(pluginPath, options.format === 'sarif' ? undefined : options.output);
+
+    if (options.format === 'sarif') {
+      this.writeSarifReport(pluginPath, options.output);
+    }
+
+    this.checkQualityGates();
+  }
+
+  /**
+   * Fail the run when documentation coverage is below the configured minimum.
+   * The coverage gate is skipped when no plugin was analyzed.
+   */
+  private checkQualityGates(): void {
+    const docCoverage = this.results.length > 0
+      ? this.results.reduce((sum, r) => sum + r.coverage, 0) / this.results.length
+      : undefined;
+    const gates = evaluateQualityGates(this.gates, { docCoverage });
+    const failed = gates.filter(gate => !gate.passed);
+
+    if (failed.length > 0) {
+      console.log(`\n🚫 Quality gates failed (${failed.length} of ${gates.length})`);
+      formatQualityGateSummary(gates).forEach(line => console.log(line));
+      process.exitCode = 1;
+    } else if (gates.length > 0) {
+      console.log(`\n✅ All ${gates.length} quality gates passed`);
+    }
   }
 
   /**
@@ -376,7 +416,7 @@ class DocsAnalyzer {
   /**
    * Output analysis results
    */
-  private outputResults(pluginPath: string): void {
+  private outputResults(pluginPath: string, outputPath?: string): void {
     console.log('\n📚 Documentation Analysis Results\n');
     console.log('=' .repeat(50));
 
@@ -438,23 +478,73 @@ class DocsAnalyzer {
     }
 
     // Save detailed report
-    const reportPath = path.join(pluginPath, 'docs-analysis-report.json');
+    const reportPath = outputPath ? path.resolve(outputPath) : path.join(pluginPath, 'docs-analysis-report.json');
     fs.writeFileSync(reportPath, JSON.stringify(this.results, null, 2));
     console.log(`\n📄 Detailed report saved to: ${reportPath}`);
   }
+
+  /**
+   * Write documentation issues as a SARIF 2.1.0 log
+   */
+  private writeSarifReport(pluginPath: string, outputPath?: string): void {
+    const results = this.results.flatMap(result =>
+      result.issues.map(issue => ({
+        rule: `doc-${issue.type}`,
+        severity: issue.severity,
+        message: issue.description,
+        file: result.file,
+        line: issue.line,
+      }))
+    );
+
+    const log = createSarifLog([{
+      toolName: 'obsidian-plugin-workshop/docs-analyzer',
+      rootPath: pluginPath,
+      rules: docRules,
+      results,
+    }]);
+
+    const reportPath = outputPath ? path.resolve(outputPath) : path.join(pluginPath, 'docs-analysis-report.sarif');
+    fs.writeFileSync(reportPath, JSON.stringify(log, null, 2));
+    console.log(`\n📄 SARIF report saved to: ${reportPath}`);
+  }
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(args: string[]): { pluginPath: string; options: DocsAnalyzeOptions } {
+  const { positional, values } = parseCommandLine(args, { values: ['--format', '--output'] });
+
+  const format = values['--format'];
+  if (format !== undefined && format !== 'json' && format !== 'sarif') {
+    throw new Error(`Unknown format '${format}' (expected json or sarif)`);
+  }
+
+  return { pluginPath: positional[0] || process.cwd(), options: { format, output: values['--output'] } };
 }
 
 // Main execution
 async function main() {
-  const args = process.argv.slice(2);
-  const pluginPath = args[0] || process.cwd();
-
   console.log('📚 Obsidian Plugin Workshop - Documentation Analyzer');
   console.log('=' .repeat(50));
 
+  let parsed: ReturnType<typeof parseArgs>;
+  try {
+    parsed = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.log(`❌ ${(error as Error).message}`);
+    console.log(USAGE);
+    process.exit(1);
+  }
+
   try {
-    const analyzer = new DocsAnalyzer();
-    await analyzer.analyzeDocumentation(pluginPath);
+    const { pluginPath, options } = parsed;
+    const { config, files } = loadWorkshopConfig({ pluginPath });
+    files.forEach(file => console.log(`⚙️  Using config: ${file}`));
+
+    const analyzer = new DocsAnalyzer(config.analyzer.gates);
+    await analyzer.analyzeDocumentation(pluginPath, options);
   } catch (error) {
     console.error('❌ Documentation analysis failed:', error);
     process.exit(1);
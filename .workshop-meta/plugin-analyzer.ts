@@ -9,49 +9,78 @@
 
 import { RateLimitedAnalyzer } from '../src/analyzers/RateLimitedAnalyzer';
 import { PatternDetector } from '../src/analyzers/patterns/PatternDetector';
+import { builtinRules } from '../src/analyzers/patterns/rules/BuiltinRules';
+import { templateRules } from '../src/analyzers/patterns/rules/TemplateRules';
 import { StateAnalyzer } from '../src/analyzers/StateAnalyzer';
 import { EventPatternAnalyzer } from '../src/analyzers/EventPatternAnalyzer';
-import { AnalyzerConfig } from '../src/types/index';
+import { LifecycleAnalyzer } from '../src/analyzers/LifecycleAnalyzer';
+import { ApiCompatibilityAnalyzer } from '../src/analyzers/ApiCompatibilityAnalyzer';
+import { SuppressionSet } from '../src/analyzers/SuppressionSet';
+import { AnalysisCache, FileAnalysis } from '../src/analyzers/AnalysisCache';
+import { collectFindings, diffFindings } from '../src/reporting/Findings';
+import { Baseline } from '../src/reporting/Baseline';
+import { createSarifLog } from '../src/reporting/SarifReporter';
+import { createHtmlReport } from '../src/reporting/HtmlReporter';
+import { applyConfidenceThreshold, evaluateQualityGates, formatQualityGateSummary } from '../src/reporting/QualityGates';
+import { parseCommandLine } from '../src/config/CommandLine';
+import { defaultWorkshopConfig, loadWorkshopConfig } from '../src/config/WorkshopConfigLoader';
+import { AnalyzerConfig, Finding, PatternDetectionResult, QualityGateResult, RuleMetadata } from '../src/types/index';
 import * as fs from 'fs';
 import * as path from 'path';
 
-// Default configuration
-const defaultConfig: AnalyzerConfig = {
-  rateLimit: {
-    requestsPerSecond: 10,
-    maxQueueSize: 100,
-    priorityLevels: 3,
-  },
-  patterns: {
-    enabled: true,
-    categories: ['event', 'state', 'lifecycle', 'api', 'ui'],
-    threshold: 0.7,
-  },
-  stateAnalysis: {
-    enabled: true,
-    trackGlobalState: true,
-    trackLocalState: true,
-    performanceMetrics: true,
-  },
-};
+const DEFAULT_BASELINE_FILE = 'analysis-baseline.json';
+const CACHE_FILE = path.join('.workshop-cache', 'analysis.json');
+const SOURCE_EXTENSIONS = ['.ts', '.js', '.tsx', '.jsx'];
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', 'build', '.git', '.workshop-cache'];
+const WATCH_DEBOUNCE_MS = 150;
+const USAGE = 'Usage: npm run analyze -- [plugin-path] [--format json|sarif|html] [--output <file>]'
+  + ' [--baseline <file>] [--update-baseline] [--no-cache] [--watch]';
+
+interface AnalyzeOptions {
+  /** Baseline file to compare against; only findings missing from it are reported as new */
+  baseline?: string;
+  /** Record the current findings as the new baseline */
+  updateBaseline?: boolean;
+  /** Report format written next to the console summary */
+  format?: 'json' | 'sarif' | 'html';
+  /** Report file path (defaults to analysis-report.<format> in the plugin directory) */
+  output?: string;
+  /** Reuse per-file results for unchanged files (default true) */
+  cache?: boolean;
+  /** Keep running and report findings that appear or disappear as files change */
+  watch?: boolean;
+}
 
 class PluginAnalyzer {
   private rateLimitedAnalyzer: RateLimitedAnalyzer;
   private patternDetector: PatternDetector;
   private stateAnalyzer: StateAnalyzer;
   private eventPatternAnalyzer: EventPatternAnalyzer;
-
-  constructor(config: AnalyzerConfig = defaultConfig) {
+  private lifecycleAnalyzer: LifecycleAnalyzer;
+  private compatibilityAnalyzer: ApiCompatibilityAnalyzer;
+  private config: AnalyzerConfig;
+  /** Resolved custom rule modules; config files already made their paths absolute */
+  private customRuleModules: string[];
+
+  constructor(config: AnalyzerConfig = defaultWorkshopConfig.analyzer) {
+    this.config = config;
     this.rateLimitedAnalyzer = new RateLimitedAnalyzer(config.rateLimit);
-    this.patternDetector = new PatternDetector();
+    this.patternDetector = new PatternDetector([...builtinRules, ...templateRules], config.patterns);
+    this.customRuleModules = (config.patterns.customRules || []).map(rulePath => require.resolve(path.resolve(rulePath)));
+    this.customRuleModules.forEach(modulePath => {
+      const rules = this.patternDetector.loadRules(modulePath);
+      console.log(`🧩 Loaded ${rules.length} custom rule(s) from ${modulePath}`);
+    });
     this.stateAnalyzer = new StateAnalyzer(config.stateAnalysis);
     this.eventPatternAnalyzer = new EventPatternAnalyzer();
+    this.lifecycleAnalyzer = new LifecycleAnalyzer();
+    this.compatibilityAnalyzer = new ApiCompatibilityAnalyzer();
   }
 
   /**
    * Analyze a plugin directory
    */
-  public async analyzePlugin(pluginPath: string): Promise<void> {
+  public async analyzePlugin(pluginPath: string, options: AnalyzeOptions = {}): Promise<void> {
     console.log(`🔍 Analyzing plugin: ${pluginPath}`);
     
     if (!fs.existsSync(pluginPath)) {
@@ -66,24 +95,67 @@ class PluginAnalyzer {
        patterns: [] as any[],
        stateAnalysis: [] as any[],
        eventPatterns: [] as any[],
+       lifecycleIssues: [] as any[],
+       compatibility: null as any,
+       compatibilityIssues: [] as any[],
+       unusedSuppressions: [] as any[],
        performance: {} as any,
+       baseline: null as any,
+       gates: [] as QualityGateResult[],
      };
+    const sources = new Map<string, string>();
+    // Every detection, before the confidence threshold; baselines compare against these
+    const allPatterns: PatternDetectionResult[] = [];
+    const cache = options.cache === false
+      ? null
+      : AnalysisCache.open(path.join(pluginPath, CACHE_FILE), this.getAnalyzerKey());
 
     // Process each file
     for (const file of files) {
-      console.log(`📄 Processing: ${file}`);
-      
       const content = fs.readFileSync(file, 'utf8');
       const relativePath = path.relative(pluginPath, file);
+      sources.set(relativePath, content);
+
+      // Unchanged files reuse their cached results
+      const contentHash = AnalysisCache.hashContent(content);
+      let analysis = cache?.get(relativePath, contentHash);
+      if (analysis) {
+        this.stateAnalyzer.recordResults(relativePath, analysis.stateAnalysis);
+        this.eventPatternAnalyzer.recordResults(relativePath, analysis.eventPatterns);
+      } else {
+        console.log(`📄 Processing: ${file}`);
+        analysis = this.analyzeFile(content, relativePath);
+        cache?.set(relativePath, contentHash, analysis);
+      }
+
+      allPatterns.push(...analysis.patterns);
+      // Drop density-scored patterns below the configured confidence; exact rules always report 1
+      analysisResults.patterns.push(
+        ...applyConfidenceThreshold(analysis.patterns, this.config.patterns.threshold, this.config.gates)
+      );
+      analysisResults.stateAnalysis.push(...analysis.stateAnalysis);
+      analysisResults.eventPatterns.push(...analysis.eventPatterns);
+      analysisResults.lifecycleIssues.push(...analysis.lifecycleIssues);
+      analysisResults.unusedSuppressions.push(...analysis.unusedSuppressions);
+    }
 
-      // Run analyses
-      const patterns = this.patternDetector.analyzeCode(content, relativePath);
-      const stateResults = this.stateAnalyzer.analyzeCode(content, relativePath);
-      const eventResults = this.eventPatternAnalyzer.analyzeCode(content, relativePath);
+    if (cache) {
+      cache.save();
+      console.log(`💾 Cache: ${cache.hits} file(s) reused, ${cache.misses} analyzed`);
+    }
 
-      analysisResults.patterns.push(...patterns);
-      analysisResults.stateAnalysis.push(...stateResults);
-      analysisResults.eventPatterns.push(...eventResults);
+    // API compatibility needs the whole program, so it runs once per plugin
+    const minAppVersion = ApiCompatibilityAnalyzer.readMinAppVersion(pluginPath);
+    if (minAppVersion) {
+      const { usedSuppressions, ...compatibility } = this.compatibilityAnalyzer.analyzeFiles(sources, {
+        rootPath: pluginPath,
+        minAppVersion,
+      });
+      analysisResults.compatibility = compatibility;
+      analysisResults.compatibilityIssues = compatibility.issues;
+      analysisResults.unusedSuppressions = analysisResults.unusedSuppressions.filter(unused =>
+        !usedSuppressions.some(used => used.file === unused.file && used.line === unused.line && used.rule === unused.rule)
+      );
     }
 
     // Generate performance metrics
@@ -92,8 +164,224 @@ class PluginAnalyzer {
       events: this.eventPatternAnalyzer.getPerformanceSummary(),
     };
 
+    // Compare against (or record) the baseline. Confidence depends on match density, so unrelated
+    // edits would move whole rules across the threshold; the baseline sees every detection instead.
+    let findings = collectFindings(analysisResults, sources);
+    if (options.baseline || options.updateBaseline) {
+      const baselinePath = options.baseline
+        ? path.resolve(options.baseline)
+        : path.join(pluginPath, DEFAULT_BASELINE_FILE);
+      const allFindings = collectFindings({ ...analysisResults, patterns: allPatterns }, sources);
+      analysisResults.baseline = this.applyBaseline(allFindings, baselinePath, options.updateBaseline === true);
+      if (!analysisResults.baseline.updated) {
+        findings = analysisResults.baseline.newFindings;
+      }
+    }
+
+    // Evaluate quality gates against the reported findings
+    analysisResults.gates = evaluateQualityGates(this.config.gates || {}, {
+      findings,
+      memoryLeakRisk: analysisResults.performance.events.memoryLeakRisk,
+    });
+
     // Output results
-    this.outputResults(analysisResults, pluginPath);
+    const jsonOutput = !options.format || options.format === 'json' ? options.output : undefined;
+    this.outputResults(analysisResults, pluginPath, jsonOutput);
+
+    if (options.format === 'sarif') {
+      this.writeSarifReport(findings, pluginPath, options.output);
+    }
+    if (options.format === 'html') {
+      this.writeHtmlReport(analysisResults, findings, sources, pluginPath, options.output);
+    }
+
+    if (analysisResults.baseline?.newFindings.length > 0) {
+      process.exitCode = 1;
+    }
+
+    const failedGates = analysisResults.gates.filter(gate => !gate.passed);
+    if (failedGates.length > 0) {
+      console.log(`\n🚫 Quality gates failed (${failedGates.length} of ${analysisResults.gates.length})`);
+      formatQualityGateSummary(analysisResults.gates).forEach(line => console.log(line));
+      process.exitCode = 1;
+    } else if (analysisResults.gates.length > 0) {
+      console.log(`\n✅ All ${analysisResults.gates.length} quality gates passed`);
+    }
+  }
+
+  /**
+   * Analyze a plugin, then re-analyze changed files and print the findings
+   * that appeared or disappeared. Resolves when the process receives SIGINT.
+   */
+  public async watchPlugin(pluginPath: string): Promise<void> {
+    if (!fs.existsSync(pluginPath)) {
+      throw new Error(`Plugin directory not found: ${pluginPath}`);
+    }
+
+    const findingsByFile = new Map<string, Finding[]>();
+    this.resetAnalyzers();
+    this.getSourceFiles(pluginPath).forEach(file => this.refreshFindings(pluginPath, file, findingsByFile));
+
+    const total = () => Array.from(findingsByFile.values()).reduce((sum, findings) => sum + findings.length, 0);
+    console.log(`👀 Watching ${pluginPath} (${total()} findings in ${findingsByFile.size} files)`);
+    console.log('Press Ctrl+C to stop');
+
+    const pending = new Set<string>();
+    let timer: NodeJS.Timeout | null = null;
+
+    const flush = () => {
+      timer = null;
+      const files = Array.from(pending).sort();
+      pending.clear();
+      // Watch mode reads per-file results only; drop the aggregates so they don't grow per rebuild
+      this.resetAnalyzers();
+
+      console.log(`\n🔄 [${new Date().toLocaleTimeString()}] ${files.map(file => path.relative(pluginPath, file)).join(', ')}`);
+      let changes = 0;
+      files.forEach(file => {
+        const { added, removed } = this.refreshFindings(pluginPath, file, findingsByFile);
+        added.forEach(finding => console.log(`  + ${this.formatFinding(finding)}`));
+        removed.forEach(finding => console.log(`  - ${this.formatFinding(finding)}`));
+        changes += added.length + removed.length;
+      });
+
+      if (changes === 0) {
+        console.log('  No finding changes');
+      }
+      console.log(`  ${total()} findings in ${findingsByFile.size} files`);
+    };
+
+    const watcher = fs.watch(pluginPath, { recursive: true }, (_event, fileName) => {
+      if (!fileName) {
+        return;
+      }
+
+      const fullPath = path.join(pluginPath, fileName.toString());
+      const segments = path.relative(pluginPath, fullPath).split(path.sep);
+      if (
+        segments.some(segment => IGNORED_DIRECTORIES.includes(segment)) ||
+        !SOURCE_EXTENSIONS.some(ext => fullPath.endsWith(ext))
+      ) {
+        return;
+      }
+
+      // Editors often write a file several times in a row; report once they settle
+      pending.add(fullPath);
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(flush, WATCH_DEBOUNCE_MS);
+    });
+
+    await new Promise<void>(resolve => {
+      process.once('SIGINT', () => {
+        watcher.close();
+        if (timer) {
+          clearTimeout(timer);
+        }
+        console.log('\n👋 Stopped watching');
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Discard the per-plugin data the state and event analyzers accumulate
+   */
+  private resetAnalyzers(): void {
+    this.stateAnalyzer.clearStateData();
+    this.eventPatternAnalyzer.clearEventPatterns();
+  }
+
+  /**
+   * Re-analyze one file and return how its findings changed
+   */
+  private refreshFindings(
+    pluginPath: string,
+    file: string,
+    findingsByFile: Map<string, Finding[]>
+  ): { added: Finding[]; removed: Finding[] } {
+    const relativePath = path.relative(pluginPath, file);
+    const previous = findingsByFile.get(relativePath) || [];
+
+    if (!fs.existsSync(file)) {
+      findingsByFile.delete(relativePath);
+      return { added: [], removed: previous };
+    }
+
+    const content = fs.readFileSync(file, 'utf8');
+    const analysis = this.analyzeFile(content, relativePath);
+    const current = collectFindings({
+      patterns: applyConfidenceThreshold(analysis.patterns, this.config.patterns.threshold, this.config.gates),
+      stateAnalysis: analysis.stateAnalysis,
+      eventPatterns: analysis.eventPatterns,
+      lifecycleIssues: analysis.lifecycleIssues,
+    }, new Map([[relativePath, content]]));
+
+    findingsByFile.set(relativePath, current);
+    return diffFindings(previous, current);
+  }
+
+  /**
+   * Format a finding as a single console line
+   */
+  private formatFinding(finding: Finding): string {
+    return `${finding.file}:${finding.line}:${finding.column} [${finding.severity}] ${finding.rule} - ${finding.message}`;
+  }
+
+  /**
+   * Run all analyses on one file, sharing one set of suppression comments
+   */
+  private analyzeFile(content: string, relativePath: string): FileAnalysis {
+    const suppressions = SuppressionSet.parse(content, relativePath);
+
+    return {
+      patterns: this.patternDetector.analyzeCode(content, relativePath, suppressions),
+      stateAnalysis: this.stateAnalyzer.analyzeCode(content, relativePath, suppressions),
+      eventPatterns: this.eventPatternAnalyzer.analyzeCode(content, relativePath, suppressions),
+      lifecycleIssues: this.lifecycleAnalyzer.analyzeCode(content, relativePath, suppressions),
+      unusedSuppressions: suppressions.getUnused(relativePath),
+    };
+  }
+
+  /**
+   * Describe everything that affects per-file results, so a change invalidates the cache
+   */
+  private getAnalyzerKey(): string {
+    return AnalysisCache.createAnalyzerKey({
+      workshop: getWorkshopVersion(),
+      analyzers: [PatternDetector.version, StateAnalyzer.version, EventPatternAnalyzer.version, LifecycleAnalyzer.version],
+      rules: this.patternDetector.getActiveRules().map(rule => [rule.id, rule.category, rule.severity, rule.version]),
+      customRules: this.customRuleModules.map(modulePath =>
+        AnalysisCache.hashContent(fs.readFileSync(modulePath, 'utf8'))
+      ),
+      stateAnalysis: this.config.stateAnalysis,
+    });
+  }
+
+  /**
+   * Write the baseline, or compare findings against an existing one
+   */
+  private applyBaseline(findings: Finding[], baselinePath: string, update: boolean): {
+    file: string;
+    updated: boolean;
+    recorded: number;
+    newFindings: Finding[];
+  } {
+    if (update) {
+      const baseline = Baseline.fromFindings(findings);
+      baseline.save(baselinePath);
+      console.log(`📌 Baseline updated: ${baseline.size} findings recorded in ${baselinePath}`);
+      return { file: baselinePath, updated: true, recorded: baseline.size, newFindings: [] };
+    }
+
+    const baseline = Baseline.load(baselinePath);
+    return {
+      file: baselinePath,
+      updated: false,
+      recorded: baseline.size,
+      newFindings: baseline.filterNew(findings),
+    };
   }
 
   /**
@@ -101,7 +389,6 @@ class PluginAnalyzer {
    */
   private getSourceFiles(pluginPath: string): string[] {
     const files: string[] = [];
-    const extensions = ['.ts', '.js', '.tsx', '.jsx'];
 
     const traverse = (dir: string) => {
       const items = fs.readdirSync(dir);
@@ -112,10 +399,10 @@ class PluginAnalyzer {
         
         if (stat.isDirectory()) {
           // Skip node_modules and other common directories
-          if (!['node_modules', 'dist', 'build', '.git'].includes(item)) {
+          if (!IGNORED_DIRECTORIES.includes(item)) {
             traverse(fullPath);
           }
-        } else if (extensions.some(ext => item.endsWith(ext))) {
+        } else if (SOURCE_EXTENSIONS.some(ext => item.endsWith(ext))) {
           files.push(fullPath);
         }
       }
@@ -128,7 +415,7 @@ class PluginAnalyzer {
   /**
    * Output analysis results
    */
-  private outputResults(results: any, pluginPath: string): void {
+  private outputResults(results: any, pluginPath: string, outputPath?: string): void {
     console.log('\n📊 Analysis Results\n');
     console.log('=' .repeat(50));
 
@@ -162,17 +449,129 @@ class PluginAnalyzer {
     console.log(`  High risk handlers: ${eventMetrics.highRiskHandlers}`);
     console.log(`  Memory leak risk: ${eventMetrics.memoryLeakRisk}`);
 
+    // Sample code left from templates/basic-plugin
+    const templatePatterns = results.patterns.filter((pattern: any) => pattern.pattern.startsWith('template-'));
+    if (templatePatterns.length > 0) {
+      const descriptions = new Map(templateRules.map(rule => [rule.id, rule.description]));
+      const occurrences = templatePatterns.reduce((sum: number, pattern: any) => sum + pattern.occurrences, 0);
+      console.log(`\n🧱 Template Scaffolding (${occurrences} unmodified sample pieces)`);
+      console.log('-'.repeat(30));
+      templatePatterns.forEach((pattern: any) => {
+        pattern.locations.forEach((location: any) => {
+          console.log(`  ${location.file}:${location.line} ${descriptions.get(pattern.pattern)}`);
+        });
+      });
+    }
+
+    // Lifecycle pairing
+    console.log(`\n♻️  Lifecycle Pairing (${results.lifecycleIssues.length} unreleased resources)`);
+    console.log('-'.repeat(30));
+    results.lifecycleIssues.forEach((issue: any) => {
+      console.log(`  ${issue.location.file}:${issue.location.line} [${issue.severity}] ${issue.description}`);
+      console.log(`    → ${issue.suggestion}`);
+    });
+
+    // API compatibility
+    if (results.compatibility) {
+      const { minAppVersion, requiredVersion, unresolved, warnings } = results.compatibility;
+      console.log(`\n🧭 API Compatibility (${results.compatibilityIssues.length} APIs newer than minAppVersion ${minAppVersion})`);
+      console.log('-'.repeat(30));
+      results.compatibilityIssues.forEach((issue: any) => {
+        console.log(`  ${issue.location.file}:${issue.location.line} ${issue.symbol} (since ${issue.since})`);
+      });
+      if (requiredVersion) {
+        console.log(`  Lowest compatible minAppVersion: ${requiredVersion}`);
+      }
+      if (unresolved.length > 0) {
+        console.log(`  Missing from the obsidian typings: ${unresolved.join(', ')}`);
+      }
+      warnings.forEach((warning: string) => console.log(`  ⚠️  ${warning}`));
+    }
+
+    // Suppressions that no longer match anything
+    if (results.unusedSuppressions.length > 0) {
+      console.log(`\n🔕 Unused Suppressions (${results.unusedSuppressions.length})`);
+      console.log('-'.repeat(30));
+      results.unusedSuppressions.forEach((suppression: any) => {
+        console.log(`  ${suppression.file}:${suppression.line} workshop-${suppression.directive} ${suppression.rule}`);
+      });
+    }
+
+    // Baseline comparison
+    if (results.baseline && !results.baseline.updated) {
+      console.log(`\n🆕 New Findings vs Baseline (${results.baseline.newFindings.length} new, ${results.baseline.recorded} in baseline)`);
+      console.log('-'.repeat(30));
+      results.baseline.newFindings.forEach((finding: Finding) => {
+        console.log(`  ${this.formatFinding(finding)}`);
+      });
+    }
+
     // Recommendations
     console.log('\n💡 Recommendations');
     console.log('-'.repeat(30));
     this.generateRecommendations(results);
 
     // Save detailed report
-    const reportPath = path.join(pluginPath, 'analysis-report.json');
+    const reportPath = outputPath ? path.resolve(outputPath) : path.join(pluginPath, 'analysis-report.json');
     fs.writeFileSync(reportPath, JSON.stringify(results, null, 2));
     console.log(`\n📄 Detailed report saved to: ${reportPath}`);
   }
 
+  /**
+   * Write findings as a SARIF 2.1.0 log
+   */
+  private writeSarifReport(findings: Finding[], pluginPath: string, outputPath?: string): void {
+    const rules: RuleMetadata[] = [
+      ...this.patternDetector.getActiveRules().map(rule => ({
+        id: rule.id,
+        category: rule.category,
+        severity: rule.severity,
+        description: rule.description || rule.id,
+      })),
+      ...StateAnalyzer.rules,
+      ...EventPatternAnalyzer.rules,
+      ...LifecycleAnalyzer.rules,
+      ...ApiCompatibilityAnalyzer.rules,
+    ];
+
+    const log = createSarifLog([{
+      toolName: 'obsidian-plugin-workshop/plugin-analyzer',
+      toolVersion: getWorkshopVersion(),
+      rootPath: pluginPath,
+      rules,
+      results: findings.map(finding => ({ ...finding, fingerprint: Baseline.fingerprint(finding) })),
+    }]);
+
+    const reportPath = outputPath ? path.resolve(outputPath) : path.join(pluginPath, 'analysis-report.sarif');
+    fs.writeFileSync(reportPath, JSON.stringify(log, null, 2));
+    console.log(`\n📄 SARIF report saved to: ${reportPath}`);
+  }
+
+  /**
+   * Write a self-contained HTML report with annotated sources
+   */
+  private writeHtmlReport(
+    results: any,
+    findings: Finding[],
+    sources: Map<string, string>,
+    pluginPath: string,
+    outputPath?: string
+  ): void {
+    const html = createHtmlReport({
+      title: `Plugin Analysis: ${path.basename(path.resolve(pluginPath))}`,
+      generatedAt: new Date(),
+      findings,
+      sources,
+      patternSummary: this.summarizePatterns(results.patterns),
+      stateMetrics: results.performance.state,
+      eventMetrics: results.performance.events,
+    });
+
+    const reportPath = outputPath ? path.resolve(outputPath) : path.join(pluginPath, 'analysis-report.html');
+    fs.writeFileSync(reportPath, html);
+    console.log(`\n📄 HTML report saved to: ${reportPath}`);
+  }
+
   /**
    * Summarize patterns by category
    */
@@ -207,10 +606,26 @@ class PluginAnalyzer {
       recommendations.push('Address potential memory leaks in event handlers');
     }
 
+    if (results.patterns.some((pattern: any) => pattern.pattern.startsWith('template-'))) {
+      recommendations.push('Replace the sample code left from templates/basic-plugin before publishing');
+    }
+
+    if (results.lifecycleIssues.length > 0) {
+      recommendations.push('Release resources acquired in onload/onOpen via register* helpers or in onunload/onClose');
+    }
+
+    if (results.compatibilityIssues.length > 0) {
+      recommendations.push(`Raise minAppVersion to ${results.compatibility.requiredVersion} or guard newer API calls`);
+    }
+
     if (results.performance.events.highRiskHandlers > 3) {
       recommendations.push('Optimize complex event handlers for better performance');
     }
 
+    if (results.unusedSuppressions.length > 0) {
+      recommendations.push('Remove suppression comments that no longer match any finding');
+    }
+
     // General recommendations
     if (recommendations.length === 0) {
       recommendations.push('Plugin analysis shows good code quality patterns');
@@ -222,17 +637,70 @@ class PluginAnalyzer {
   }
 }
 
+/**
+ * Read the workshop version from package.json
+ */
+function getWorkshopVersion(): string | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')).version;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(args: string[]): { pluginPath: string; options: AnalyzeOptions } {
+  const { positional, values, flags } = parseCommandLine(args, {
+    values: ['--baseline', '--format', '--output'],
+    flags: ['--update-baseline', '--no-cache', '--watch'],
+  });
+
+  const format = values['--format'];
+  if (format !== undefined && format !== 'json' && format !== 'sarif' && format !== 'html') {
+    throw new Error(`Unknown format '${format}' (expected json, sarif or html)`);
+  }
+
+  const options: AnalyzeOptions = { baseline: values['--baseline'], format, output: values['--output'] };
+  if (flags.has('--update-baseline')) {
+    options.updateBaseline = true;
+  }
+  if (flags.has('--no-cache')) {
+    options.cache = false;
+  }
+  if (flags.has('--watch')) {
+    options.watch = true;
+  }
+
+  return { pluginPath: positional[0] || process.cwd(), options };
+}
+
 // Main execution
 async function main() {
-  const args = process.argv.slice(2);
-  const pluginPath = args[0] || process.cwd();
-
   console.log('🚀 Obsidian Plugin Workshop - Plugin Analyzer');
   console.log('=' .repeat(50));
 
+  let parsed: ReturnType<typeof parseArgs>;
   try {
-    const analyzer = new PluginAnalyzer();
-    await analyzer.analyzePlugin(pluginPath);
+    parsed = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.log(`❌ ${(error as Error).message}`);
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  try {
+    const { pluginPath, options } = parsed;
+    const { config, files } = loadWorkshopConfig({ pluginPath });
+    files.forEach(file => console.log(`⚙️  Using config: ${file}`));
+
+    const analyzer = new PluginAnalyzer(config.analyzer);
+    if (options.watch) {
+      await analyzer.watchPlugin(pluginPath);
+    } else {
+      await analyzer.analyzePlugin(pluginPath, options);
+    }
   } catch (error) {
     console.error('❌ Analysis failed:', error);
     process.exit(1);
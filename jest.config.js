@@ -1,3 +1,9 @@
+// Coverage settings come from the shared workshop config (testing.coverage / testing.threshold)
+require('ts-node').register({ transpileOnly: true });
+const { loadWorkshopConfig } = require('./src/config/WorkshopConfigLoader');
+
+const { testing } = loadWorkshopConfig({ cwd: __dirname }).config;
+
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
@@ -16,6 +22,10 @@ module.exports = {
   ],
   coverageDirectory: 'coverage',
   coverageReporters: ['text', 'lcov', 'html'],
+  collectCoverage: testing.coverage,
+  coverageThreshold: testing.coverage
+    ? { global: { lines: testing.threshold, statements: testing.threshold } }
+    : undefined,
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
     '^@analyzers/(.*)$': '<rootDir>/src/analyzers/$1',
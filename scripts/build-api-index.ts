@@ -0,0 +1,72 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Build API Index - Regenerate the Obsidian API version index
+ *
+ * Reads `@since` tags from an obsidian.d.ts file and writes
+ * src/analyzers/compat/obsidian-api-index.json. Use the typings of the newest
+ * obsidian package for the most complete index; typings older than the
+ * committed index are refused unless `--force` is given.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildApiIndex, compareVersions } from '../src/analyzers/compat/ApiIndex';
+
+const INDEX_PATH = path.join(__dirname, '..', 'src', 'analyzers', 'compat', 'obsidian-api-index.json');
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const [input] = args.filter(arg => arg !== '--force');
+  if (!input) {
+    console.log('Usage: npm run build-api-index -- <path/to/obsidian.d.ts> [--force]');
+    process.exit(1);
+  }
+  const declarationsPath = path.resolve(input);
+
+  try {
+    if (!fs.existsSync(declarationsPath)) {
+      throw new Error(`Declaration file not found: ${declarationsPath}`);
+    }
+
+    // The package.json next to obsidian.d.ts names the version the index describes
+    const packageJsonPath = path.join(path.dirname(declarationsPath), 'package.json');
+    const version = fs.existsSync(packageJsonPath)
+      ? JSON.parse(fs.readFileSync(packageJsonPath, 'utf8')).version
+      : 'unknown';
+
+    // Never replace the committed index with one built from older (or unversioned) typings
+    const existing = readIndexedVersion();
+    if (existing && !force && (version === 'unknown' || compareVersions(version, existing) < 0)) {
+      throw new Error(
+        `obsidian@${version} is older than the indexed obsidian@${existing}; pass --force to overwrite anyway`
+      );
+    }
+
+    const index = buildApiIndex(fs.readFileSync(declarationsPath, 'utf8'), `obsidian@${version}`);
+    fs.writeFileSync(INDEX_PATH, JSON.stringify(index, null, 2) + '\n');
+
+    console.log(`📚 Indexed ${Object.keys(index.symbols).length} symbols from ${index.source}`);
+    console.log(`📄 Written to: ${INDEX_PATH}`);
+  } catch (error) {
+    console.error('❌ Error:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Version of the obsidian typings the committed index was built from
+ */
+function readIndexedVersion(): string | undefined {
+  if (!fs.existsSync(INDEX_PATH)) {
+    return undefined;
+  }
+  const source: string = JSON.parse(fs.readFileSync(INDEX_PATH, 'utf8')).source || '';
+  const match = /^obsidian@(\d+(?:\.\d+)*)$/.exec(source);
+  return match ? match[1] : undefined;
+}
+
+if (require.main === module) {
+  main();
+}
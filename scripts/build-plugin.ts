@@ -2,24 +2,46 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { execSync } from 'child_process';
-
-interface PluginManifest {
-  id: string;
-  name: string;
-  version: string;
-  description: string;
-  author: string;
+import * as os from 'os';
+import { execSync, spawn } from 'child_process';
+import * as ts from 'typescript';
+import { CommandLine, parseCommandLine } from '../src/config/CommandLine';
+import { loadWorkshopConfig } from '../src/config/WorkshopConfigLoader';
+import { BuildProfile, PluginBundler } from '../src/bundler/PluginBundler';
+import { BundleAnalyzer, formatBytes } from '../src/bundler/BundleAnalyzer';
+import { BuildScheduler, findWorkspaceDependencies } from '../src/bundler/BuildScheduler';
+import { ManifestValidator } from '../src/validation/ManifestValidator';
+import { PreflightChecker } from '../src/validation/PreflightChecker';
+import { RELEASE_LEVELS, ReleaseLevel, ReleaseManager } from '../src/release/ReleaseManager';
+import { VaultDeployer } from '../src/deploy/VaultDeployer';
+import { PluginManifest, WorkshopConfig } from '../src/types/index';
+
+/** Bundle size and duration of a successful build */
+interface BuildRecord {
+  bytes: number;
+  durationMs: number;
 }
 
+/** Last successful build per profile and plugin */
+type BuildHistory = Partial<Record<BuildProfile, Record<string, BuildRecord>>>;
+
+/** Editors often write a file several times in a row */
+const ASSET_DEBOUNCE_MS = 100;
+
 class PluginBuilder {
   private pluginsPath: string;
+  private releasesPath: string;
+  private buildLogsPath: string;
+  private buildHistoryPath: string;
 
   constructor() {
     this.pluginsPath = path.join(__dirname, '..', 'plugins');
+    this.releasesPath = path.join(__dirname, '..', 'releases');
+    this.buildLogsPath = path.join(__dirname, '..', '.workshop-cache', 'build-logs');
+    this.buildHistoryPath = path.join(__dirname, '..', '.workshop-cache', 'builds.json');
   }
 
-  async buildPlugin(pluginId: string): Promise<void> {
+  async buildPlugin(pluginId: string, profile: BuildProfile = 'production'): Promise<void> {
     const pluginPath = path.join(this.pluginsPath, pluginId);
     
     if (!fs.existsSync(pluginPath)) {
@@ -33,7 +55,9 @@ class PluginBuilder {
 
     const manifest: PluginManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
     
-    console.log(`🔨 Building plugin: ${manifest.name} (${manifest.id})`);
+    const config = this.getPluginConfig(pluginPath);
+
+    console.log(`🔨 Building plugin: ${manifest.name} (${manifest.id}) [${profile}]`);
     console.log(`📍 Location: ${pluginPath}`);
 
     try {
@@ -48,74 +72,142 @@ class PluginBuilder {
         }
       }
 
-      // Build the plugin
-      console.log('🔄 Compiling TypeScript...');
-      execSync('npm run build', { cwd: pluginPath, stdio: 'inherit' });
-
-      // Check if main.js was created
-      const mainJsPath = path.join(pluginPath, 'main.js');
-      if (fs.existsSync(mainJsPath)) {
-        console.log('✅ Plugin built successfully!');
-        
-        // Show build info
-        const stats = fs.statSync(mainJsPath);
-        console.log(`📊 Build info:`);
-        console.log(`   - Size: ${(stats.size / 1024).toFixed(2)} KB`);
-        console.log(`   - Modified: ${stats.mtime.toLocaleString()}`);
-      } else {
-        throw new Error('Build completed but main.js not found');
+      // esbuild strips types without checking them
+      if (config.development.typeChecking) {
+        console.log('🔎 Type checking...');
+        this.typeCheck(pluginPath);
       }
 
+      console.log('📦 Bundling with esbuild...');
+      const result = await new PluginBundler(config).bundle(pluginPath, profile);
+      result.warnings.forEach(warning => console.warn(`⚠️  ${warning}`));
+
+      console.log('✅ Plugin built successfully!');
+      console.log(`📊 Build info:`);
+      console.log(`   - Output: ${path.relative(pluginPath, result.outputFile)}`);
+      console.log(`   - Size: ${(result.bytes / 1024).toFixed(2)} KB`);
+      console.log(`   - Time: ${result.durationMs}ms`);
+
     } catch (error) {
-      console.error(`❌ Build failed for plugin '${pluginId}':`, error.message);
+      console.error(`❌ Build failed for plugin '${pluginId}':`, (error as Error).message);
       throw error;
     }
   }
 
-  async buildAllPlugins(): Promise<void> {
+  /**
+   * Build every plugin in a bounded pool of child processes, dependencies first.
+   * Each build's output goes to .workshop-cache/build-logs/<id>.log. Returns false if any build failed.
+   */
+  async buildAllPlugins(profile: BuildProfile = 'production', jobs: number = os.availableParallelism()): Promise<boolean> {
     console.log('🔨 Building all plugins...');
     
     if (!fs.existsSync(this.pluginsPath)) {
       console.log('📁 No plugins directory found');
-      return;
+      return true;
     }
 
-    const plugins = fs.readdirSync(this.pluginsPath).filter(item => {
-      const itemPath = path.join(this.pluginsPath, item);
-      return fs.statSync(itemPath).isDirectory();
-    });
-
+    const plugins = this.getPluginIds();
     if (plugins.length === 0) {
       console.log('📂 No plugins found in plugins directory');
-      return;
+      return true;
     }
 
-    console.log(`Found ${plugins.length} plugin(s): ${plugins.join(', ')}`);
+    const graph = findWorkspaceDependencies(this.pluginsPath, plugins);
+    const concurrency = Math.max(1, Math.min(jobs, plugins.length));
+    console.log(`Found ${plugins.length} plugin(s), building ${concurrency} at a time [${profile}]`);
+    graph.forEach((dependencies, id) => {
+      if (dependencies.length > 0) {
+        console.log(`   ${id} ← ${dependencies.join(', ')}`);
+      }
+    });
+
+    fs.mkdirSync(this.buildLogsPath, { recursive: true });
+    const logFile = (id: string) => path.join(this.buildLogsPath, `${id}.log`);
 
-    const results: Array<{ plugin: string; success: boolean; error?: string }> = [];
-    for (const plugin of plugins) {
+    const results = await new BuildScheduler(concurrency).run(graph, async id => {
+      console.log(`   ▶ ${id}`);
       try {
-        await this.buildPlugin(plugin);
-        results.push({ plugin, success: true });
+        const build = await this.buildInChildProcess(id, profile, logFile(id));
+        console.log(`   ✔ ${id} (${(build.durationMs / 1000).toFixed(1)}s)`);
+        return build;
       } catch (error) {
-        results.push({ plugin, success: false, error: error.message });
+        console.log(`   ✖ ${id}`);
+        throw error;
       }
-    }
+    });
+
+    // Size deltas compare against the last successful build with the same profile
+    const history = this.readBuildHistory();
+    const previous = history[profile] || {};
+    const rows = results.map(result => {
+      const build = result.value;
+      const before = previous[result.id];
+      const delta = build && before ? build.bytes - before.bytes : undefined;
+      return [
+        result.id,
+        result.status === 'success' ? 'built' : result.status,
+        build ? `${(build.durationMs / 1000).toFixed(1)}s` : '-',
+        build ? formatKb(build.bytes) : '-',
+        delta === undefined ? '-' : formatDelta(delta),
+        result.status === 'failed'
+          ? path.relative(process.cwd(), logFile(result.id))
+          : result.status === 'skipped' ? `${result.blockedBy} did not build` : '',
+      ];
+    });
+
+    results.forEach(result => {
+      if (result.value) {
+        previous[result.id] = result.value;
+      }
+    });
+    this.writeBuildHistory({ ...history, [profile]: previous });
 
-    // Summary
     console.log('\n📋 Build Summary:');
-    const successful = results.filter(r => r.success);
-    const failed = results.filter(r => !r.success);
+    printTable(['Plugin', 'Status', 'Time', 'Size', 'Δ Size', 'Notes'], rows);
 
-    console.log(`✅ Successful: ${successful.length}`);
-    if (successful.length > 0) {
-      successful.forEach(r => console.log(`   - ${r.plugin}`));
-    }
+    const failed = results.filter(result => result.status !== 'success').length;
+    console.log(failed === 0
+      ? `\n✅ ${results.length} plugin(s) built`
+      : `\n❌ ${failed} of ${results.length} plugin(s) did not build`);
 
-    console.log(`❌ Failed: ${failed.length}`);
-    if (failed.length > 0) {
-      failed.forEach(r => console.log(`   - ${r.plugin}: ${r.error}`));
-    }
+    return failed === 0;
+  }
+
+  /**
+   * Run `build <id>` in a child process with its output written to a log file
+   */
+  private buildInChildProcess(pluginId: string, profile: BuildProfile, logFile: string): Promise<BuildRecord> {
+    // The parent was already type-checked by ts-node; children only need to transpile
+    const runner = __filename.endsWith('.ts') ? [require.resolve('ts-node/dist/bin'), __filename] : [__filename];
+    const args = [...runner, 'build', pluginId, ...(profile === 'development' ? ['--dev'] : [])];
+    const started = Date.now();
+
+    return new Promise((resolve, reject) => {
+      const log = fs.createWriteStream(logFile);
+      const child = spawn(process.execPath, args, {
+        cwd: path.join(__dirname, '..'),
+        env: { ...process.env, TS_NODE_TRANSPILE_ONLY: 'true', FORCE_COLOR: '0' },
+      });
+
+      child.stdout.pipe(log, { end: false });
+      child.stderr.pipe(log, { end: false });
+      child.on('error', error => {
+        log.end();
+        reject(error);
+      });
+      child.on('close', code => {
+        log.end(() => {
+          if (code !== 0) {
+            reject(new Error(`Build exited with code ${code}`));
+            return;
+          }
+
+          const pluginPath = path.join(this.pluginsPath, pluginId);
+          const outputFile = path.resolve(pluginPath, this.getPluginConfig(pluginPath).build.outputDir, 'main.js');
+          resolve({ bytes: fs.statSync(outputFile).size, durationMs: Date.now() - started });
+        });
+      });
+    });
   }
 
   async cleanPlugin(pluginId: string): Promise<void> {
@@ -127,11 +219,12 @@ class PluginBuilder {
 
     console.log(`🧹 Cleaning plugin: ${pluginId}`);
 
+    const outputPath = path.resolve(pluginPath, this.getPluginConfig(pluginPath).build.outputDir);
     const filesToRemove = ['main.js', 'main.js.map'];
     let removedCount = 0;
 
     filesToRemove.forEach(fileName => {
-      const filePath = path.join(pluginPath, fileName);
+      const filePath = path.join(outputPath, fileName);
       if (fs.existsSync(filePath)) {
         fs.unlinkSync(filePath);
         console.log(`   Removed: ${fileName}`);
@@ -142,6 +235,158 @@ class PluginBuilder {
     console.log(`✅ Cleaned ${removedCount} file(s)`);
   }
 
+  /**
+   * Validate release metadata for one plugin, or every plugin when no id is given.
+   * Returns false if any plugin has errors.
+   */
+  validatePlugins(pluginId?: string): boolean {
+    const pluginIds = pluginId ? [pluginId] : this.getPluginIds();
+    if (pluginIds.length === 0) {
+      console.log('📂 No plugins found in plugins directory');
+      return true;
+    }
+
+    const validator = new ManifestValidator();
+    let allValid = true;
+
+    pluginIds.forEach(id => {
+      const pluginPath = path.join(this.pluginsPath, id);
+      if (!fs.existsSync(pluginPath)) {
+        throw new Error(`Plugin '${id}' not found`);
+      }
+
+      const result = validator.validate(pluginPath);
+      const errors = result.issues.filter(issue => issue.severity === 'error');
+      const warnings = result.issues.filter(issue => issue.severity === 'warning');
+
+      console.log(`\n${result.valid ? '✅' : '❌'} ${id}: ${errors.length} error(s), ${warnings.length} warning(s)`);
+      result.issues.forEach(issue => {
+        const location = issue.line ? `${issue.file}:${issue.line}` : issue.file;
+        console.log(`   ${issue.severity === 'error' ? '✖' : '⚠'} ${location} [${issue.check}] ${issue.message}`);
+      });
+
+      allValid = allValid && result.valid;
+    });
+
+    return allValid;
+  }
+
+  /**
+   * Print the community submission checklist for a plugin. Returns false if any check failed.
+   */
+  preflightPlugin(pluginId: string): boolean {
+    const pluginPath = path.join(this.pluginsPath, pluginId);
+    if (!fs.existsSync(pluginPath)) {
+      throw new Error(`Plugin '${pluginId}' not found`);
+    }
+
+    console.log(`🛫 Pre-flight checklist: ${pluginId}\n`);
+
+    const report = new PreflightChecker().run(pluginPath);
+    const icons = { pass: '✅', warn: '⚠️ ', fail: '❌' };
+    report.checks.forEach(check => {
+      console.log(`${icons[check.status]} ${check.title}`);
+      check.details.forEach(detail => console.log(`     ${detail}`));
+    });
+
+    const failed = report.checks.filter(check => check.status === 'fail').length;
+    const warned = report.checks.filter(check => check.status === 'warn').length;
+    console.log(report.passed
+      ? `\n🎉 Ready to submit (${warned} warning(s) to review)`
+      : `\n🚫 ${failed} of ${report.checks.length} checks failed`);
+
+    return report.passed;
+  }
+
+  /**
+   * Bundle the plugin and report which files and packages its main.js bytes come from.
+   * The JSON report goes to `output` (default .workshop-cache/bundle-reports/<id>.json).
+   */
+  async analyzeBundle(pluginId: string, profile: BuildProfile, options: { json?: boolean; output?: string } = {}): Promise<void> {
+    const pluginPath = path.join(this.pluginsPath, pluginId);
+    if (!fs.existsSync(pluginPath)) {
+      throw new Error(`Plugin '${pluginId}' not found`);
+    }
+
+    // Sizes only depend on the bundle, so the type check is skipped
+    const result = await new PluginBundler(this.getPluginConfig(pluginPath)).bundle(pluginPath, profile);
+    const analysis = new BundleAnalyzer({ rootPath: pluginPath }).analyze(result.metafile);
+    const reportPath = options.output
+      ? path.resolve(options.output)
+      : path.join(__dirname, '..', '.workshop-cache', 'bundle-reports', `${pluginId}.json`);
+    fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+    fs.writeFileSync(reportPath, JSON.stringify(analysis, null, 2));
+
+    if (options.json) {
+      console.log(JSON.stringify(analysis, null, 2));
+      return;
+    }
+
+    console.log(`\n📊 Bundle composition: ${pluginId}\n`);
+    console.log(BundleAnalyzer.formatTree(analysis));
+
+    if (analysis.duplicates.length > 0) {
+      console.log('\n⚠️  Duplicate packages:');
+      analysis.duplicates.forEach(duplicate => {
+        console.log(`   ${duplicate.name} (${formatBytes(duplicate.wastedBytes)} could be saved)`);
+        duplicate.instances.forEach(instance =>
+          console.log(`     - ${instance.path}${instance.version ? `@${instance.version}` : ''}  ${formatBytes(instance.bytes)}`)
+        );
+      });
+    }
+
+    if (analysis.largeAssets.length > 0) {
+      console.log('\n⚠️  Large inlined assets:');
+      analysis.largeAssets.forEach(asset => console.log(`   ${asset.path}  ${formatBytes(asset.bytes)}`));
+    }
+
+    console.log(`\n📄 JSON report: ${path.relative(process.cwd(), reportPath)}`);
+  }
+
+  /**
+   * Bump the version, build for production and package the release into releases/<id>/<version>/.
+   * Version files are only rewritten once the build has succeeded.
+   */
+  async releasePlugin(pluginId: string, level: ReleaseLevel): Promise<void> {
+    const pluginPath = path.join(this.pluginsPath, pluginId);
+    if (!fs.existsSync(pluginPath)) {
+      throw new Error(`Plugin '${pluginId}' not found`);
+    }
+
+    const releases = new ReleaseManager();
+    const { previousVersion, version } = releases.planBump(pluginPath, level);
+    if (fs.existsSync(path.join(this.releasesPath, pluginId, version))) {
+      throw new Error(`Release ${pluginId} ${version} already exists in releases/`);
+    }
+
+    console.log(`🚀 Releasing ${pluginId}: ${previousVersion} → ${version} (${level})\n`);
+    const changes = releases.readGitChanges(pluginPath, pluginId);
+
+    await this.buildPlugin(pluginId, 'production');
+    const artifacts = releases.collectArtifacts(pluginPath, this.getPluginConfig(pluginPath).build.outputDir);
+
+    const bump = releases.applyBump(pluginPath, level);
+    console.log(`\n🔖 Bumped version in ${bump.files.join(', ')}`);
+
+    const release = releases.writePackage(artifacts, this.releasesPath, pluginId, version);
+    console.log(`📦 Packaged ${artifacts.map(artifact => artifact.name).join(', ')}`);
+    console.log(`   - Directory: ${path.relative(process.cwd(), release.directory)}`);
+    Object.entries(release.checksums).forEach(([name, hash]) => console.log(`   - ${name}: sha256 ${hash}`));
+
+    if (changes) {
+      releases.appendChangelog(pluginPath, version, changes.subjects);
+      console.log(`📝 CHANGELOG.md: ${changes.subjects.length} commit(s) since ${changes.tag || 'the first commit'}`);
+    } else {
+      console.log('⚠️  Not a git repository, CHANGELOG.md not updated');
+    }
+
+    console.log(`\n✅ Release ${version} ready. Commit the version bump, then tag it: git tag ${ReleaseManager.tagName(pluginId, version)}`);
+  }
+
+  /**
+   * Rebuild on change with the development profile and deploy each successful build to the
+   * configured vaults. Resolves when the process receives SIGINT.
+   */
   async watchPlugin(pluginId: string): Promise<void> {
     const pluginPath = path.join(this.pluginsPath, pluginId);
     
@@ -149,17 +394,146 @@ class PluginBuilder {
       throw new Error(`Plugin '${pluginId}' not found`);
     }
 
+    const config = this.getPluginConfig(pluginPath);
+    // Relative vault paths were already resolved against the config file that lists them
+    const deployer = new VaultDeployer(config.development.vaults, { hotReload: config.development.hotReload });
+    if (deployer.getVaults().length > 0) {
+      deployer.checkVaults();
+    }
+
     console.log(`👀 Watching plugin: ${pluginId}`);
+    deployer.getVaults().forEach(vault => console.log(`   → ${vault}`));
+    if (deployer.getVaults().length === 0) {
+      console.log('   No vaults configured (development.vaults); building in place only');
+    }
     console.log('Press Ctrl+C to stop');
 
+    const deploy = () => {
+      if (deployer.getVaults().length === 0) {
+        return;
+      }
+      try {
+        const files = new ReleaseManager().collectArtifacts(pluginPath, config.build.outputDir);
+        deployer.deploy(pluginId, files).forEach(result =>
+          console.log(`   📤 ${result.copied.join(', ')} → ${result.pluginDir}`)
+        );
+      } catch (error) {
+        console.error(`   ❌ Deploy failed: ${(error as Error).message}`);
+      }
+    };
+
+    const watcher = await new PluginBundler(config).watch(pluginPath, 'development', result => {
+      const time = new Date().toLocaleTimeString();
+      if (result instanceof Error) {
+        console.error(`\n❌ [${time}] ${result.message}`);
+        return;
+      }
+      console.log(`\n🔄 [${time}] Built ${(result.bytes / 1024).toFixed(2)} KB in ${result.durationMs}ms`);
+      result.warnings.forEach(warning => console.warn(`⚠️  ${warning}`));
+      deploy();
+    });
+
+    // esbuild only watches bundled files; the manifest and stylesheet are deployed as they are
+    let assetTimer: NodeJS.Timeout | null = null;
+    const assetWatcher = fs.watch(pluginPath, (_event, fileName) => {
+      if (!fileName || !['manifest.json', 'styles.css'].includes(fileName.toString())) {
+        return;
+      }
+      if (assetTimer) {
+        clearTimeout(assetTimer);
+      }
+      assetTimer = setTimeout(() => {
+        assetTimer = null;
+        console.log(`\n🔄 [${new Date().toLocaleTimeString()}] ${fileName} changed`);
+        deploy();
+      }, ASSET_DEBOUNCE_MS);
+    });
+
+    await new Promise<void>(resolve => {
+      process.once('SIGINT', async () => {
+        assetWatcher.close();
+        if (assetTimer) {
+          clearTimeout(assetTimer);
+        }
+        await watcher.dispose();
+        console.log('\n👋 Stopped watching');
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Type check the plugin with its tsconfig.json, throwing on errors
+   */
+  private typeCheck(pluginPath: string): void {
+    const configPath = ts.findConfigFile(pluginPath, ts.sys.fileExists, 'tsconfig.json');
+    if (!configPath || path.dirname(configPath) !== path.resolve(pluginPath)) {
+      console.log('   No tsconfig.json, skipping');
+      return;
+    }
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      throw new Error(ts.flattenDiagnosticMessageText(error.messageText, '\n'));
+    }
+
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath));
+    // Nothing is emitted, so emit helpers are irrelevant; library typings are the packages' concern
+    const program = ts.createProgram(parsed.fileNames, {
+      ...parsed.options,
+      noEmit: true,
+      importHelpers: false,
+      skipLibCheck: true,
+    });
+    const diagnostics = ts.getPreEmitDiagnostics(program);
+
+    if (diagnostics.length > 0) {
+      console.error(ts.formatDiagnostics(diagnostics, {
+        getCanonicalFileName: fileName => fileName,
+        getCurrentDirectory: () => pluginPath,
+        getNewLine: () => '\n',
+      }));
+      throw new Error(`Type check failed with ${diagnostics.length} error(s)`);
+    }
+  }
+
+  /**
+   * Resolve the workshop config with the plugin's own overrides applied
+   */
+  private getPluginConfig(pluginPath: string): WorkshopConfig {
+    return loadWorkshopConfig({ cwd: path.join(__dirname, '..'), pluginPath }).config;
+  }
+
+  private readBuildHistory(): BuildHistory {
+    if (!fs.existsSync(this.buildHistoryPath)) {
+      return {};
+    }
     try {
-      execSync('npm run dev', { cwd: pluginPath, stdio: 'inherit' });
-    } catch (error) {
-      // This is expected when the user presses Ctrl+C
-      console.log('\n👋 Stopped watching');
+      return JSON.parse(fs.readFileSync(this.buildHistoryPath, 'utf8'));
+    } catch {
+      return {};
     }
   }
 
+  private writeBuildHistory(history: BuildHistory): void {
+    fs.mkdirSync(path.dirname(this.buildHistoryPath), { recursive: true });
+    fs.writeFileSync(this.buildHistoryPath, JSON.stringify(history, null, 2));
+  }
+
+  /**
+   * Directories in plugins/
+   */
+  private getPluginIds(): string[] {
+    if (!fs.existsSync(this.pluginsPath)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.pluginsPath).filter(item => {
+      const itemPath = path.join(this.pluginsPath, item);
+      return fs.statSync(itemPath).isDirectory();
+    });
+  }
+
   listPlugins(): void {
     console.log('📂 Available plugins:');
     
@@ -190,11 +564,70 @@ class PluginBuilder {
   }
 }
 
+function formatKb(bytes: number): string {
+  return `${(bytes / 1024).toFixed(2)} KB`;
+}
+
+/**
+ * Signed size change, in bytes below 1 KB
+ */
+function formatDelta(bytes: number): string {
+  const sign = bytes > 0 ? '+' : bytes < 0 ? '-' : '±';
+  const size = Math.abs(bytes) < 1024 ? `${Math.abs(bytes)} B` : formatKb(Math.abs(bytes));
+  return `${sign}${size}`;
+}
+
+/**
+ * Print rows as left-aligned columns
+ */
+function printTable(headers: string[], rows: string[][]): void {
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map(row => row[column].length)));
+  const format = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  console.log(format(headers));
+  console.log(widths.map(width => '-'.repeat(width)).join('  '));
+  rows.forEach(row => console.log(format(row)));
+}
+
+/**
+ * Print the command overview
+ */
+function printUsage(): void {
+  console.log('Usage: npm run build-plugin <command> [plugin-id]');
+  console.log('Commands:');
+  console.log('  build [plugin-id] [--dev] [--jobs <n>] - Bundle specific plugin or all plugins (--dev: development profile)');
+  console.log('  clean <plugin-id>  - Clean build artifacts');
+  console.log('  watch <plugin-id>  - Rebuild on changes and deploy to development.vaults');
+  console.log('  validate [plugin-id] - Check manifest.json, versions.json and package.json');
+  console.log('  preflight <plugin-id> - Community submission checklist');
+  console.log('  analyze-bundle <plugin-id> [--json] [--output <file>] - Bundle size by file and package');
+  console.log('  release <plugin-id> <patch|minor|major> - Bump, build and package into releases/');
+  console.log('  list              - List all plugins');
+  console.log('Options take their value as --name <value> or --name=<value>');
+}
+
 // CLI Interface
 async function main(): Promise<void> {
-  const args = process.argv.slice(2);
+  let commandLine: CommandLine;
+  try {
+    commandLine = parseCommandLine(process.argv.slice(2), { values: ['--jobs', '--output'], flags: ['--dev', '--json'] });
+  } catch (error) {
+    console.log(`❌ ${(error as Error).message}`);
+    printUsage();
+    process.exit(1);
+  }
+
+  const args = commandLine.positional;
   const command = args[0];
   const pluginId = args[1];
+  const profile: BuildProfile = commandLine.flags.has('--dev') ? 'development' : 'production';
+  const jobsValue = commandLine.values['--jobs'];
+  const jobs = jobsValue !== undefined ? Number(jobsValue) : undefined;
+  if (jobs !== undefined && (!Number.isInteger(jobs) || jobs < 1)) {
+    console.log(`❌ --jobs must be a positive integer, got "${jobsValue}"`);
+    console.log('Usage: npm run build-plugin build [plugin-id] [--dev] [--jobs <n>]');
+    process.exit(1);
+  }
 
   const builder = new PluginBuilder();
 
@@ -202,9 +635,9 @@ async function main(): Promise<void> {
     switch (command) {
       case 'build':
         if (pluginId) {
-          await builder.buildPlugin(pluginId);
-        } else {
-          await builder.buildAllPlugins();
+          await builder.buildPlugin(pluginId, profile);
+        } else if (!(await builder.buildAllPlugins(profile, jobs))) {
+          process.exitCode = 1;
         }
         break;
 
@@ -228,17 +661,50 @@ async function main(): Promise<void> {
         builder.listPlugins();
         break;
 
+      case 'preflight':
+        if (!pluginId) {
+          console.log('Usage: npm run build-plugin preflight <plugin-id>');
+          process.exit(1);
+        }
+        if (!builder.preflightPlugin(pluginId)) {
+          process.exitCode = 1;
+        }
+        break;
+
+      case 'analyze-bundle': {
+        if (!pluginId) {
+          console.log('Usage: npm run build-plugin analyze-bundle <plugin-id> [--dev] [--json] [--output <file>]');
+          process.exit(1);
+        }
+        await builder.analyzeBundle(pluginId, profile, {
+          json: commandLine.flags.has('--json'),
+          output: commandLine.values['--output'],
+        });
+        break;
+      }
+
+      case 'release': {
+        const level = args[2] as ReleaseLevel;
+        if (!pluginId || !RELEASE_LEVELS.includes(level)) {
+          console.log(`Usage: npm run build-plugin release <plugin-id> <${RELEASE_LEVELS.join('|')}>`);
+          process.exit(1);
+        }
+        await builder.releasePlugin(pluginId, level);
+        break;
+      }
+
+      case 'validate':
+        if (!builder.validatePlugins(pluginId)) {
+          process.exitCode = 1;
+        }
+        break;
+
       default:
-        console.log('Usage: npm run build-plugin <command> [plugin-id]');
-        console.log('Commands:');
-        console.log('  build [plugin-id]  - Build specific plugin or all plugins');
-        console.log('  clean <plugin-id>  - Clean build artifacts');
-        console.log('  watch <plugin-id>  - Watch and rebuild on changes');
-        console.log('  list              - List all plugins');
+        printUsage();
         process.exit(1);
     }
   } catch (error) {
-    console.error('❌ Error:', error.message);
+    console.error('❌ Error:', (error as Error).message);
     process.exit(1);
   }
 }
@@ -88,6 +88,10 @@ class PluginGenerator {
 
     fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
     console.log(`📄 Created manifest.json`);
+
+    const versionsPath = path.join(pluginPath, 'versions.json');
+    fs.writeFileSync(versionsPath, JSON.stringify({ [config.version]: config.minAppVersion }, null, 2));
+    console.log(`📄 Created versions.json`);
   }
 
   private updateMainFile(pluginPath: string, config: PluginConfig): void {
@@ -0,0 +1,134 @@
+/**
+ * AnalysisCache - Persist per-file analyzer results between runs
+ *
+ * Entries are keyed by file path and the sha256 of the file content. The
+ * whole cache is tied to an analyzer key (analyzer and rule versions plus
+ * any configuration that changes per-file results); a different key
+ * discards every entry. Only files seen during the current run are written
+ * back, so deleted files drop out of the cache automatically.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  EventPatternResult,
+  LifecycleIssue,
+  PatternDetectionResult,
+  StateAnalysisResult,
+  UnusedSuppression,
+} from '../types/index';
+
+export interface FileAnalysis {
+  patterns: PatternDetectionResult[];
+  stateAnalysis: StateAnalysisResult[];
+  eventPatterns: EventPatternResult[];
+  lifecycleIssues: LifecycleIssue[];
+  unusedSuppressions: UnusedSuppression[];
+}
+
+interface CacheEntry {
+  contentHash: string;
+  analysis: FileAnalysis;
+}
+
+interface CacheData {
+  version: number;
+  analyzerKey: string;
+  files: Record<string, CacheEntry>;
+}
+
+const CACHE_VERSION = 1;
+
+export class AnalysisCache {
+  private readonly filePath: string;
+  private readonly analyzerKey: string;
+  private readonly entries: Record<string, CacheEntry>;
+  private readonly current: Record<string, CacheEntry> = {};
+  private hitCount = 0;
+  private missCount = 0;
+
+  private constructor(filePath: string, analyzerKey: string, entries: Record<string, CacheEntry>) {
+    this.filePath = filePath;
+    this.analyzerKey = analyzerKey;
+    this.entries = entries;
+  }
+
+  /**
+   * Open the cache file. A missing, unreadable or outdated cache starts empty.
+   */
+  public static open(filePath: string, analyzerKey: string): AnalysisCache {
+    let entries: Record<string, CacheEntry> = {};
+
+    if (fs.existsSync(filePath)) {
+      try {
+        const data: CacheData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        if (data?.version === CACHE_VERSION && data.analyzerKey === analyzerKey && data.files) {
+          entries = data.files;
+        }
+      } catch {
+        // A corrupt cache is rebuilt from scratch
+      }
+    }
+
+    return new AnalysisCache(filePath, analyzerKey, entries);
+  }
+
+  /**
+   * Hash file content for cache lookups
+   */
+  public static hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Hash any JSON-serializable description of the analyzers into a cache key
+   */
+  public static createAnalyzerKey(description: unknown): string {
+    return crypto.createHash('sha256').update(JSON.stringify(description)).digest('hex').substring(0, 16);
+  }
+
+  /**
+   * Get the cached analysis for a file, if its content is unchanged
+   */
+  public get(file: string, contentHash: string): FileAnalysis | undefined {
+    const entry = this.entries[file];
+    if (entry && entry.contentHash === contentHash) {
+      this.current[file] = entry;
+      this.hitCount++;
+      return entry.analysis;
+    }
+
+    this.missCount++;
+    return undefined;
+  }
+
+  /**
+   * Store the analysis for a file
+   */
+  public set(file: string, contentHash: string, analysis: FileAnalysis): void {
+    this.current[file] = { contentHash, analysis };
+  }
+
+  /**
+   * Write the entries used or stored during this run
+   */
+  public save(): void {
+    const data: CacheData = {
+      version: CACHE_VERSION,
+      analyzerKey: this.analyzerKey,
+      files: this.current,
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(data));
+  }
+
+  public get hits(): number {
+    return this.hitCount;
+  }
+
+  public get misses(): number {
+    return this.missCount;
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * ApiCompatibilityAnalyzer - Check Obsidian API usage against manifest.json minAppVersion
+ *
+ * Features:
+ * - Resolves every referenced identifier with the TypeScript type checker, so
+ *   `this.app.workspace.getLeaf()` is recognized as `Workspace.getLeaf`
+ * - Looks up the version each API was introduced in from the `@since` index
+ * - Reports APIs newer than the declared minAppVersion and the lowest
+ *   minAppVersion that covers everything the plugin uses
+ * - Inline suppression comments (`api-newer-than-min-app-version`)
+ * - Warns when the typings are older than the index, and lists APIs the typings
+ *   do not declare instead of skipping them
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { CompatibilityIssue, RuleMetadata, UnusedSuppression } from '../types/index';
+import { SuppressionSet } from './SuppressionSet';
+import { getLocation } from './patterns/AstHelpers';
+import { ApiIndex, compareVersions, loadApiIndex, maxVersion } from './compat/ApiIndex';
+
+export interface CompatibilityOptions {
+  /** Plugin directory; `sources` keys are relative to it */
+  rootPath: string;
+  /** Version to check against, usually manifest.json minAppVersion */
+  minAppVersion: string;
+  /** obsidian.d.ts to resolve against (defaults to the plugin's, then the workshop's) */
+  declarationsPath?: string;
+}
+
+export interface CompatibilityReport {
+  minAppVersion: string;
+  /** Lowest minAppVersion covering every indexed API the plugin references */
+  requiredVersion?: string;
+  /** Indexed APIs referenced by the plugin -> version introduced */
+  symbols: Record<string, string>;
+  issues: CompatibilityIssue[];
+  /** Suppression directives consumed by this analyzer */
+  usedSuppressions: UnusedSuppression[];
+  /** APIs referenced on Obsidian types that the typings do not declare; still matched against the index */
+  unresolved: string[];
+  /** Problems with the typings used for resolution */
+  warnings: string[];
+}
+
+const RULE_ID = 'api-newer-than-min-app-version';
+
+export class ApiCompatibilityAnalyzer {
+  public static readonly rules: RuleMetadata[] = [
+    { id: RULE_ID, category: 'compatibility', severity: 'high', description: 'Obsidian API is newer than the manifest minAppVersion' },
+  ];
+
+  private index: ApiIndex;
+
+  constructor(index: ApiIndex = loadApiIndex()) {
+    this.index = index;
+  }
+
+  /**
+   * Read minAppVersion from a plugin's manifest.json
+   */
+  public static readMinAppVersion(pluginPath: string): string | undefined {
+    const manifestPath = path.join(pluginPath, 'manifest.json');
+    if (!fs.existsSync(manifestPath)) {
+      return undefined;
+    }
+
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    return typeof manifest.minAppVersion === 'string' ? manifest.minAppVersion : undefined;
+  }
+
+  /**
+   * Analyze a set of plugin sources (relative path -> content) as one program
+   */
+  public analyzeFiles(sources: Map<string, string>, options: CompatibilityOptions): CompatibilityReport {
+    const declarationsPath = options.declarationsPath || this.resolveDeclarations(options.rootPath);
+    const program = this.createProgram(sources, options.rootPath, declarationsPath);
+    const checker = program.getTypeChecker();
+    const obsidianFile = path.resolve(declarationsPath);
+
+    const report: CompatibilityReport = {
+      minAppVersion: options.minAppVersion,
+      symbols: {},
+      issues: [],
+      usedSuppressions: [],
+      unresolved: [],
+      warnings: this.checkTypingsVersion(declarationsPath),
+    };
+    const unresolved = new Set<string>();
+
+    sources.forEach((_content, relativePath) => {
+      const sourceFile = program.getSourceFile(path.resolve(options.rootPath, relativePath));
+      if (!sourceFile) {
+        return;
+      }
+
+      const suppressions = SuppressionSet.fromSourceFile(sourceFile);
+      const reported = new Set<string>();
+
+      this.visitRuntimeIdentifiers(sourceFile, identifier => {
+        let symbol = this.resolveApiName(identifier, checker, obsidianFile);
+        if (!symbol) {
+          symbol = this.resolveMissingApiName(identifier, checker, obsidianFile);
+          if (symbol) {
+            unresolved.add(symbol);
+          }
+        }
+        const since = symbol ? this.index.symbols[symbol] : undefined;
+        if (!symbol || !since) {
+          return;
+        }
+
+        report.symbols[symbol] = since;
+        report.requiredVersion = maxVersion(report.requiredVersion, since);
+
+        const location = getLocation(identifier, sourceFile, relativePath);
+        const key = `${symbol}:${location.line}`;
+        if (
+          compareVersions(since, options.minAppVersion) <= 0 ||
+          reported.has(key) ||
+          suppressions.isSuppressed(RULE_ID, location.line)
+        ) {
+          return;
+        }
+
+        reported.add(key);
+        report.issues.push({
+          rule: RULE_ID,
+          symbol,
+          since,
+          minAppVersion: options.minAppVersion,
+          description: `${symbol} requires Obsidian ${since} but minAppVersion is ${options.minAppVersion}`,
+          severity: 'high',
+          location,
+          suggestion: `Raise minAppVersion to ${since} or guard the call for older app versions`,
+        });
+      });
+
+      report.usedSuppressions.push(...suppressions.getUsed(relativePath));
+    });
+
+    report.symbols = Object.fromEntries(Object.entries(report.symbols).sort(([a], [b]) => a.localeCompare(b)));
+    report.unresolved = Array.from(unresolved).sort();
+    return report;
+  }
+
+  /**
+   * Warn when the typings predate the index: the APIs added since are missing from them
+   */
+  private checkTypingsVersion(declarationsPath: string): string[] {
+    const packagePath = path.join(path.dirname(declarationsPath), 'package.json');
+    if (!fs.existsSync(packagePath)) {
+      return [];
+    }
+
+    const { name, version } = JSON.parse(fs.readFileSync(packagePath, 'utf8'));
+    const indexVersion = this.index.source.split('@').pop() || '';
+    if (name !== 'obsidian' || typeof version !== 'string' || compareVersions(version, indexVersion) >= 0) {
+      return [];
+    }
+
+    return [
+      `Resolving against obsidian@${version} typings, older than the API index (${this.index.source}); ` +
+      'install newer typings so APIs added since are resolved',
+    ];
+  }
+
+  /**
+   * Find obsidian.d.ts in the plugin's dependencies, falling back to the workshop's own
+   */
+  private resolveDeclarations(rootPath: string): string {
+    try {
+      return require.resolve('obsidian/obsidian.d.ts', { paths: [path.resolve(rootPath)] });
+    } catch {
+      return require.resolve('obsidian/obsidian.d.ts');
+    }
+  }
+
+  /**
+   * Build a program over the given sources with `obsidian` mapped to the declarations
+   */
+  private createProgram(sources: Map<string, string>, rootPath: string, declarationsPath: string): ts.Program {
+    const options: ts.CompilerOptions = {
+      allowJs: true,
+      noEmit: true,
+      skipLibCheck: true,
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      moduleResolution: ts.ModuleResolutionKind.Node10,
+      lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+      types: [],
+      baseUrl: path.resolve(rootPath),
+      paths: { obsidian: [path.resolve(declarationsPath)] },
+    };
+
+    // Sources are served from memory so unsaved or test content can be checked
+    const files = new Map<string, string>();
+    sources.forEach((content, relativePath) => files.set(path.resolve(rootPath, relativePath), content));
+
+    const host = ts.createCompilerHost(options, true);
+    const getSourceFile = host.getSourceFile;
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+      const content = files.get(path.resolve(fileName));
+      return content !== undefined
+        ? ts.createSourceFile(fileName, content, languageVersion, true)
+        : getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+    };
+    const fileExists = host.fileExists;
+    host.fileExists = fileName => files.has(path.resolve(fileName)) || fileExists.call(host, fileName);
+    const readFile = host.readFile;
+    host.readFile = fileName => files.get(path.resolve(fileName)) ?? readFile.call(host, fileName);
+
+    return ts.createProgram([...files.keys()], options, host);
+  }
+
+  /**
+   * Visit identifiers that exist at runtime; type annotations are erased and
+   * cannot break on older app versions
+   */
+  private visitRuntimeIdentifiers(sourceFile: ts.SourceFile, visit: (identifier: ts.Identifier) => void): void {
+    const walkNode = (node: ts.Node) => {
+      if (ts.isImportDeclaration(node) && node.importClause?.isTypeOnly) {
+        return;
+      }
+      // `extends ItemView` is a runtime reference; its type arguments are not
+      if (ts.isExpressionWithTypeArguments(node)) {
+        walkNode(node.expression);
+        return;
+      }
+      if (ts.isTypeNode(node) || ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+        return;
+      }
+      if (ts.isIdentifier(node)) {
+        visit(node);
+      }
+      ts.forEachChild(node, walkNode);
+    };
+
+    walkNode(sourceFile);
+  }
+
+  /**
+   * Qualified index name of the Obsidian declaration an identifier refers to
+   */
+  private resolveApiName(identifier: ts.Identifier, checker: ts.TypeChecker, obsidianFile: string): string | undefined {
+    let symbol = checker.getSymbolAtLocation(identifier);
+    if (!symbol) {
+      return undefined;
+    }
+
+    const isImport = (symbol.flags & ts.SymbolFlags.Alias) !== 0;
+    if (isImport) {
+      // Named imports are reported where they are imported, not at every use
+      const importDeclaration = symbol.declarations?.[0];
+      if (!importDeclaration || importDeclaration.getSourceFile().fileName !== identifier.getSourceFile().fileName) {
+        return undefined;
+      }
+      if (ts.isImportSpecifier(importDeclaration) && importDeclaration.name !== identifier && importDeclaration.propertyName !== identifier) {
+        return undefined;
+      }
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+
+    // Interfaces and type aliases are erased at runtime
+    if ((symbol.flags & ts.SymbolFlags.Value) === 0) {
+      return undefined;
+    }
+
+    const declaration = symbol.declarations?.find(candidate =>
+      path.resolve(candidate.getSourceFile().fileName) === obsidianFile
+    );
+    if (!declaration) {
+      return undefined;
+    }
+
+    const name = symbol.getName();
+    const parent = declaration.parent;
+    if (parent && (ts.isClassDeclaration(parent) || ts.isInterfaceDeclaration(parent)) && parent.name) {
+      return `${parent.name.text}.${name}`;
+    }
+
+    return name;
+  }
+
+  /**
+   * Qualified name of an Obsidian API the typings do not declare: a name imported from
+   * `obsidian`, or a member accessed on an Obsidian type
+   */
+  private resolveMissingApiName(identifier: ts.Identifier, checker: ts.TypeChecker, obsidianFile: string): string | undefined {
+    const parent = identifier.parent;
+
+    if (ts.isImportSpecifier(parent) && this.isObsidianImport(parent)) {
+      const imported = parent.propertyName || parent.name;
+      const symbol = checker.getSymbolAtLocation(parent.name);
+      const target = symbol && (symbol.flags & ts.SymbolFlags.Alias) !== 0 ? checker.getAliasedSymbol(symbol) : undefined;
+      return identifier === imported && !target?.declarations?.length ? imported.text : undefined;
+    }
+
+    if (!ts.isPropertyAccessExpression(parent) || parent.name !== identifier || checker.getSymbolAtLocation(identifier)) {
+      return undefined;
+    }
+
+    const receiver = checker.getTypeAtLocation(parent.expression).getSymbol();
+    const declaredInObsidian = receiver?.declarations?.some(candidate =>
+      path.resolve(candidate.getSourceFile().fileName) === obsidianFile
+    );
+    return receiver && declaredInObsidian ? `${receiver.getName()}.${identifier.text}` : undefined;
+  }
+
+  private isObsidianImport(specifier: ts.ImportSpecifier): boolean {
+    const moduleSpecifier = specifier.parent.parent.parent.moduleSpecifier;
+    return ts.isStringLiteral(moduleSpecifier) && moduleSpecifier.text === 'obsidian';
+  }
+}
@@ -6,36 +6,72 @@
  * - Pattern categorization
  * - Issue detection
  * - Performance impact assessment
+ * - Inline suppression comments (rule ids are listed on each issue)
  */
 
-import { EventPatternResult } from '../types/index';
+import { EventPatternResult, RuleMetadata } from '../types/index';
+import { SuppressionSet } from './SuppressionSet';
+
+type EventIssue = EventPatternResult['issues'][number];
 
 export class EventPatternAnalyzer {
+  /**
+   * Rule ids reported on event handler issues, used for suppressions and reports
+   */
+  public static readonly rules: RuleMetadata[] = [
+    { id: 'listener-without-removal', category: 'memory-leak', severity: 'high', description: 'Event listener added without corresponding removal' },
+    { id: 'interval-without-clear', category: 'memory-leak', severity: 'high', description: 'setInterval used without clearInterval' },
+    { id: 'timeout-without-clear', category: 'memory-leak', severity: 'medium', description: 'setTimeout used without proper cleanup' },
+    { id: 'repeated-dom-query', category: 'performance', severity: 'medium', description: 'Multiple DOM queries in one handler' },
+    { id: 'dom-update-in-loop', category: 'performance', severity: 'medium', description: 'DOM manipulation inside a loop' },
+    { id: 'missing-prevent-default', category: 'best-practice', severity: 'low', description: 'Handler never calls preventDefault() or stopPropagation()' },
+    { id: 'try-without-catch', category: 'best-practice', severity: 'medium', description: 'Try block without catch' },
+  ];
+
+  /**
+   * Bump when detection logic changes so cached results are discarded
+   */
+  public static readonly version = 2;
+
   private eventPatterns: Map<string, EventPatternResult> = new Map();
   private performanceData: Map<string, number[]> = new Map();
 
   /**
    * Analyze event patterns in source code
    */
-  public analyzeCode(code: string, filePath: string): EventPatternResult[] {
+  public analyzeCode(
+    code: string,
+    filePath: string,
+    suppressions?: SuppressionSet
+  ): EventPatternResult[] {
     const results: EventPatternResult[] = [];
     const lines = code.split('\n');
+    const activeSuppressions = suppressions || SuppressionSet.parse(code, filePath);
 
     // Find all event handlers
     const eventHandlers = this.findEventHandlers(lines, filePath);
     
     // Analyze each handler
     eventHandlers.forEach(handler => {
-      const analysis = this.analyzeEventHandler(handler, lines, filePath);
+      const analysis = this.analyzeEventHandler(handler, lines, filePath, activeSuppressions);
       if (analysis) {
         results.push(analysis);
-        this.eventPatterns.set(`${filePath}:${handler.name}`, analysis);
       }
     });
 
+    this.recordResults(filePath, results);
     return results;
   }
 
+  /**
+   * Include previously computed results (e.g. from a cache) in the performance summary
+   */
+  public recordResults(filePath: string, results: EventPatternResult[]): void {
+    results.forEach(result => {
+      this.eventPatterns.set(`${filePath}:${result.handler}`, result);
+    });
+  }
+
   /**
    * Find event handlers in code
    */
@@ -43,12 +79,14 @@ export class EventPatternAnalyzer {
     name: string;
     type: string;
     line: number;
+    column: number;
     pattern: string;
   }> {
     const handlers: Array<{
       name: string;
       type: string;
       line: number;
+      column: number;
       pattern: string;
     }> = [];
 
@@ -81,6 +119,7 @@ export class EventPatternAnalyzer {
             name: match[2] || match[1],
             type: match[1] || type,
             line: index + 1,
+            column: match.index + 1,
             pattern: type,
           });
         }
@@ -94,9 +133,10 @@ export class EventPatternAnalyzer {
    * Analyze an individual event handler
    */
   private analyzeEventHandler(
-    handler: { name: string; type: string; line: number; pattern: string },
+    handler: { name: string; type: string; line: number; column: number; pattern: string },
     lines: string[],
-    filePath: string
+    filePath: string,
+    suppressions: SuppressionSet
   ): EventPatternResult | null {
     // Find the handler function
     const handlerFunction = this.findHandlerFunction(handler.name, lines);
@@ -104,13 +144,23 @@ export class EventPatternAnalyzer {
       return null;
     }
 
-    // Analyze the handler
-    const issues = this.detectIssues(handlerFunction, lines);
+    // Analyze the handler, honoring suppressions at the registration or the definition.
+    // Check both so each matching directive is marked as used.
+    const issues = this.detectIssues(handlerFunction, lines).filter(issue => {
+      const atRegistration = suppressions.isSuppressed(issue.rule, handler.line);
+      const atDefinition = suppressions.isSuppressed(issue.rule, handlerFunction.start + 1);
+      return !atRegistration && !atDefinition;
+    });
     const performance = this.analyzePerformance(handlerFunction, lines);
 
     return {
       eventType: handler.type,
       handler: handler.name,
+      location: {
+        file: filePath,
+        line: handler.line,
+        column: handler.column,
+      },
       frequency: this.calculateFrequency(handler.name, lines),
       performance,
       issues,
@@ -183,22 +233,15 @@ export class EventPatternAnalyzer {
   private detectIssues(
     handlerFunction: { start: number; end: number; body: string[] },
     lines: string[]
-  ): Array<{
-    type: 'memory-leak' | 'performance' | 'best-practice';
-    description: string;
-    severity: 'low' | 'medium' | 'high';
-  }> {
-    const issues: Array<{
-      type: 'memory-leak' | 'performance' | 'best-practice';
-      description: string;
-      severity: 'low' | 'medium' | 'high';
-    }> = [];
+  ): EventIssue[] {
+    const issues: EventIssue[] = [];
 
     const body = handlerFunction.body.join('\n');
 
     // Check for memory leaks
     if (body.includes('addEventListener') && !body.includes('removeEventListener')) {
       issues.push({
+        rule: 'listener-without-removal',
         type: 'memory-leak',
         description: 'Event listener added without corresponding removal',
         severity: 'high',
@@ -207,6 +250,7 @@ export class EventPatternAnalyzer {
 
     if (body.includes('setInterval') && !body.includes('clearInterval')) {
       issues.push({
+        rule: 'interval-without-clear',
         type: 'memory-leak',
         description: 'setInterval used without clearInterval',
         severity: 'high',
@@ -215,6 +259,7 @@ export class EventPatternAnalyzer {
 
     if (body.includes('setTimeout') && !body.includes('clearTimeout')) {
       issues.push({
+        rule: 'timeout-without-clear',
         type: 'memory-leak',
         description: 'setTimeout used without proper cleanup',
         severity: 'medium',
@@ -226,6 +271,7 @@ export class EventPatternAnalyzer {
       const queryCount = (body.match(/document\.querySelector/g) || []).length;
       if (queryCount > 3) {
         issues.push({
+          rule: 'repeated-dom-query',
           type: 'performance',
           description: 'Multiple DOM queries detected - consider caching selectors',
           severity: 'medium',
@@ -235,6 +281,7 @@ export class EventPatternAnalyzer {
 
     if (body.includes('for') && body.includes('appendChild')) {
       issues.push({
+        rule: 'dom-update-in-loop',
         type: 'performance',
         description: 'DOM manipulation in loop detected - consider using DocumentFragment',
         severity: 'medium',
@@ -244,6 +291,7 @@ export class EventPatternAnalyzer {
     // Check for best practices
     if (!body.includes('preventDefault') && !body.includes('stopPropagation')) {
       issues.push({
+        rule: 'missing-prevent-default',
         type: 'best-practice',
         description: 'Consider using preventDefault() or stopPropagation() if needed',
         severity: 'low',
@@ -252,6 +300,7 @@ export class EventPatternAnalyzer {
 
     if (body.includes('try') && !body.includes('catch')) {
       issues.push({
+        rule: 'try-without-catch',
         type: 'best-practice',
         description: 'Try block without catch - consider error handling',
         severity: 'medium',
@@ -0,0 +1,483 @@
+/**
+ * LifecycleAnalyzer - Verify that resources acquired on load are released
+ *
+ * Features:
+ * - Class-level pairing of onload/onOpen with onunload/onClose
+ * - Tracks DOM listeners, intervals, observers, workspace/vault event refs
+ *   and CodeMirror views/extensions
+ * - Accepts resources handed to registerDomEvent/registerEvent/registerInterval/
+ *   registerEditorExtension/register(), directly or through their stored handle,
+ *   or released explicitly
+ * - Follows `this.helper()` calls made from lifecycle methods
+ * - Inline suppression comments (rule ids are listed on each issue)
+ */
+
+import * as ts from 'typescript';
+import { LifecycleIssue, RuleMetadata } from '../types/index';
+import { SuppressionSet } from './SuppressionSet';
+import {
+  getCalleeName,
+  getDeclarationName,
+  getExpressionPath,
+  getLocation,
+  getReceiverPath,
+  isCallTo,
+  isMemberCall,
+  parseSource,
+  skipParentheses,
+  walk,
+} from './patterns/AstHelpers';
+
+type ResourceKind = LifecycleIssue['resource'];
+
+interface Acquisition {
+  kind: ResourceKind;
+  node: ts.Node;
+  method: string;
+  root: string;
+  /** Object the resource is attached to, e.g. `this.containerEl` for a DOM listener */
+  receiver?: string;
+  /** Event type for listeners and event refs */
+  eventType?: string;
+  /** Where the resource handle is stored, e.g. `this.timer` */
+  storedAs?: string;
+}
+
+interface Release {
+  kind: ResourceKind;
+  target?: string;
+  eventType?: string;
+}
+
+/** Acquire -> release method pairs */
+const LIFECYCLE_PAIRS: Record<string, string> = {
+  onload: 'onunload',
+  onOpen: 'onClose',
+};
+
+const REGISTER_CALLS = ['registerDomEvent', 'registerEvent', 'registerInterval', 'registerEditorExtension', 'register'];
+const OBSERVERS = ['MutationObserver', 'ResizeObserver', 'IntersectionObserver'];
+const EVENT_SOURCE = /(^|\.)(vault|metadataCache|workspace)$/;
+
+const RULE_IDS: Record<ResourceKind, string> = {
+  'dom-listener': 'unreleased-dom-listener',
+  'interval': 'unreleased-interval',
+  'observer': 'unreleased-observer',
+  'event-ref': 'unreleased-event-ref',
+  'editor-extension': 'unreleased-editor-extension',
+};
+
+export class LifecycleAnalyzer {
+  /**
+   * Rule ids reported for unreleased resources, used for suppressions and reports
+   */
+  public static readonly rules: RuleMetadata[] = [
+    { id: 'unreleased-dom-listener', category: 'lifecycle', severity: 'high', description: 'DOM listener added on load is never removed' },
+    { id: 'unreleased-interval', category: 'lifecycle', severity: 'high', description: 'Interval started on load is never cleared' },
+    { id: 'unreleased-observer', category: 'lifecycle', severity: 'high', description: 'Observer created on load is never disconnected' },
+    { id: 'unreleased-event-ref', category: 'lifecycle', severity: 'high', description: 'Workspace or vault event ref is never unregistered' },
+    { id: 'unreleased-editor-extension', category: 'lifecycle', severity: 'medium', description: 'CodeMirror view or extension added on load is never removed' },
+  ];
+
+  /**
+   * Bump when detection logic changes so cached results are discarded
+   */
+  public static readonly version = 2;
+
+  /**
+   * Analyze every class with an onload/onOpen method
+   */
+  public analyzeCode(code: string, filePath: string, suppressions?: SuppressionSet): LifecycleIssue[] {
+    const sourceFile = parseSource(code, filePath);
+    const activeSuppressions = suppressions || SuppressionSet.fromSourceFile(sourceFile);
+    const issues: LifecycleIssue[] = [];
+
+    walk(sourceFile, node => {
+      if (ts.isClassLike(node)) {
+        issues.push(...this.analyzeClass(node, sourceFile, filePath, activeSuppressions));
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Pair acquisitions and releases within one class
+   */
+  private analyzeClass(
+    classNode: ts.ClassLikeDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    suppressions: SuppressionSet
+  ): LifecycleIssue[] {
+    const methods = this.getMethodBodies(classNode);
+    const roots = Object.keys(LIFECYCLE_PAIRS).filter(name => methods.has(name));
+    if (roots.length === 0) {
+      return [];
+    }
+
+    const acquisitions: Acquisition[] = [];
+    roots.forEach(root => {
+      this.reachableMethods(root, methods).forEach(method => {
+        walk(methods.get(method)!, node => {
+          const acquisition = this.toAcquisition(node, method, root);
+          if (acquisition && !this.isRegistered(node)) {
+            acquisitions.push(acquisition);
+          }
+        });
+      });
+    });
+
+    // Releases: release methods (and their helpers) plus every register(() => ...) callback
+    const releases: Release[] = [];
+    const collectReleases = (body: ts.Node) => walk(body, node => {
+      const release = this.toRelease(node);
+      if (release) {
+        releases.push(release);
+      }
+    });
+    Object.values(LIFECYCLE_PAIRS)
+      .filter(name => methods.has(name))
+      .forEach(name => this.reachableMethods(name, methods).forEach(method => collectReleases(methods.get(method)!)));
+    walk(classNode, node => {
+      if (isCallTo(node, ['register'])) {
+        node.arguments.forEach(collectReleases);
+      }
+    });
+
+    const registeredHandles = this.getRegisteredHandles(classNode);
+
+    const className = classNode.name?.text || '(anonymous class)';
+    return acquisitions
+      .filter(acquisition => acquisition.storedAs === undefined || !registeredHandles.has(acquisition.storedAs))
+      .filter(acquisition => !releases.some(release => this.releases(release, acquisition)))
+      .map(acquisition => this.createIssue(acquisition, className, sourceFile, filePath))
+      .filter(issue => !suppressions.isSuppressed(issue.rule, issue.location.line));
+  }
+
+  /**
+   * Map method names to their bodies (methods and arrow-function properties)
+   */
+  private getMethodBodies(classNode: ts.ClassLikeDeclaration): Map<string, ts.Node> {
+    const methods = new Map<string, ts.Node>();
+
+    classNode.members.forEach(member => {
+      const name = getDeclarationName(member);
+      if (!name) {
+        return;
+      }
+      if (ts.isMethodDeclaration(member) && member.body) {
+        methods.set(name, member.body);
+      } else if (
+        ts.isPropertyDeclaration(member) &&
+        member.initializer &&
+        (ts.isArrowFunction(member.initializer) || ts.isFunctionExpression(member.initializer))
+      ) {
+        methods.set(name, member.initializer.body);
+      }
+    });
+
+    return methods;
+  }
+
+  /**
+   * The method itself plus every method it reaches through `this.name(...)` calls
+   */
+  private reachableMethods(start: string, methods: Map<string, ts.Node>): string[] {
+    const visited = new Set<string>();
+    const queue = [start];
+
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      if (visited.has(name) || !methods.has(name)) {
+        continue;
+      }
+      visited.add(name);
+
+      walk(methods.get(name)!, node => {
+        if (ts.isCallExpression(node) && getReceiverPath(node) === 'this') {
+          const callee = getCalleeName(node);
+          if (callee && methods.has(callee) && !(callee in LIFECYCLE_PAIRS)) {
+            queue.push(callee);
+          }
+        }
+      });
+    }
+
+    return Array.from(visited);
+  }
+
+  /**
+   * Recognize a node that acquires a resource
+   */
+  private toAcquisition(node: ts.Node, method: string, root: string): Acquisition | null {
+    if (isCallTo(node, ['addEventListener'])) {
+      return {
+        kind: 'dom-listener',
+        node,
+        method,
+        root,
+        receiver: getReceiverPath(node) ?? (ts.isIdentifier(skipParentheses(node.expression)) ? 'window' : undefined),
+        eventType: this.getStringArgument(node, 0),
+      };
+    }
+
+    if (isCallTo(node, ['setInterval'])) {
+      return { kind: 'interval', node, method, root, storedAs: this.getStoredPath(node) };
+    }
+
+    if (ts.isNewExpression(node) && ts.isIdentifier(node.expression)) {
+      if (OBSERVERS.includes(node.expression.text)) {
+        return { kind: 'observer', node, method, root, storedAs: this.getStoredPath(node) };
+      }
+      if (node.expression.text === 'EditorView') {
+        return { kind: 'editor-extension', node, method, root, storedAs: this.getStoredPath(node) };
+      }
+    }
+
+    if (isMemberCall(node, ['on']) && EVENT_SOURCE.test(getReceiverPath(node) || '')) {
+      return {
+        kind: 'event-ref',
+        node,
+        method,
+        root,
+        receiver: getReceiverPath(node),
+        eventType: this.getStringArgument(node, 0),
+        storedAs: this.getStoredPath(node),
+      };
+    }
+
+    // view.dispatch({ effects: StateEffect.appendConfig.of(extension) })
+    if (isMemberCall(node, ['of']) && /(^|\.)StateEffect\.appendConfig$/.test(getReceiverPath(node) || '')) {
+      return { kind: 'editor-extension', node, method, root };
+    }
+
+    return null;
+  }
+
+  /**
+   * Recognize a node that releases a resource
+   */
+  private toRelease(node: ts.Node): Release | null {
+    if (isCallTo(node, ['removeEventListener'])) {
+      return {
+        kind: 'dom-listener',
+        target: getReceiverPath(node) ?? (ts.isIdentifier(skipParentheses(node.expression)) ? 'window' : undefined),
+        eventType: this.getStringArgument(node, 0),
+      };
+    }
+
+    if (isCallTo(node, ['clearInterval']) && node.arguments.length > 0) {
+      return { kind: 'interval', target: getExpressionPath(node.arguments[0]) };
+    }
+
+    if (isMemberCall(node, ['disconnect'])) {
+      return { kind: 'observer', target: getReceiverPath(node) };
+    }
+
+    if (isMemberCall(node, ['offref']) && node.arguments.length > 0) {
+      return { kind: 'event-ref', target: getExpressionPath(node.arguments[0]) };
+    }
+
+    if (isMemberCall(node, ['off'])) {
+      return { kind: 'event-ref', target: getReceiverPath(node), eventType: this.getStringArgument(node, 0) };
+    }
+
+    if (isMemberCall(node, ['destroy'])) {
+      return { kind: 'editor-extension', target: getReceiverPath(node) };
+    }
+
+    // Compartment.reconfigure / StateEffect.reconfigure undo appended configuration
+    if (isMemberCall(node, ['reconfigure'])) {
+      return { kind: 'editor-extension' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether a release undoes an acquisition
+   */
+  private releases(release: Release, acquisition: Acquisition): boolean {
+    if (release.kind !== acquisition.kind) {
+      return false;
+    }
+
+    switch (acquisition.kind) {
+      case 'dom-listener':
+        return this.sameIfKnown(release.target, acquisition.receiver) &&
+          this.sameIfKnown(release.eventType, acquisition.eventType);
+
+      case 'event-ref':
+        // offref(ref) needs the stored ref; off('type') needs the same source and type
+        return release.eventType === undefined
+          ? acquisition.storedAs !== undefined && release.target === acquisition.storedAs
+          : release.target === acquisition.receiver && release.eventType === acquisition.eventType;
+
+      case 'editor-extension':
+        // An appended extension has no handle; any reconfigure counts
+        return acquisition.storedAs === undefined
+          ? ts.isCallExpression(acquisition.node) && release.target === undefined
+          : release.target === acquisition.storedAs;
+
+      default:
+        return acquisition.storedAs !== undefined && release.target === acquisition.storedAs;
+    }
+  }
+
+  /**
+   * Compare two optional values, treating an unknown side as a match
+   */
+  private sameIfKnown(a: string | undefined, b: string | undefined): boolean {
+    return a === undefined || b === undefined || a === b;
+  }
+
+  /**
+   * Check whether a node is an argument of a register*() call
+   */
+  private isRegistered(node: ts.Node): boolean {
+    let current: ts.Node = node;
+
+    while (current.parent && !ts.isClassLike(current.parent)) {
+      const parent = current.parent;
+      if (ts.isCallExpression(parent) && parent.arguments.includes(current as ts.Expression) &&
+        REGISTER_CALLS.includes(getCalleeName(parent) || '')) {
+        return true;
+      }
+      current = parent;
+    }
+
+    return false;
+  }
+
+  /**
+   * Collect handles passed to register*() calls after being stored, e.g.
+   * `this.registerEvent(ref)` or any handle referenced in a `register(() => ...)` callback
+   */
+  private getRegisteredHandles(classNode: ts.ClassLikeDeclaration): Set<string> {
+    const handles = new Set<string>();
+    const addPath = (node: ts.Node) => {
+      const handle = ts.isIdentifier(node) || ts.isPropertyAccessExpression(node) ? getExpressionPath(node) : undefined;
+      if (handle !== undefined) {
+        handles.add(handle);
+      }
+    };
+
+    walk(classNode, node => {
+      if (!ts.isCallExpression(node)) {
+        return;
+      }
+      const callee = getCalleeName(node) || '';
+      if (callee === 'register') {
+        node.arguments.forEach(argument => walk(argument, addPath));
+      } else if (REGISTER_CALLS.includes(callee)) {
+        node.arguments.forEach(addPath);
+      }
+    });
+
+    return handles;
+  }
+
+  /**
+   * Get the variable or property a resource handle is assigned to
+   */
+  private getStoredPath(node: ts.Node): string | undefined {
+    let current = node;
+    while (
+      current.parent &&
+      (ts.isParenthesizedExpression(current.parent) ||
+        ts.isAsExpression(current.parent) ||
+        ts.isNonNullExpression(current.parent) ||
+        ts.isAwaitExpression(current.parent))
+    ) {
+      current = current.parent;
+    }
+
+    const parent = current.parent;
+    if (ts.isVariableDeclaration(parent) && parent.initializer === current && ts.isIdentifier(parent.name)) {
+      return parent.name.text;
+    }
+    if (ts.isBinaryExpression(parent) && parent.right === current &&
+      parent.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      return getExpressionPath(parent.left);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get a string literal argument, if present
+   */
+  private getStringArgument(call: ts.CallExpression, index: number): string | undefined {
+    const argument = call.arguments[index];
+    return argument && ts.isStringLiteralLike(argument) ? argument.text : undefined;
+  }
+
+  /**
+   * Build the issue reported for an unreleased resource
+   */
+  private createIssue(
+    acquisition: Acquisition,
+    className: string,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): LifecycleIssue {
+    const rule = RULE_IDS[acquisition.kind];
+    const metadata = LifecycleAnalyzer.rules.find(r => r.id === rule)!;
+    const releaseMethod = LIFECYCLE_PAIRS[acquisition.root];
+    const where = acquisition.method === acquisition.root
+      ? acquisition.root
+      : `${acquisition.method} (called from ${acquisition.root})`;
+
+    return {
+      rule,
+      resource: acquisition.kind,
+      className,
+      method: acquisition.method,
+      releaseMethod,
+      description: `${this.describe(acquisition)} in ${className}.${where} is not released in ${releaseMethod}`,
+      severity: metadata.severity,
+      location: getLocation(acquisition.node, sourceFile, filePath),
+      suggestion: this.suggest(acquisition, releaseMethod),
+    };
+  }
+
+  /**
+   * Short description of the acquired resource
+   */
+  private describe(acquisition: Acquisition): string {
+    const type = acquisition.eventType ? ` '${acquisition.eventType}'` : '';
+    switch (acquisition.kind) {
+      case 'dom-listener':
+        return `DOM listener${type} on ${acquisition.receiver || 'element'}`;
+      case 'interval':
+        return 'setInterval';
+      case 'observer':
+        return (acquisition.node as ts.NewExpression).expression.getText();
+      case 'event-ref':
+        return `${acquisition.receiver}.on${type} event ref`;
+      case 'editor-extension':
+        return ts.isNewExpression(acquisition.node) ? 'EditorView' : 'Appended CodeMirror extension';
+    }
+  }
+
+  /**
+   * Suggest the idiomatic fix for each resource kind
+   */
+  private suggest(acquisition: Acquisition, releaseMethod: string): string {
+    switch (acquisition.kind) {
+      case 'dom-listener':
+        return `Use this.registerDomEvent(...) or call removeEventListener in ${releaseMethod}`;
+      case 'interval':
+        return `Wrap it in this.registerInterval(window.setInterval(...)) or clearInterval it in ${releaseMethod}`;
+      case 'observer':
+        return `Keep a reference and call disconnect() in ${releaseMethod} or this.register(() => observer.disconnect())`;
+      case 'event-ref':
+        return `Wrap it in this.registerEvent(...) or call offref(ref) in ${releaseMethod}`;
+      case 'editor-extension':
+        return ts.isNewExpression(acquisition.node)
+          ? `Keep a reference and call destroy() in ${releaseMethod}`
+          : 'Use this.registerEditorExtension(...) so Obsidian removes the extension on unload';
+    }
+  }
+}
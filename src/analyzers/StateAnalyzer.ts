@@ -6,11 +6,27 @@
  * - Access pattern tracking
  * - Performance metrics
  * - Automated optimization suggestions
+ * - Inline suppression comments (rules: state-global, state-local, state-component)
  */
 
-import { StateAnalysisResult, AnalyzerConfig } from '../types/index';
+import { StateAnalysisResult, AnalyzerConfig, RuleMetadata } from '../types/index';
+import { SuppressionSet } from './SuppressionSet';
 
 export class StateAnalyzer {
+  /**
+   * Rule ids reported for state accesses, used for suppressions and reports
+   */
+  public static readonly rules: RuleMetadata[] = [
+    { id: 'state-global', category: 'state', severity: 'low', description: 'Access to global state (window, global, app)' },
+    { id: 'state-local', category: 'state', severity: 'low', description: 'Local variable declaration and access' },
+    { id: 'state-component', category: 'state', severity: 'low', description: 'Component property access through this' },
+  ];
+
+  /**
+   * Bump when detection logic changes so cached results are discarded
+   */
+  public static readonly version = 1;
+
   private stateAccesses: Map<string, StateAnalysisResult> = new Map();
   private readonly config: AnalyzerConfig['stateAnalysis'];
 
@@ -21,36 +37,52 @@ export class StateAnalyzer {
   /**
    * Analyze state usage in source code
    */
-  public analyzeCode(code: string, filePath: string): StateAnalysisResult[] {
+  public analyzeCode(
+    code: string,
+    filePath: string,
+    suppressions?: SuppressionSet
+  ): StateAnalysisResult[] {
     if (!this.config.enabled) {
       return [];
     }
 
     const results: StateAnalysisResult[] = [];
     const lines = code.split('\n');
+    const activeSuppressions = suppressions || SuppressionSet.parse(code, filePath);
 
     // Analyze global state if enabled
     if (this.config.trackGlobalState) {
-      results.push(...this.analyzeGlobalState(lines, filePath));
+      results.push(...this.analyzeGlobalState(lines, filePath, activeSuppressions));
     }
 
     // Analyze local state if enabled
     if (this.config.trackLocalState) {
-      results.push(...this.analyzeLocalState(lines, filePath));
+      results.push(...this.analyzeLocalState(lines, filePath, activeSuppressions));
     }
 
     // Update internal tracking
+    this.recordResults(filePath, results);
+
+    return results;
+  }
+
+  /**
+   * Include previously computed results (e.g. from a cache) in the aggregate metrics
+   */
+  public recordResults(filePath: string, results: StateAnalysisResult[]): void {
     results.forEach(result => {
       this.stateAccesses.set(`${filePath}:${result.variable}`, result);
     });
-
-    return results;
   }
 
   /**
    * Analyze global state patterns
    */
-  private analyzeGlobalState(lines: string[], filePath: string): StateAnalysisResult[] {
+  private analyzeGlobalState(
+    lines: string[],
+    filePath: string,
+    suppressions: SuppressionSet
+  ): StateAnalysisResult[] {
     const results: StateAnalysisResult[] = [];
     const globalPatterns = [
       /window\.\w+/g,
@@ -70,6 +102,10 @@ export class StateAnalyzer {
         const matches = line.match(pattern);
         if (matches) {
           matches.forEach(match => {
+            if (suppressions.isSuppressed('state-global', index + 1)) {
+              return;
+            }
+
             const variable = match.split('.')[1];
             if (!stateVariables.has(variable)) {
               stateVariables.set(variable, {
@@ -118,7 +154,11 @@ export class StateAnalyzer {
   /**
    * Analyze local state patterns
    */
-  private analyzeLocalState(lines: string[], filePath: string): StateAnalysisResult[] {
+  private analyzeLocalState(
+    lines: string[],
+    filePath: string,
+    suppressions: SuppressionSet
+  ): StateAnalysisResult[] {
     const results: StateAnalysisResult[] = [];
     const localPatterns = [
       /this\.\w+/g,
@@ -149,6 +189,11 @@ export class StateAnalyzer {
               variable = match.split(/\s+/)[1];
             }
 
+            const ruleId = isThisProperty ? 'state-component' : 'state-local';
+            if (suppressions.isSuppressed(ruleId, index + 1)) {
+              return;
+            }
+
             if (!stateVariables.has(variable)) {
               stateVariables.set(variable, {
                 reads: 0,
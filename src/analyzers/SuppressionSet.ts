@@ -0,0 +1,147 @@
+/**
+ * SuppressionSet - Inline suppression comments for analyzer findings
+ *
+ * Supported directives (any comment style):
+ * - `// workshop-ignore-next-line <rule-id> [rule-id...]` silences findings on the following line
+ * - `/* workshop-disable <rule-id> [rule-id...] *\/` silences findings anywhere in the file
+ *
+ * Omitting the rule ids silences every rule. Text after `--` is treated as a reason.
+ * Each directive records whether it matched a finding so stale ones can be reported.
+ */
+
+import * as ts from 'typescript';
+import { UnusedSuppression } from '../types/index';
+import { parseSource } from './patterns/AstHelpers';
+
+interface SuppressionEntry {
+  ruleId: string;
+  directive: UnusedSuppression['directive'];
+  line: number;
+  targetLine: number | null;
+  used: boolean;
+}
+
+const DIRECTIVE_PATTERN = /^workshop-(ignore-next-line|disable)(?:\s+|$)(.*)$/;
+const ALL_RULES = '*';
+
+export class SuppressionSet {
+  private entries: SuppressionEntry[] = [];
+
+  /**
+   * Collect suppression directives from source code
+   */
+  public static parse(code: string, filePath: string): SuppressionSet {
+    return SuppressionSet.fromSourceFile(parseSource(code, filePath));
+  }
+
+  /**
+   * Collect suppression directives from an already parsed source file
+   */
+  public static fromSourceFile(sourceFile: ts.SourceFile): SuppressionSet {
+    const set = new SuppressionSet();
+    const text = sourceFile.getFullText();
+    const seen = new Set<number>();
+
+    // Comments are trivia attached to the token that follows them, so visit every token
+    const visit = (node: ts.Node) => {
+      if (node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode) {
+        return;
+      }
+
+      for (const range of ts.getLeadingCommentRanges(text, node.pos) || []) {
+        if (!seen.has(range.pos)) {
+          seen.add(range.pos);
+          set.addComment(text.slice(range.pos, range.end), range, sourceFile);
+        }
+      }
+
+      node.getChildren(sourceFile).forEach(visit);
+    };
+
+    visit(sourceFile);
+    return set;
+  }
+
+  /**
+   * Check whether a finding is suppressed, marking matching directives as used
+   */
+  public isSuppressed(ruleId: string, line: number): boolean {
+    let suppressed = false;
+
+    for (const entry of this.entries) {
+      const ruleMatches = entry.ruleId === ruleId || entry.ruleId === ALL_RULES;
+      const lineMatches = entry.targetLine === null || entry.targetLine === line;
+
+      if (ruleMatches && lineMatches) {
+        entry.used = true;
+        suppressed = true;
+      }
+    }
+
+    return suppressed;
+  }
+
+  /**
+   * Get directives that did not match any finding
+   */
+  public getUnused(filePath: string): UnusedSuppression[] {
+    return this.entries
+      .filter(entry => !entry.used)
+      .map(entry => ({
+        file: filePath,
+        line: entry.line,
+        rule: entry.ruleId,
+        directive: entry.directive,
+      }));
+  }
+
+  /**
+   * Get directives that matched at least one finding
+   */
+  public getUsed(filePath: string): UnusedSuppression[] {
+    return this.entries
+      .filter(entry => entry.used)
+      .map(entry => ({
+        file: filePath,
+        line: entry.line,
+        rule: entry.ruleId,
+        directive: entry.directive,
+      }));
+  }
+
+  /**
+   * Number of directives found
+   */
+  public get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Parse a single comment and record any directive it contains
+   */
+  private addComment(comment: string, range: ts.CommentRange, sourceFile: ts.SourceFile): void {
+    const body = range.kind === ts.SyntaxKind.SingleLineCommentTrivia
+      ? comment.slice(2)
+      : comment.slice(2, -2);
+
+    const match = body.trim().match(DIRECTIVE_PATTERN);
+    if (!match) {
+      return;
+    }
+
+    const directive = match[1] as UnusedSuppression['directive'];
+    const ruleIds = match[2].split('--')[0].split(/[\s,]+/).filter(Boolean);
+    const line = sourceFile.getLineAndCharacterOfPosition(range.pos).line + 1;
+    const endLine = sourceFile.getLineAndCharacterOfPosition(range.end).line + 1;
+
+    (ruleIds.length > 0 ? ruleIds : [ALL_RULES]).forEach(ruleId => {
+      this.entries.push({
+        ruleId,
+        directive,
+        line,
+        targetLine: directive === 'ignore-next-line' ? endLine + 1 : null,
+        used: false,
+      });
+    });
+  }
+}
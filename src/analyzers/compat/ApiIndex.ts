@@ -0,0 +1,133 @@
+/**
+ * ApiIndex - Versioned index of Obsidian API symbols
+ *
+ * Features:
+ * - Built from the `@since` tags in obsidian.d.ts
+ * - Keys are qualified names: `requestUrl`, `Workspace.getLeaf`, `HTMLElement.createDiv`
+ * - Members of a tagged class inherit the class version unless tagged themselves
+ * - Numeric version comparison for app versions like `0.15.9` and `1.4.10`
+ */
+
+import * as ts from 'typescript';
+import bundledIndex from './obsidian-api-index.json';
+
+export interface ApiIndex {
+  /** Package the index was generated from, e.g. obsidian@1.13.1 */
+  source: string;
+  /** Qualified symbol name -> first app version providing it */
+  symbols: Record<string, string>;
+}
+
+/**
+ * The index shipped with the workshop (regenerate with `npm run build-api-index`)
+ */
+export function loadApiIndex(): ApiIndex {
+  return bundledIndex as ApiIndex;
+}
+
+/**
+ * Build an index from the content of an obsidian.d.ts file
+ */
+export function buildApiIndex(declarations: string, source: string): ApiIndex {
+  const sourceFile = ts.createSourceFile('obsidian.d.ts', declarations, ts.ScriptTarget.Latest, true);
+  const symbols: Record<string, string> = {};
+
+  const visitStatements = (statements: ts.NodeArray<ts.Statement>) => {
+    statements.forEach(statement => {
+      // declare global { ... } augments built-in types such as HTMLElement
+      if (ts.isModuleDeclaration(statement) && statement.body && ts.isModuleBlock(statement.body)) {
+        visitStatements(statement.body.statements);
+        return;
+      }
+
+      if (ts.isVariableStatement(statement)) {
+        const since = getSinceTag(statement);
+        statement.declarationList.declarations.forEach(declaration => {
+          if (since && ts.isIdentifier(declaration.name)) {
+            symbols[declaration.name.text] = since;
+          }
+        });
+        return;
+      }
+
+      if (
+        !ts.isClassDeclaration(statement) &&
+        !ts.isInterfaceDeclaration(statement) &&
+        !ts.isFunctionDeclaration(statement) &&
+        !ts.isTypeAliasDeclaration(statement) &&
+        !ts.isEnumDeclaration(statement)
+      ) {
+        return;
+      }
+
+      const name = statement.name?.text;
+      if (!name) {
+        return;
+      }
+
+      const since = getSinceTag(statement);
+      if (since) {
+        symbols[name] = since;
+      }
+
+      if (ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement)) {
+        (statement.members as ts.NodeArray<ts.ClassElement | ts.TypeElement>).forEach(member => {
+          const memberName = member.name && (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))
+            ? member.name.text
+            : undefined;
+          const memberSince = getSinceTag(member) || since;
+          // Overloads may carry different tags; the name exists from the earliest one
+          const key = `${name}.${memberName}`;
+          if (memberName && memberSince && (!symbols[key] || compareVersions(memberSince, symbols[key]) < 0)) {
+            symbols[key] = memberSince;
+          }
+        });
+      }
+    });
+  };
+
+  visitStatements(sourceFile.statements);
+
+  const sorted: Record<string, string> = {};
+  Object.keys(symbols).sort().forEach(key => {
+    sorted[key] = symbols[key];
+  });
+
+  return { source, symbols: sorted };
+}
+
+/**
+ * Read the version from a node's `@since` JSDoc tag
+ */
+function getSinceTag(node: ts.Node): string | undefined {
+  const tag = ts.getJSDocTags(node).find(candidate => candidate.tagName.text === 'since');
+  const text = typeof tag?.comment === 'string' ? tag.comment : ts.getTextOfJSDocComment(tag?.comment);
+  const match = text?.match(/\d+(?:\.\d+)*/);
+  return match ? match[0] : undefined;
+}
+
+/**
+ * Compare dotted numeric versions. Returns a negative number, zero or a positive number.
+ * Pre-release suffixes (`1.5.7-1`) are ignored.
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string) => version.split('-')[0].split('.').map(part => parseInt(part, 10) || 0);
+  const left = parse(a);
+  const right = parse(b);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] || 0) - (right[i] || 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Return the newer of two versions (either may be missing)
+ */
+export function maxVersion(a: string | undefined, b: string): string {
+  return a && compareVersions(a, b) > 0 ? a : b;
+}
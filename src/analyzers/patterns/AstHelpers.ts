@@ -0,0 +1,193 @@
+/**
+ * AstHelpers - Thin wrappers around the TypeScript compiler API
+ *
+ * Features:
+ * - Source parsing with script kind inferred from the file extension
+ * - Depth-first node traversal
+ * - Call and receiver resolution (e.g. `this.app.vault.read` -> `this.app.vault`)
+ * - 1-based source locations
+ */
+
+import * as ts from 'typescript';
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+/**
+ * Parse source code into a TypeScript syntax tree
+ */
+export function parseSource(code: string, filePath: string): ts.SourceFile {
+  return ts.createSourceFile(
+    filePath,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(filePath)
+  );
+}
+
+/**
+ * Determine the script kind from a file extension
+ */
+function getScriptKind(filePath: string): ts.ScriptKind {
+  if (filePath.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (filePath.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (filePath.endsWith('.js')) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+/**
+ * Visit every node below (and including) the given node, depth first
+ */
+export function walk(node: ts.Node, visit: (node: ts.Node) => void): void {
+  visit(node);
+  ts.forEachChild(node, child => walk(child, visit));
+}
+
+/**
+ * Get the name of the function being called, e.g. `read` for `vault.read(file)`
+ */
+export function getCalleeName(call: ts.CallExpression): string | undefined {
+  return getCalleeNameNode(call)?.text;
+}
+
+/**
+ * Get the identifier naming the called function
+ */
+export function getCalleeNameNode(call: ts.CallExpression): ts.Identifier | ts.PrivateIdentifier | undefined {
+  const callee = skipParentheses(call.expression);
+
+  if (ts.isIdentifier(callee)) {
+    return callee;
+  }
+  if (ts.isPropertyAccessExpression(callee)) {
+    return callee.name;
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the dotted path of the object a member is accessed on,
+ * e.g. `this.app.vault` for `this.app.vault.read(file)`
+ */
+export function getReceiverPath(node: ts.CallExpression | ts.PropertyAccessExpression): string | undefined {
+  const target = ts.isCallExpression(node) ? skipParentheses(node.expression) : node;
+  if (!ts.isPropertyAccessExpression(target)) {
+    return undefined;
+  }
+
+  return getExpressionPath(target.expression);
+}
+
+/**
+ * Convert a chain of identifiers and property accesses into a dotted path.
+ * Returns undefined when the chain contains anything else (calls, indexing, ...).
+ */
+export function getExpressionPath(expression: ts.Expression): string | undefined {
+  const node = skipParentheses(expression);
+
+  if (node.kind === ts.SyntaxKind.ThisKeyword) {
+    return 'this';
+  }
+  if (ts.isIdentifier(node)) {
+    return node.text;
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    const base = getExpressionPath(node.expression);
+    return base === undefined ? undefined : `${base}.${node.name.text}`;
+  }
+  if (ts.isNonNullExpression(node)) {
+    return getExpressionPath(node.expression);
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a call is a member call (`obj.name(...)`) with one of the given names
+ */
+export function isMemberCall(node: ts.Node, names: string[]): node is ts.CallExpression {
+  return ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(skipParentheses(node.expression)) &&
+    names.includes(getCalleeName(node) || '');
+}
+
+/**
+ * Check whether a call targets one of the given names, as a member or a bare function
+ */
+export function isCallTo(node: ts.Node, names: string[]): node is ts.CallExpression {
+  return ts.isCallExpression(node) && names.includes(getCalleeName(node) || '');
+}
+
+/**
+ * Get the assignment target if the node is an assignment (`=`, `+=`, ...)
+ */
+export function getAssignmentTarget(node: ts.Node): ts.Expression | undefined {
+  if (
+    ts.isBinaryExpression(node) &&
+    node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+    node.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+  ) {
+    return node.left;
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the name of a declaration if it is a plain identifier
+ */
+export function getDeclarationName(node: ts.Node): string | undefined {
+  if (
+    (ts.isMethodDeclaration(node) ||
+      ts.isPropertyDeclaration(node) ||
+      ts.isPropertyAssignment(node) ||
+      ts.isFunctionDeclaration(node)) &&
+    node.name &&
+    ts.isIdentifier(node.name)
+  ) {
+    return node.name.text;
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a node carries the given modifier (static, private, ...)
+ */
+export function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) || []).some(modifier => modifier.kind === kind);
+}
+
+/**
+ * Strip any wrapping parentheses from an expression
+ */
+export function skipParentheses(expression: ts.Expression): ts.Expression {
+  let node = expression;
+  while (ts.isParenthesizedExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/**
+ * Get the 1-based location of a node, from its first token up to (excluding) its end
+ */
+export function getLocation(node: ts.Node, sourceFile: ts.SourceFile, filePath: string): SourceLocation {
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  return {
+    file: filePath,
+    line: start.line + 1,
+    column: start.character + 1,
+    endLine: end.line + 1,
+    endColumn: end.character + 1,
+  };
+}
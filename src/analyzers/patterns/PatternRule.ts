@@ -0,0 +1,78 @@
+/**
+ * PatternRule - Contract for rules evaluated by PatternDetector
+ *
+ * Built-in and user-defined rules share this interface. A rule module
+ * loaded from the workshop config may export a single rule, an array of
+ * rules, or either of those as `default` / `rules`.
+ */
+
+import * as ts from 'typescript';
+import { PatternDetectionResult } from '../../types/index';
+
+export type PatternSeverity = PatternDetectionResult['severity'];
+
+export interface PatternRuleContext {
+  sourceFile: ts.SourceFile;
+  filePath: string;
+}
+
+export interface PatternRule {
+  /** Unique rule id, reported as the pattern name */
+  id: string;
+  category: PatternDetectionResult['category'];
+  severity: PatternSeverity;
+  description?: string;
+  /** Bump when the rule's matching changes so cached results are discarded */
+  version?: number;
+  /**
+   * Every match is a definite finding: report confidence 1 instead of scoring
+   * by match density, so `patterns.threshold` never drops it
+   */
+  exact?: boolean;
+
+  /**
+   * Inspect a single syntax node. Return the node whose position should be
+   * reported (usually the node itself or its name), or null for no match.
+   */
+  match(node: ts.Node, context: PatternRuleContext): ts.Node | null;
+
+  /**
+   * Produce suggestions for a file with the given number of matches
+   */
+  suggest(occurrences: number): string[];
+}
+
+/** Categories a rule may declare; also the allowed `analyzer.patterns.categories` values */
+export const CATEGORIES: Array<PatternRule['category']> = ['event', 'state', 'lifecycle', 'api', 'ui', 'submission'];
+const SEVERITIES: PatternSeverity[] = ['low', 'medium', 'high'];
+
+/**
+ * Describe why a value is not a valid rule, or return null if it is
+ */
+export function validatePatternRule(value: any): string | null {
+  if (typeof value !== 'object' || value === null) {
+    return 'rule must be an object';
+  }
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    return 'rule.id must be a non-empty string';
+  }
+  if (!CATEGORIES.includes(value.category)) {
+    return `rule "${value.id}" has unknown category "${value.category}" (expected ${CATEGORIES.join(', ')})`;
+  }
+  if (!SEVERITIES.includes(value.severity)) {
+    return `rule "${value.id}" has unknown severity "${value.severity}" (expected ${SEVERITIES.join(', ')})`;
+  }
+  if (typeof value.match !== 'function') {
+    return `rule "${value.id}" must implement match(node, context)`;
+  }
+  if (typeof value.suggest !== 'function') {
+    return `rule "${value.id}" must implement suggest(occurrences)`;
+  }
+  if (value.version !== undefined && typeof value.version !== 'number') {
+    return `rule "${value.id}" has a non-numeric version`;
+  }
+  if (value.exact !== undefined && typeof value.exact !== 'boolean') {
+    return `rule "${value.id}" has a non-boolean exact flag`;
+  }
+  return null;
+}
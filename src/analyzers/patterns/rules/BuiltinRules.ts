@@ -0,0 +1,349 @@
+/**
+ * Built-in pattern rules registered by every PatternDetector
+ */
+
+import * as ts from 'typescript';
+import { PatternRule } from '../PatternRule';
+import {
+  getAssignmentTarget,
+  getCalleeName,
+  getCalleeNameNode,
+  getDeclarationName,
+  getExpressionPath,
+  getReceiverPath,
+  hasModifier,
+  isCallTo,
+  isMemberCall,
+  skipParentheses,
+} from '../AstHelpers';
+
+/**
+ * Detect event listener patterns
+ */
+export const eventListenerRule: PatternRule = {
+  id: 'event-listener',
+  category: 'event',
+  severity: 'medium',
+  description: 'DOM or Obsidian event registration',
+
+  match(node) {
+    // el.addEventListener(...), this.registerDomEvent(...)
+    if (isCallTo(node, ['addEventListener', 'registerDomEvent'])) {
+      return getCalleeNameNode(node) || node;
+    }
+
+    // emitter.on('event-name', handler)
+    if (isMemberCall(node, ['on']) && node.arguments.length > 0 && ts.isStringLiteralLike(node.arguments[0])) {
+      return getCalleeNameNode(node) || node;
+    }
+
+    // el.onclick = handler
+    const target = getAssignmentTarget(node);
+    if (target && ts.isPropertyAccessExpression(target) && /^on[a-z]+$/.test(target.name.text)) {
+      return target.name;
+    }
+
+    return null;
+  },
+
+  suggest(occurrences) {
+    const suggestions = [
+      'Consider using Obsidian\'s registerDomEvent for proper cleanup',
+      'Ensure event listeners are properly removed in onunload',
+    ];
+
+    if (occurrences > 5) {
+      suggestions.push('Consider consolidating event handlers to reduce complexity');
+    }
+
+    return suggestions;
+  },
+};
+
+/**
+ * Check whether an expression is a property on `this` or `state`
+ */
+function isStateTarget(expression: ts.Expression): boolean {
+  const target = skipParentheses(expression);
+  if (!ts.isPropertyAccessExpression(target)) {
+    return false;
+  }
+  const receiver = getExpressionPath(target.expression);
+  return receiver === 'this' || receiver === 'state';
+}
+
+/**
+ * Detect state mutation patterns
+ */
+export const stateMutationRule: PatternRule = {
+  id: 'state-mutation',
+  category: 'state',
+  severity: 'low',
+  description: 'Direct mutation of component or store state',
+
+  match(node) {
+    // this.value = ..., state.count += 1
+    const target = getAssignmentTarget(node);
+    if (target && isStateTarget(target)) {
+      return target;
+    }
+
+    // this.count++, --state.count
+    if (
+      (ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node)) &&
+      (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken) &&
+      isStateTarget(node.operand)
+    ) {
+      return node;
+    }
+
+    // setState(...), store.update(...)
+    if (isCallTo(node, ['setState']) || isMemberCall(node, ['update'])) {
+      return getCalleeNameNode(node) || node;
+    }
+
+    return null;
+  },
+
+  suggest(occurrences) {
+    const suggestions = [
+      'Consider using immutable state updates',
+      'Implement proper state validation',
+    ];
+
+    if (occurrences > 10) {
+      suggestions.push('Consider using a state management library');
+    }
+
+    return suggestions;
+  },
+};
+
+const LIFECYCLE_HOOKS = ['onload', 'onunload', 'onOpen', 'onClose'];
+
+/**
+ * Detect lifecycle hook patterns
+ */
+export const lifecycleHookRule: PatternRule = {
+  id: 'lifecycle-hook',
+  category: 'lifecycle',
+  severity: 'low',
+  description: 'Plugin or view lifecycle hook',
+
+  match(node) {
+    // async onload() { ... }
+    if (ts.isMethodDeclaration(node) && LIFECYCLE_HOOKS.includes(getDeclarationName(node) || '')) {
+      return node.name;
+    }
+
+    // workspace.onLayoutReady(...), super.onload()
+    if (isCallTo(node, [...LIFECYCLE_HOOKS, 'onLayoutReady'])) {
+      return getCalleeNameNode(node) || node;
+    }
+
+    return null;
+  },
+
+  suggest() {
+    return [
+      'Ensure cleanup in onunload method',
+      'Consider using async/await for lifecycle methods',
+      'Implement proper error handling in lifecycle hooks',
+    ];
+  },
+};
+
+/**
+ * Detect API call patterns
+ */
+export const apiCallRule: PatternRule = {
+  id: 'api-call',
+  category: 'api',
+  severity: 'low',
+  description: 'Network or vault API access',
+
+  match(node) {
+    // fetch(...), requestUrl(...)
+    if (ts.isCallExpression(node) && ts.isIdentifier(skipParentheses(node.expression)) &&
+      ['fetch', 'requestUrl'].includes(getCalleeName(node) || '')) {
+      return node.expression;
+    }
+
+    // something.request(...)
+    if (isMemberCall(node, ['request'])) {
+      return getCalleeNameNode(node) || node;
+    }
+
+    if (ts.isPropertyAccessExpression(node)) {
+      const receiver = getReceiverPath(node);
+
+      // axios.get(...)
+      if (receiver === 'axios') {
+        return node;
+      }
+
+      // this.app.vault.read(...), this.app.metadataCache.getFileCache(...)
+      if (receiver && /(^|\.)app\.(vault|metadataCache)$/.test(receiver)) {
+        return node;
+      }
+    }
+
+    return null;
+  },
+
+  suggest(occurrences) {
+    const suggestions = [
+      'Implement proper error handling for API calls',
+      'Consider using rate limiting for external APIs',
+    ];
+
+    if (occurrences > 5) {
+      suggestions.push('Consider caching API responses');
+    }
+
+    return suggestions;
+  },
+};
+
+/**
+ * Detect UI update patterns
+ */
+export const uiUpdateRule: PatternRule = {
+  id: 'ui-update',
+  category: 'ui',
+  severity: 'medium',
+  description: 'Direct DOM manipulation',
+
+  match(node) {
+    // el.innerHTML = ..., el.textContent = ...
+    const target = getAssignmentTarget(node);
+    if (target && ts.isPropertyAccessExpression(target) &&
+      ['innerHTML', 'textContent'].includes(target.name.text)) {
+      return target.name;
+    }
+
+    // el.appendChild(...), document.createElement(...), containerEl.createEl(...)
+    if (isMemberCall(node, ['appendChild', 'createElement', 'createEl'])) {
+      return getCalleeNameNode(node) || node;
+    }
+
+    return null;
+  },
+
+  suggest(occurrences) {
+    const suggestions = [
+      'Use Obsidian\'s createEl for consistent styling',
+      'Consider using DocumentFragment for multiple DOM updates',
+    ];
+
+    if (occurrences > 10) {
+      suggestions.push('Consider virtual DOM or batching updates');
+    }
+
+    return suggestions;
+  },
+};
+
+/**
+ * Detect observer pattern
+ */
+export const observerRule: PatternRule = {
+  id: 'observer-pattern',
+  category: 'event',
+  severity: 'low',
+  description: 'Observer / pub-sub usage',
+
+  match(node) {
+    if (isMemberCall(node, ['observe', 'subscribe', 'notify', 'emit'])) {
+      return getCalleeNameNode(node) || node;
+    }
+
+    return null;
+  },
+
+  suggest() {
+    return [
+      'Ensure proper cleanup of observers',
+      'Consider using weak references to prevent memory leaks',
+      'Implement proper error handling in observer callbacks',
+    ];
+  },
+};
+
+/**
+ * Detect command pattern
+ */
+export const commandRule: PatternRule = {
+  id: 'command-pattern',
+  category: 'api',
+  severity: 'low',
+  description: 'Command registration or execution',
+
+  match(node) {
+    if (isCallTo(node, ['addCommand']) || isMemberCall(node, ['execute', 'undo', 'redo'])) {
+      return getCalleeNameNode(node) || node;
+    }
+
+    return null;
+  },
+
+  suggest() {
+    return [
+      'Implement proper command validation',
+      'Consider adding keyboard shortcuts',
+      'Add command descriptions for better UX',
+    ];
+  },
+};
+
+/**
+ * Detect singleton pattern
+ */
+export const singletonRule: PatternRule = {
+  id: 'singleton-pattern',
+  category: 'lifecycle',
+  severity: 'low',
+  description: 'Singleton class',
+
+  match(node) {
+    // private static instance: Foo
+    if (ts.isPropertyDeclaration(node) && getDeclarationName(node) === 'instance' &&
+      hasModifier(node, ts.SyntaxKind.StaticKeyword)) {
+      return node.name;
+    }
+
+    // static getInstance() { ... }, Foo.getInstance()
+    if (ts.isMethodDeclaration(node) && getDeclarationName(node) === 'getInstance') {
+      return node.name;
+    }
+    if (isCallTo(node, ['getInstance'])) {
+      return getCalleeNameNode(node) || node;
+    }
+
+    // private constructor() { ... }
+    if (ts.isConstructorDeclaration(node) && hasModifier(node, ts.SyntaxKind.PrivateKeyword)) {
+      return node;
+    }
+
+    return null;
+  },
+
+  suggest() {
+    return [
+      'Consider if singleton is truly necessary',
+      'Implement proper lazy initialization',
+      'Consider dependency injection instead',
+    ];
+  },
+};
+
+export const builtinRules: PatternRule[] = [
+  eventListenerRule,
+  stateMutationRule,
+  lifecycleHookRule,
+  apiCallRule,
+  uiUpdateRule,
+  observerRule,
+  commandRule,
+  singletonRule,
+];
@@ -0,0 +1,124 @@
+/**
+ * Pattern rules for code the community plugin review asks authors to remove
+ */
+
+import * as ts from 'typescript';
+import { PatternRule } from '../PatternRule';
+import {
+  getAssignmentTarget,
+  getCalleeNameNode,
+  getExpressionPath,
+  getReceiverPath,
+  isMemberCall,
+} from '../AstHelpers';
+
+/**
+ * Detect HTML string injection
+ */
+export const innerHtmlRule: PatternRule = {
+  id: 'inner-html',
+  category: 'submission',
+  severity: 'high',
+  description: 'HTML assigned from a string instead of built with the DOM API',
+  exact: true,
+
+  match(node) {
+    // el.innerHTML = ..., el.outerHTML += ...
+    const target = getAssignmentTarget(node);
+    if (target && ts.isPropertyAccessExpression(target) && ['innerHTML', 'outerHTML'].includes(target.name.text)) {
+      return target.name;
+    }
+
+    // el.insertAdjacentHTML('beforeend', ...)
+    if (isMemberCall(node, ['insertAdjacentHTML'])) {
+      return getCalleeNameNode(node) || node;
+    }
+
+    return null;
+  },
+
+  suggest() {
+    return ['Build elements with createEl/createDiv or sanitize with sanitizeHTMLToDom'];
+  },
+};
+
+/**
+ * Detect console.log left in plugin code
+ */
+export const consoleLogRule: PatternRule = {
+  id: 'console-log',
+  category: 'submission',
+  severity: 'medium',
+  description: 'console.log call in production code',
+  exact: true,
+
+  match(node) {
+    if (isMemberCall(node, ['log']) && getReceiverPath(node) === 'console') {
+      return node.expression;
+    }
+
+    return null;
+  },
+
+  suggest() {
+    return ['Remove debug logging or use console.error/console.warn for real problems'];
+  },
+};
+
+/**
+ * Detect the configuration directory written out as ".obsidian"
+ */
+export const hardcodedConfigDirRule: PatternRule = {
+  id: 'hardcoded-config-dir',
+  category: 'submission',
+  severity: 'high',
+  description: 'Hardcoded .obsidian configuration directory',
+  exact: true,
+
+  match(node) {
+    // '.obsidian/plugins', `${vault}/.obsidian/snippets`
+    if ((ts.isStringLiteral(node) || ts.isTemplateLiteralToken(node)) && /(^|[/\\])\.obsidian([/\\]|$)/.test(node.text)) {
+      return node;
+    }
+
+    return null;
+  },
+
+  suggest() {
+    return ['Use this.app.vault.configDir; users can rename the configuration folder'];
+  },
+};
+
+/**
+ * Detect direct use of the vault adapter
+ */
+export const vaultAdapterRule: PatternRule = {
+  id: 'vault-adapter',
+  category: 'submission',
+  severity: 'low',
+  description: 'app.vault.adapter used instead of the Vault API',
+  exact: true,
+
+  match(node) {
+    if (
+      ts.isPropertyAccessExpression(node) &&
+      node.name.text === 'adapter' &&
+      /(^|\.)vault$/.test(getExpressionPath(node.expression) || '')
+    ) {
+      return node;
+    }
+
+    return null;
+  },
+
+  suggest() {
+    return ['Prefer Vault methods (read, modify, process, create) which keep the metadata cache in sync'];
+  },
+};
+
+export const submissionRules: PatternRule[] = [
+  innerHtmlRule,
+  consoleLogRule,
+  hardcodedConfigDirRule,
+  vaultAdapterRule,
+];
@@ -0,0 +1,140 @@
+/**
+ * Pattern rules fingerprinting the sample code in templates/basic-plugin/main.ts
+ *
+ * create-plugin only renames `MyPlugin` and "Sample Plugin", so every other
+ * piece of the template ships unchanged unless the author replaces it. Each
+ * rule matches one piece by the literals that make it recognizable; once the
+ * author edits those, the piece no longer counts as template code.
+ */
+
+import * as ts from 'typescript';
+import { PatternRule } from '../PatternRule';
+import { getCalleeNameNode, getReceiverPath, isCallTo, isMemberCall, walk } from '../AstHelpers';
+
+type Matcher = (node: ts.Node) => ts.Node | null;
+
+/**
+ * Build a rule for one template piece
+ */
+function templateRule(id: string, description: string, match: Matcher): PatternRule {
+  return {
+    id,
+    category: 'submission',
+    severity: 'medium',
+    description,
+    exact: true,
+    match,
+    suggest() {
+      return [`Replace or remove the template's ${description.toLowerCase()}`];
+    },
+  };
+}
+
+/**
+ * Match a string literal with exactly this text
+ */
+function literal(text: string): Matcher {
+  return node => (ts.isStringLiteralLike(node) && node.text === text ? node : null);
+}
+
+/**
+ * Match a call whose first argument is the given string
+ */
+function callWith(names: string[], firstArgument: string): Matcher {
+  return node => {
+    if (!isCallTo(node, names)) {
+      return null;
+    }
+    const [argument] = node.arguments;
+    return argument && ts.isStringLiteralLike(argument) && argument.text === firstArgument
+      ? getCalleeNameNode(node) || node
+      : null;
+  };
+}
+
+/**
+ * Match a class or interface declaration by name
+ */
+function declaration(name: string): Matcher {
+  return node => (
+    (ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node)) && node.name?.text === name ? node.name : null
+  );
+}
+
+/**
+ * Match an `addCommand({ id: '...' })` call by command id
+ */
+function command(id: string): Matcher {
+  return node => {
+    if (!isCallTo(node, ['addCommand']) || !node.arguments[0] || !ts.isObjectLiteralExpression(node.arguments[0])) {
+      return null;
+    }
+    const idProperty = node.arguments[0].properties.find(property =>
+      ts.isPropertyAssignment(property) &&
+      property.name.getText() === 'id' &&
+      ts.isStringLiteralLike(property.initializer) &&
+      property.initializer.text === id
+    );
+    return idProperty || null;
+  };
+}
+
+/**
+ * Check whether a callback logs a message starting with the given text
+ */
+function logsMessage(callback: ts.Node | undefined, prefix: string): boolean {
+  let found = false;
+  if (callback) {
+    walk(callback, node => {
+      if (isMemberCall(node, ['log']) && getReceiverPath(node) === 'console') {
+        const [message] = node.arguments;
+        found = found || (!!message && ts.isStringLiteralLike(message) && message.text.startsWith(prefix)) ||
+          (!!message && ts.isBinaryExpression(message) && ts.isStringLiteralLike(message.left) && message.left.text.startsWith(prefix));
+      }
+    });
+  }
+  return found;
+}
+
+export const templateRules: PatternRule[] = [
+  // Classes and settings
+  templateRule('template-plugin-class', 'MyPlugin class or MyPluginSettings interface', node =>
+    declaration('MyPlugin')(node) || declaration('MyPluginSettings')(node)),
+  templateRule('template-sample-modal', 'SampleModal class', declaration('SampleModal')),
+  templateRule('template-sample-setting-tab', 'SampleSettingTab class', declaration('SampleSettingTab')),
+  templateRule('template-my-setting', 'mySetting setting', node =>
+    (ts.isPropertySignature(node) || ts.isPropertyDeclaration(node) || ts.isPropertyAssignment(node)) &&
+    ts.isIdentifier(node.name) && node.name.text === 'mySetting'
+      ? node.name
+      : null),
+  templateRule('template-setting-control', '"Setting #1" secret text setting', callWith(['setName'], 'Setting #1')),
+  templateRule('template-settings-heading', '"Settings for my awesome plugin." heading', literal('Settings for my awesome plugin.')),
+  templateRule('template-secret-logger', 'console.log of the secret setting', node =>
+    isMemberCall(node, ['onChange']) && logsMessage(node.arguments[0], 'Secret: ') ? getCalleeNameNode(node) || node : null),
+
+  // Ribbon, status bar and modal
+  templateRule('template-ribbon-icon', 'dice ribbon icon', callWith(['addRibbonIcon'], 'dice')),
+  templateRule('template-ribbon-notice', '"This is a notice!" notice', literal('This is a notice!')),
+  templateRule('template-ribbon-class', 'my-plugin-ribbon-class CSS class', literal('my-plugin-ribbon-class')),
+  templateRule('template-status-bar', '"Status Bar Text" status bar item', callWith(['setText'], 'Status Bar Text')),
+  templateRule('template-modal-text', '"Woah!" modal content', callWith(['setText'], 'Woah!')),
+
+  // Commands
+  templateRule('template-command-open-sample-modal-simple', 'open-sample-modal-simple command', command('open-sample-modal-simple')),
+  templateRule('template-command-sample-editor-command', 'sample-editor-command command', command('sample-editor-command')),
+  templateRule('template-command-open-sample-modal-complex', 'open-sample-modal-complex command', command('open-sample-modal-complex')),
+
+  // Global event and interval examples
+  templateRule('template-click-logger', 'document click logger', node =>
+    isCallTo(node, ['registerDomEvent']) &&
+    node.arguments[0]?.getText() === 'document' &&
+    logsMessage(node.arguments[2], 'click')
+      ? getCalleeNameNode(node) || node
+      : null),
+  templateRule('template-interval-logger', '5-minute setInterval logger', node =>
+    isCallTo(node, ['setInterval']) &&
+    node.arguments[1]?.getText().replace(/\s/g, '') === '5*60*1000' &&
+    logsMessage(node.arguments[0], 'setInterval')
+      ? getCalleeNameNode(node) || node
+      : null),
+];
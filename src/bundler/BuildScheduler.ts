@@ -0,0 +1,167 @@
+/**
+ * BuildScheduler - Run plugin builds concurrently in dependency order
+ *
+ * Features:
+ * - Dependency graph from workspace package.json files: a plugin depends on another
+ *   when it lists that plugin's package name, or a `file:`/`link:` path to its folder
+ * - Topological order (alphabetical among independent plugins); cycles are an error
+ * - Bounded pool: at most `concurrency` builds at once, each starting as soon as its
+ *   dependencies have built
+ * - Dependents of a failed build are skipped instead of built against stale output
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type DependencyGraph = Map<string, string[]>;
+
+export type ScheduledStatus = 'success' | 'failed' | 'skipped';
+
+export interface ScheduledResult<T> {
+  id: string;
+  status: ScheduledStatus;
+  value?: T;
+  error?: Error;
+  /** Dependency that failed or was skipped, for skipped builds */
+  blockedBy?: string;
+}
+
+interface PackageJson {
+  name?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+const LOCAL_SPEC = /^(file|link):/;
+
+/**
+ * Find which workspace plugins depend on each other through their package.json
+ */
+export function findWorkspaceDependencies(workspacePath: string, ids: string[]): DependencyGraph {
+  const packages = new Map<string, PackageJson>();
+  ids.forEach(id => {
+    const packagePath = path.join(workspacePath, id, 'package.json');
+    if (fs.existsSync(packagePath)) {
+      try {
+        packages.set(id, JSON.parse(fs.readFileSync(packagePath, 'utf8')));
+      } catch {
+        // Reported by the build itself
+      }
+    }
+  });
+
+  const idsByName = new Map<string, string>();
+  packages.forEach((packageJson, id) => {
+    if (packageJson.name) {
+      idsByName.set(packageJson.name, id);
+    }
+  });
+
+  const graph: DependencyGraph = new Map();
+  ids.forEach(id => {
+    const packageJson = packages.get(id) || {};
+    const specs = { ...packageJson.peerDependencies, ...packageJson.devDependencies, ...packageJson.dependencies };
+    const dependencies = new Set<string>();
+
+    Object.entries(specs).forEach(([name, spec]) => {
+      let dependency = idsByName.get(name);
+      if (LOCAL_SPEC.test(spec)) {
+        const target = path.resolve(workspacePath, id, spec.replace(LOCAL_SPEC, ''));
+        dependency = ids.find(candidate => path.resolve(workspacePath, candidate) === target) || dependency;
+      }
+      if (dependency && dependency !== id) {
+        dependencies.add(dependency);
+      }
+    });
+
+    graph.set(id, Array.from(dependencies).sort());
+  });
+
+  return graph;
+}
+
+export class BuildScheduler {
+  private concurrency: number;
+
+  constructor(concurrency: number) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+    }
+    this.concurrency = concurrency;
+  }
+
+  /**
+   * Order ids so every id comes after its dependencies. Dependencies outside the graph are ignored.
+   */
+  public static topologicalOrder(graph: DependencyGraph): string[] {
+    const order: string[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (id: string, trail: string[]) => {
+      if (state.get(id) === 'done') {
+        return;
+      }
+      if (state.get(id) === 'visiting') {
+        const cycle = [...trail.slice(trail.indexOf(id)), id];
+        throw new Error(`Dependency cycle: ${cycle.join(' → ')}`);
+      }
+
+      state.set(id, 'visiting');
+      (graph.get(id) || []).filter(dependency => graph.has(dependency)).sort().forEach(dependency => visit(dependency, [...trail, id]));
+      state.set(id, 'done');
+      order.push(id);
+    };
+
+    Array.from(graph.keys()).sort().forEach(id => visit(id, []));
+    return order;
+  }
+
+  /**
+   * Run a task per id, never more than `concurrency` at once and never before the id's
+   * dependencies succeeded. Results come back in topological order.
+   */
+  public run<T>(graph: DependencyGraph, task: (id: string) => Promise<T>): Promise<Array<ScheduledResult<T>>> {
+    const order = BuildScheduler.topologicalOrder(graph);
+    const results = new Map<string, ScheduledResult<T>>();
+    const running = new Set<string>();
+
+    return new Promise(resolve => {
+      const launch = () => {
+        for (const id of order) {
+          if (results.has(id) || running.has(id)) {
+            continue;
+          }
+
+          const dependencies = (graph.get(id) || []).filter(dependency => graph.has(dependency));
+          const blockedBy = dependencies.find(dependency => results.has(dependency) && results.get(dependency)!.status !== 'success');
+          if (blockedBy) {
+            results.set(id, { id, status: 'skipped', blockedBy });
+            continue;
+          }
+          if (!dependencies.every(dependency => results.has(dependency)) || running.size >= this.concurrency) {
+            continue;
+          }
+
+          running.add(id);
+          Promise.resolve()
+            .then(() => task(id))
+            .then(
+              value => results.set(id, { id, status: 'success', value }),
+              error => results.set(id, { id, status: 'failed', error: error instanceof Error ? error : new Error(String(error)) })
+            )
+            .then(() => {
+              running.delete(id);
+              launch();
+            });
+        }
+
+        if (running.size === 0) {
+          resolve(order.map(id => results.get(id)!));
+        }
+      };
+
+      launch();
+    });
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * BundleAnalyzer - Attribute main.js bytes to source files and npm packages
+ *
+ * Features:
+ * - Per-file and per-package byte counts from the esbuild metafile
+ * - Duplicate packages: the same package bundled from more than one node_modules folder
+ * - Large inlined assets (JSON, CSS, images, fonts, wasm...) above a size threshold
+ * - Size tree with packages collapsed to one node, printable as text or serialized as JSON
+ * - Bytes not attributed to any input (esbuild's module wrappers and helpers) listed separately
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Metafile } from 'esbuild';
+
+export interface BundleFile {
+  path: string;
+  bytes: number;
+  /** Package the file belongs to, undefined for plugin sources */
+  package?: string;
+}
+
+export interface BundlePackage {
+  name: string;
+  version?: string;
+  /** Package folder relative to the plugin, e.g. `node_modules/a/node_modules/b` */
+  path: string;
+  bytes: number;
+  files: number;
+}
+
+export interface DuplicatePackage {
+  name: string;
+  instances: BundlePackage[];
+  /** Bytes of every instance but the largest */
+  wastedBytes: number;
+}
+
+export interface SizeTreeNode {
+  name: string;
+  bytes: number;
+  /** Set on collapsed package nodes */
+  version?: string;
+  children: SizeTreeNode[];
+}
+
+export interface BundleAnalysis {
+  outputFile: string;
+  totalBytes: number;
+  /** Bytes in the output that no input accounts for */
+  overheadBytes: number;
+  files: BundleFile[];
+  packages: BundlePackage[];
+  duplicates: DuplicatePackage[];
+  largeAssets: BundleFile[];
+  tree: SizeTreeNode;
+}
+
+export interface BundleAnalyzerOptions {
+  /** Plugin directory the metafile paths are relative to; used to read package versions */
+  rootPath?: string;
+  /** Assets at or above this many bytes are flagged */
+  largeAssetBytes?: number;
+}
+
+const CODE_EXTENSIONS = ['.js', '.mjs', '.cjs', '.jsx', '.ts', '.mts', '.cts', '.tsx'];
+const DEFAULT_LARGE_ASSET_BYTES = 10 * 1024;
+const OVERHEAD_NODE = '(esbuild runtime and wrappers)';
+
+export class BundleAnalyzer {
+  private rootPath?: string;
+  private largeAssetBytes: number;
+
+  constructor(options: BundleAnalyzerOptions = {}) {
+    this.rootPath = options.rootPath;
+    this.largeAssetBytes = options.largeAssetBytes ?? DEFAULT_LARGE_ASSET_BYTES;
+  }
+
+  /**
+   * Analyze the JavaScript output of a metafile. With several outputs, `outputFile`
+   * selects one (as named in the metafile); otherwise the first entry point is used.
+   */
+  public analyze(metafile: Metafile, outputFile?: string): BundleAnalysis {
+    const outputName = outputFile ?? Object.keys(metafile.outputs).find(name => metafile.outputs[name].entryPoint && name.endsWith('.js'));
+    const output = outputName ? metafile.outputs[outputName] : undefined;
+    if (!outputName || !output) {
+      throw new Error(`No JavaScript output ${outputFile ? `named ${outputFile} ` : ''}in the metafile`);
+    }
+
+    const files: BundleFile[] = Object.entries(output.inputs)
+      .map(([inputPath, input]) => ({ path: inputPath, bytes: input.bytesInOutput, package: packageRoot(inputPath) }))
+      .filter(file => file.bytes > 0)
+      .sort((a, b) => b.bytes - a.bytes || a.path.localeCompare(b.path));
+
+    const packages = this.collectPackages(files);
+    const attributed = files.reduce((sum, file) => sum + file.bytes, 0);
+
+    return {
+      outputFile: outputName,
+      totalBytes: output.bytes,
+      overheadBytes: Math.max(0, output.bytes - attributed),
+      files,
+      packages,
+      duplicates: findDuplicates(packages),
+      largeAssets: files.filter(file => !CODE_EXTENSIONS.includes(path.extname(file.path)) && file.bytes >= this.largeAssetBytes),
+      tree: buildTree(outputName, output.bytes, files, packages),
+    };
+  }
+
+  /**
+   * Render the size tree, largest first, with each node's share of the bundle
+   */
+  public static formatTree(analysis: BundleAnalysis): string {
+    const lines: string[] = [];
+    const label = (node: SizeTreeNode) => {
+      const name = node.version ? `${node.name}@${node.version}` : node.name;
+      const share = analysis.totalBytes > 0 ? ((node.bytes / analysis.totalBytes) * 100).toFixed(1) : '0.0';
+      return `${name}  ${formatBytes(node.bytes)} (${share}%)`;
+    };
+
+    const visit = (node: SizeTreeNode, prefix: string) => {
+      node.children.forEach((child, index) => {
+        const last = index === node.children.length - 1;
+        lines.push(`${prefix}${last ? '└─ ' : '├─ '}${label(child)}`);
+        visit(child, `${prefix}${last ? '   ' : '│  '}`);
+      });
+    };
+
+    lines.push(`${analysis.tree.name}  ${formatBytes(analysis.totalBytes)}`);
+    visit(analysis.tree, '');
+    return lines.join('\n');
+  }
+
+  private collectPackages(files: BundleFile[]): BundlePackage[] {
+    const packages = new Map<string, BundlePackage>();
+
+    files.forEach(file => {
+      if (!file.package) {
+        return;
+      }
+      let entry = packages.get(file.package);
+      if (!entry) {
+        entry = { name: packageName(file.package), version: this.readVersion(file.package), path: file.package, bytes: 0, files: 0 };
+        packages.set(file.package, entry);
+      }
+      entry.bytes += file.bytes;
+      entry.files++;
+    });
+
+    return Array.from(packages.values()).sort((a, b) => b.bytes - a.bytes || a.path.localeCompare(b.path));
+  }
+
+  private readVersion(packagePath: string): string | undefined {
+    if (!this.rootPath) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.rootPath, packagePath, 'package.json'), 'utf8')).version;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Innermost `node_modules/<name>` or `node_modules/@scope/<name>` folder of a path
+ */
+export function packageRoot(inputPath: string): string | undefined {
+  const segments = inputPath.replace(/\\/g, '/').split('/');
+  const index = segments.lastIndexOf('node_modules');
+  if (index === -1 || index + 1 >= segments.length - 1) {
+    return undefined;
+  }
+
+  const length = segments[index + 1].startsWith('@') ? 3 : 2;
+  return segments.slice(0, index + length).join('/');
+}
+
+function packageName(packagePath: string): string {
+  const segments = packagePath.split('/');
+  const index = segments.lastIndexOf('node_modules');
+  return segments.slice(index + 1).join('/');
+}
+
+function findDuplicates(packages: BundlePackage[]): DuplicatePackage[] {
+  const byName = new Map<string, BundlePackage[]>();
+  packages.forEach(bundlePackage => byName.set(bundlePackage.name, [...(byName.get(bundlePackage.name) || []), bundlePackage]));
+
+  return Array.from(byName.entries())
+    .filter(([, instances]) => instances.length > 1)
+    .map(([name, instances]) => ({
+      name,
+      instances,
+      wastedBytes: instances.slice(1).reduce((sum, instance) => sum + instance.bytes, 0),
+    }))
+    .sort((a, b) => b.wastedBytes - a.wastedBytes);
+}
+
+/**
+ * Directory tree of the inputs; files inside a package are folded into one node per package
+ * under a top-level node_modules node
+ */
+function buildTree(outputName: string, totalBytes: number, files: BundleFile[], packages: BundlePackage[]): SizeTreeNode {
+  const root: SizeTreeNode = { name: outputName, bytes: totalBytes, children: [] };
+  const child = (parent: SizeTreeNode, name: string) => {
+    let node = parent.children.find(candidate => candidate.name === name);
+    if (!node) {
+      node = { name, bytes: 0, children: [] };
+      parent.children.push(node);
+    }
+    return node;
+  };
+
+  files.filter(file => !file.package).forEach(file => {
+    let node = root;
+    file.path.replace(/\\/g, '/').split('/').forEach(segment => {
+      node = child(node, segment);
+      node.bytes += file.bytes;
+    });
+  });
+
+  if (packages.length > 0) {
+    const modules = child(root, 'node_modules');
+    packages.forEach(bundlePackage => {
+      modules.bytes += bundlePackage.bytes;
+      // Nested copies keep their parent path so duplicates stay distinguishable
+      const name = bundlePackage.path.replace(/^node_modules\//, '');
+      modules.children.push({ name, version: bundlePackage.version, bytes: bundlePackage.bytes, children: [] });
+    });
+  }
+
+  const overhead = totalBytes - files.reduce((sum, file) => sum + file.bytes, 0);
+  if (overhead > 0) {
+    root.children.push({ name: OVERHEAD_NODE, bytes: overhead, children: [] });
+  }
+
+  const sort = (node: SizeTreeNode) => {
+    node.children.sort((a, b) => b.bytes - a.bytes || a.name.localeCompare(b.name));
+    node.children.forEach(sort);
+  };
+  sort(root);
+  return root;
+}
+
+export function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(2)} KB`;
+}
@@ -0,0 +1,181 @@
+/**
+ * PluginBundler - Bundle a plugin's entry point into the main.js Obsidian loads
+ *
+ * Features:
+ * - Single CommonJS file with npm dependencies inlined
+ * - obsidian, electron, CodeMirror/Lezer and Node.js built-ins left external,
+ *   since the app provides them at runtime
+ * - Production profile honoring `build.minify`, `build.target` and `build.sourceMap`
+ * - Development profile with inline source maps (`development.sourceMap`) and no minification
+ * - Watch mode rebuilding in-process whenever a bundled file changes
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { builtinModules } from 'module';
+import * as esbuild from 'esbuild';
+import { WorkshopConfig } from '../types/index';
+
+export type BuildProfile = 'production' | 'development';
+
+export interface BundleResult {
+  entryPoint: string;
+  outputFile: string;
+  profile: BuildProfile;
+  /** Size of main.js in bytes */
+  bytes: number;
+  durationMs: number;
+  warnings: string[];
+  metafile: esbuild.Metafile;
+}
+
+/** Modules provided by Obsidian at runtime */
+export const EXTERNAL_MODULES = [
+  'obsidian',
+  'electron',
+  '@codemirror/autocomplete',
+  '@codemirror/collab',
+  '@codemirror/commands',
+  '@codemirror/language',
+  '@codemirror/lint',
+  '@codemirror/search',
+  '@codemirror/state',
+  '@codemirror/view',
+  '@lezer/common',
+  '@lezer/highlight',
+  '@lezer/lr',
+  ...builtinModules,
+  ...builtinModules.map(name => `node:${name}`),
+];
+
+const ENTRY_POINTS = ['main.ts', 'src/main.ts'];
+
+type BundleOptions = esbuild.BuildOptions & { metafile: true };
+
+/** Called after the initial build and every rebuild */
+export type RebuildListener = (result: BundleResult | Error) => void;
+
+export interface BundleWatcher {
+  dispose(): Promise<void>;
+}
+
+export class PluginBundler {
+  private config: WorkshopConfig;
+
+  constructor(config: WorkshopConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Find the plugin entry point
+   */
+  public static findEntryPoint(pluginPath: string): string {
+    const entry = ENTRY_POINTS.map(candidate => path.join(pluginPath, candidate)).find(candidate => fs.existsSync(candidate));
+    if (!entry) {
+      throw new Error(`No entry point found in ${pluginPath} (expected ${ENTRY_POINTS.join(' or ')})`);
+    }
+    return entry;
+  }
+
+  /**
+   * esbuild options for a plugin and profile
+   */
+  public getBuildOptions(pluginPath: string, profile: BuildProfile): BundleOptions {
+    const production = profile === 'production';
+    const { build, development } = this.config;
+
+    let sourcemap: esbuild.BuildOptions['sourcemap'] = false;
+    if (production && build.sourceMap) {
+      sourcemap = 'linked';
+    } else if (!production && development.sourceMap) {
+      sourcemap = 'inline';
+    }
+
+    return {
+      entryPoints: [PluginBundler.findEntryPoint(pluginPath)],
+      outfile: path.resolve(pluginPath, build.outputDir, 'main.js'),
+      bundle: true,
+      format: 'cjs',
+      platform: 'browser',
+      target: build.target,
+      external: EXTERNAL_MODULES,
+      minify: production && build.minify,
+      sourcemap,
+      treeShaking: true,
+      logLevel: 'silent',
+      metafile: true,
+      absWorkingDir: path.resolve(pluginPath),
+      define: { 'process.env.NODE_ENV': JSON.stringify(profile) },
+    };
+  }
+
+  /**
+   * Bundle the plugin. Build errors are thrown with esbuild's formatted messages.
+   */
+  public async bundle(pluginPath: string, profile: BuildProfile = 'production'): Promise<BundleResult> {
+    const options = this.getBuildOptions(pluginPath, profile);
+    const started = Date.now();
+
+    let result: esbuild.BuildResult<BundleOptions>;
+    try {
+      result = await esbuild.build(options);
+    } catch (error) {
+      const failure = error as esbuild.BuildFailure;
+      if (!failure.errors) {
+        throw error;
+      }
+      const messages = await esbuild.formatMessages(failure.errors, { kind: 'error', color: false });
+      throw new Error(`Bundling failed:\n${messages.join('\n').trim()}`);
+    }
+
+    return this.toBundleResult(options, profile, result, started);
+  }
+
+  /**
+   * Build once, then rebuild whenever a file in the bundle changes until disposed
+   */
+  public async watch(pluginPath: string, profile: BuildProfile, listener: RebuildListener): Promise<BundleWatcher> {
+    const options = this.getBuildOptions(pluginPath, profile);
+    let started = Date.now();
+
+    const reporter: esbuild.Plugin = {
+      name: 'workshop-rebuild-listener',
+      setup: build => {
+        build.onStart(() => {
+          started = Date.now();
+        });
+        build.onEnd(async result => {
+          if (result.errors.length > 0) {
+            const messages = await esbuild.formatMessages(result.errors, { kind: 'error', color: false });
+            listener(new Error(`Bundling failed:\n${messages.join('\n').trim()}`));
+            return;
+          }
+          listener(await this.toBundleResult(options, profile, result as esbuild.BuildResult<BundleOptions>, started));
+        });
+      },
+    };
+
+    const context = await esbuild.context({ ...options, plugins: [reporter] });
+    await context.watch();
+    return { dispose: () => context.dispose() };
+  }
+
+  private async toBundleResult(
+    options: BundleOptions,
+    profile: BuildProfile,
+    result: esbuild.BuildResult<BundleOptions>,
+    started: number
+  ): Promise<BundleResult> {
+    const warnings = await esbuild.formatMessages(result.warnings, { kind: 'warning', color: false });
+
+    return {
+      entryPoint: (options.entryPoints as string[])[0],
+      outputFile: options.outfile!,
+      profile,
+      bytes: fs.statSync(options.outfile!).size,
+      durationMs: Date.now() - started,
+      warnings: warnings.map(warning => warning.trim()),
+      metafile: result.metafile,
+    };
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * CommandLine - Shared argument parsing for the workshop scripts
+ *
+ * Features:
+ * - Value options accept both `--name <value>` and `--name=<value>`
+ * - Boolean flags, with `--flag=<value>` rejected
+ * - Unknown options and missing values throw, so scripts can print their usage
+ * - Everything else is returned as positional arguments, in order
+ */
+
+export interface CommandLineSpec {
+  /** Options that take a value, e.g. `--output` */
+  values?: string[];
+  /** Options that take no value, e.g. `--dev` */
+  flags?: string[];
+}
+
+export interface CommandLine {
+  positional: string[];
+  /** Value options that were given; the last occurrence wins */
+  values: Record<string, string>;
+  flags: Set<string>;
+}
+
+/**
+ * Parse arguments (without the node and script paths) against a spec
+ */
+export function parseCommandLine(args: string[], spec: CommandLineSpec): CommandLine {
+  const valueOptions = spec.values || [];
+  const flagOptions = spec.flags || [];
+  const result: CommandLine = { positional: [], values: {}, flags: new Set() };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      result.positional.push(arg);
+      continue;
+    }
+
+    const separator = arg.indexOf('=');
+    const name = separator === -1 ? arg : arg.slice(0, separator);
+
+    if (flagOptions.includes(name)) {
+      if (separator !== -1) {
+        throw new Error(`${name} does not take a value`);
+      }
+      result.flags.add(name);
+    } else if (valueOptions.includes(name)) {
+      const value = separator !== -1 ? arg.slice(separator + 1) : args[i + 1];
+      if (!value || (separator === -1 && value.startsWith('--'))) {
+        throw new Error(`${name} requires a value`);
+      }
+      if (separator === -1) {
+        i++;
+      }
+      result.values[name] = value;
+    } else {
+      throw new Error(`Unknown option ${name}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,169 @@
+/**
+ * ConfigSchema - Declarative schema for workshop configuration files
+ *
+ * Features:
+ * - Minimal schema nodes (object, number, string, boolean, array)
+ * - Validation errors with dotted paths, e.g. `analyzer.rateLimit.requestsPerSecond`
+ * - Unknown keys are reported so typos do not silently fall back to defaults
+ */
+
+import { CATEGORIES } from '../analyzers/patterns/PatternRule';
+
+export type SchemaNode =
+  | { type: 'object'; properties: Record<string, SchemaNode> }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'string'; enum?: string[] }
+  | { type: 'boolean' }
+  | { type: 'array'; items: SchemaNode };
+
+const optionalCount: SchemaNode = { type: 'number', min: 0, integer: true };
+
+/**
+ * Schema for `WorkshopConfig`. Every property is optional in a config file;
+ * missing values are filled in from the defaults.
+ */
+export const workshopConfigSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    analyzer: {
+      type: 'object',
+      properties: {
+        rateLimit: {
+          type: 'object',
+          properties: {
+            requestsPerSecond: { type: 'number', min: 0 },
+            maxQueueSize: { type: 'number', min: 1, integer: true },
+            priorityLevels: { type: 'number', min: 1, integer: true },
+          },
+        },
+        patterns: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            categories: { type: 'array', items: { type: 'string', enum: CATEGORIES } },
+            threshold: { type: 'number', min: 0, max: 1 },
+            customRules: { type: 'array', items: { type: 'string' } },
+          },
+        },
+        stateAnalysis: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            trackGlobalState: { type: 'boolean' },
+            trackLocalState: { type: 'boolean' },
+            performanceMetrics: { type: 'boolean' },
+          },
+        },
+        gates: {
+          type: 'object',
+          properties: {
+            maxHighSeverityEventIssues: optionalCount,
+            maxMemoryLeakRisk: optionalCount,
+            minDocCoverage: { type: 'number', min: 0, max: 100 },
+            bannedRules: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+    },
+    development: {
+      type: 'object',
+      properties: {
+        hotReload: { type: 'boolean' },
+        sourceMap: { type: 'boolean' },
+        typeChecking: { type: 'boolean' },
+        vaults: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    testing: {
+      type: 'object',
+      properties: {
+        framework: { type: 'string', enum: ['jest', 'mocha', 'vitest'] },
+        coverage: { type: 'boolean' },
+        threshold: { type: 'number', min: 0, max: 100 },
+      },
+    },
+    build: {
+      type: 'object',
+      properties: {
+        minify: { type: 'boolean' },
+        target: { type: 'string' },
+        outputDir: { type: 'string' },
+        sourceMap: { type: 'boolean' },
+      },
+    },
+  },
+};
+
+/**
+ * Validate a value against a schema node, returning one message per problem
+ */
+export function validateSchema(value: unknown, schema: SchemaNode, path = ''): string[] {
+  const at = path || '(root)';
+
+  switch (schema.type) {
+    case 'object': {
+      if (!isPlainObject(value)) {
+        return [`${at}: expected an object, got ${describe(value)}`];
+      }
+      return Object.entries(value).flatMap(([key, child]) => {
+        const childPath = path ? `${path}.${key}` : key;
+        const childSchema = schema.properties[key];
+        if (!childSchema) {
+          return [`${childPath}: unknown property (expected one of ${Object.keys(schema.properties).join(', ')})`];
+        }
+        return validateSchema(child, childSchema, childPath);
+      });
+    }
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        return [`${at}: expected an array, got ${describe(value)}`];
+      }
+      return value.flatMap((item, index) => validateSchema(item, schema.items, `${path}[${index}]`));
+
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return [`${at}: expected a number, got ${describe(value)}`];
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        return [`${at}: expected an integer, got ${value}`];
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        return [`${at}: must be at least ${schema.min}, got ${value}`];
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        return [`${at}: must be at most ${schema.max}, got ${value}`];
+      }
+      return [];
+
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${at}: expected a string, got ${describe(value)}`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${at}: expected one of ${schema.enum.join(', ')}, got "${value}"`];
+      }
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${at}: expected a boolean, got ${describe(value)}`];
+  }
+}
+
+/**
+ * Check for a plain (non-array, non-null) object
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Describe a value for an error message
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
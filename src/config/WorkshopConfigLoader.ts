@@ -0,0 +1,198 @@
+/**
+ * WorkshopConfigLoader - Load `workshop.config.json` / `.yaml` files
+ *
+ * Features:
+ * - Discovers the nearest config file, walking up from the working directory
+ * - Deep-merges file contents over the built-in defaults (arrays are replaced)
+ * - Layers per-plugin overrides from `plugins/<id>/workshop.config.*` on top
+ * - Validates every file against the schema, reporting `file: path.to.key` errors
+ * - Resolves `analyzer.patterns.customRules` and `development.vaults` against the directory of the declaring file
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { WorkshopConfig } from '../types/index';
+import { isPlainObject, validateSchema, workshopConfigSchema } from './ConfigSchema';
+
+export const CONFIG_FILE_NAMES = ['workshop.config.json', 'workshop.config.yaml', 'workshop.config.yml'];
+
+export const defaultWorkshopConfig: WorkshopConfig = {
+  analyzer: {
+    rateLimit: {
+      requestsPerSecond: 10,
+      maxQueueSize: 100,
+      priorityLevels: 3,
+    },
+    patterns: {
+      enabled: true,
+      categories: ['event', 'state', 'lifecycle', 'api', 'ui', 'submission'],
+      threshold: 0.7,
+    },
+    stateAnalysis: {
+      enabled: true,
+      trackGlobalState: true,
+      trackLocalState: true,
+      performanceMetrics: true,
+    },
+    gates: {},
+  },
+  development: {
+    hotReload: true,
+    sourceMap: true,
+    typeChecking: true,
+    vaults: [],
+  },
+  testing: {
+    framework: 'jest',
+    coverage: false,
+    threshold: 80,
+  },
+  build: {
+    minify: false,
+    target: 'es2018',
+    outputDir: '.',
+    sourceMap: false,
+  },
+};
+
+export interface LoadConfigOptions {
+  /** Directory to start the search from (defaults to the current working directory) */
+  cwd?: string;
+  /** Explicit config file; skips discovery */
+  configFile?: string;
+  /** Plugin directory whose own config file overrides the shared one */
+  pluginPath?: string;
+}
+
+export interface LoadedWorkshopConfig {
+  config: WorkshopConfig;
+  /** Config files that contributed, lowest precedence first */
+  files: string[];
+}
+
+/**
+ * Load the effective configuration
+ */
+export function loadWorkshopConfig(options: LoadConfigOptions = {}): LoadedWorkshopConfig {
+  const files: string[] = [];
+
+  const sharedFile = options.configFile
+    ? path.resolve(options.configFile)
+    : findConfigFile(options.cwd || process.cwd());
+  if (sharedFile) {
+    files.push(sharedFile);
+  }
+
+  if (options.pluginPath) {
+    const pluginFile = findConfigFileIn(path.resolve(options.pluginPath));
+    if (pluginFile && pluginFile !== sharedFile) {
+      files.push(pluginFile);
+    }
+  }
+
+  const config = files.reduce<WorkshopConfig>(
+    (merged, file) => mergeConfig(merged, readConfigFile(file)),
+    defaultWorkshopConfig
+  );
+
+  return { config, files };
+}
+
+/**
+ * Find the nearest config file in the given directory or any of its parents
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    const file = findConfigFileIn(dir);
+    if (file) {
+      return file;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Find a config file directly inside a directory
+ */
+function findConfigFileIn(dir: string): string | undefined {
+  return CONFIG_FILE_NAMES
+    .map(name => path.join(dir, name))
+    .find(file => fs.existsSync(file));
+}
+
+/**
+ * Read, parse and validate a single config file
+ */
+export function readConfigFile(filePath: string): Partial<WorkshopConfig> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Config file not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf8');
+  let parsed: unknown;
+  try {
+    parsed = filePath.endsWith('.json') ? JSON.parse(content) : yaml.load(content);
+  } catch (error) {
+    throw new Error(`Invalid config file ${filePath}: ${(error as Error).message}`);
+  }
+
+  // An empty YAML file means "no overrides"
+  if (parsed === undefined || parsed === null) {
+    return {};
+  }
+
+  const errors = validateSchema(parsed, workshopConfigSchema);
+  if (errors.length > 0) {
+    throw new Error(`Invalid config file ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return resolveRelativePaths(parsed as Partial<WorkshopConfig>, path.dirname(path.resolve(filePath)));
+}
+
+/**
+ * Make custom rule module and vault paths absolute, relative to the config file's directory.
+ * Vaults under `~` are left for VaultDeployer to expand.
+ */
+function resolveRelativePaths(config: Partial<WorkshopConfig>, baseDir: string): Partial<WorkshopConfig> {
+  let resolved = config;
+
+  const customRules = config.analyzer?.patterns?.customRules;
+  if (customRules) {
+    const patterns = { ...config.analyzer!.patterns, customRules: customRules.map(rulePath => path.resolve(baseDir, rulePath)) };
+    resolved = { ...resolved, analyzer: { ...config.analyzer!, patterns } };
+  }
+
+  const vaults = config.development?.vaults;
+  if (vaults) {
+    const isHomePath = (vault: string) => vault === '~' || vault.startsWith('~/');
+    const development = { ...config.development!, vaults: vaults.map(vault => isHomePath(vault) ? vault : path.resolve(baseDir, vault)) };
+    resolved = { ...resolved, development };
+  }
+
+  return resolved;
+}
+
+/**
+ * Deep-merge an override into a base config. Objects merge key by key;
+ * arrays and scalars from the override replace the base value.
+ */
+export function mergeConfig<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  Object.entries(override).forEach(([key, value]) => {
+    merged[key] = mergeConfig(merged[key], value);
+  });
+
+  return merged as T;
+}
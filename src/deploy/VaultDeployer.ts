@@ -0,0 +1,91 @@
+/**
+ * VaultDeployer - Copy built plugin files into local vaults for manual testing
+ *
+ * Features:
+ * - Deploys to every configured vault's `.obsidian/plugins/<id>/` folder
+ * - Vault paths may be relative (to the workshop root) or start with `~`
+ * - Refuses folders that are not Obsidian vaults
+ * - Touches `.hotreload` so the community Hot Reload plugin reloads the plugin
+ * - Never touches other files in the plugin folder, such as the user's data.json
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface DeployFile {
+  /** File name in the vault's plugin folder */
+  name: string;
+  sourcePath: string;
+}
+
+export interface DeployResult {
+  vault: string;
+  /** `<vault>/.obsidian/plugins/<id>` */
+  pluginDir: string;
+  copied: string[];
+}
+
+export const HOT_RELOAD_MARKER = '.hotreload';
+
+export class VaultDeployer {
+  private vaults: string[];
+  private hotReload: boolean;
+
+  constructor(vaults: string[], options: { baseDir?: string; hotReload?: boolean } = {}) {
+    this.vaults = vaults.map(vault => VaultDeployer.resolveVaultPath(vault, options.baseDir || process.cwd()));
+    this.hotReload = options.hotReload ?? true;
+  }
+
+  /**
+   * Expand `~` and resolve relative paths against a base directory
+   */
+  public static resolveVaultPath(vault: string, baseDir: string): string {
+    const expanded = vault === '~' || vault.startsWith('~/') ? path.join(os.homedir(), vault.slice(1)) : vault;
+    return path.resolve(baseDir, expanded);
+  }
+
+  public getVaults(): string[] {
+    return [...this.vaults];
+  }
+
+  /**
+   * Throw if any configured vault has no `.obsidian` folder
+   */
+  public checkVaults(): void {
+    if (this.vaults.length === 0) {
+      throw new Error('No vaults configured; add paths to development.vaults in workshop.config.json');
+    }
+
+    const invalid = this.vaults.filter(vault => !fs.existsSync(path.join(vault, '.obsidian')));
+    if (invalid.length > 0) {
+      throw new Error(`Not an Obsidian vault (no .obsidian folder): ${invalid.join(', ')}`);
+    }
+  }
+
+  /**
+   * Copy the files into each vault's plugin folder, creating it when needed
+   */
+  public deploy(pluginId: string, files: DeployFile[]): DeployResult[] {
+    this.checkVaults();
+
+    return this.vaults.map(vault => {
+      const pluginDir = path.join(vault, '.obsidian', 'plugins', pluginId);
+      fs.mkdirSync(pluginDir, { recursive: true });
+
+      files.forEach(file => fs.copyFileSync(file.sourcePath, path.join(pluginDir, file.name)));
+
+      if (this.hotReload) {
+        const marker = path.join(pluginDir, HOT_RELOAD_MARKER);
+        const now = new Date();
+        if (fs.existsSync(marker)) {
+          fs.utimesSync(marker, now, now);
+        } else {
+          fs.writeFileSync(marker, '');
+        }
+      }
+
+      return { vault, pluginDir, copied: files.map(file => file.name) };
+    });
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * ReleaseManager - Version bumps and store-ready release artifacts for a plugin
+ *
+ * Features:
+ * - Semver bump of manifest.json, package.json (and package-lock.json) and versions.json together,
+ *   keeping each file's indentation
+ * - Artifact checks for main.js, manifest.json and the optional styles.css
+ * - `releases/<id>/<version>/` with the loose assets, a `<id>-<version>.zip` and SHA256SUMS
+ * - CHANGELOG.md section built from the commit subjects touching the plugin since its last
+ *   `<id>-<version>` tag, so plugins in one repository are released independently
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { execFileSync } from 'child_process';
+import { PluginManifest } from '../types/index';
+import { createZip } from './ZipArchive';
+
+export type ReleaseLevel = 'patch' | 'minor' | 'major';
+
+export const RELEASE_LEVELS: ReleaseLevel[] = ['patch', 'minor', 'major'];
+
+export interface VersionBump {
+  previousVersion: string;
+  version: string;
+  /** Files rewritten, relative to the plugin directory */
+  files: string[];
+}
+
+export interface ReleaseArtifact {
+  /** File name inside the release directory and the zip folder */
+  name: string;
+  sourcePath: string;
+}
+
+export interface ReleasePackage {
+  directory: string;
+  zipFile: string;
+  checksumFile: string;
+  /** SHA-256 per file name, including the zip */
+  checksums: Record<string, string>;
+}
+
+export interface GitChanges {
+  /** Last `<id>-<version>` tag reachable from HEAD; undefined when the plugin has no tags */
+  tag?: string;
+  /** Commit subjects, newest first */
+  subjects: string[];
+}
+
+const VERSION_PATTERN = /^(\d+)\.(\d+)\.(\d+)$/;
+const REQUIRED_ARTIFACTS = ['main.js', 'manifest.json'];
+const OPTIONAL_ARTIFACTS = ['styles.css'];
+const CHANGELOG_HEADER = '# Changelog\n';
+const CHECKSUM_FILE = 'SHA256SUMS';
+
+export class ReleaseManager {
+  /**
+   * Git tag for a plugin release; plugins sharing a repository each get their own tags
+   */
+  public static tagName(pluginId: string, version: string): string {
+    return `${pluginId}-${version}`;
+  }
+
+  /**
+   * Next semantic version for a release level
+   */
+  public static bumpVersion(version: string, level: ReleaseLevel): string {
+    const match = VERSION_PATTERN.exec(version);
+    if (!match) {
+      throw new Error(`Version "${version}" must be in x.y.z format`);
+    }
+
+    const [major, minor, patch] = match.slice(1).map(Number);
+    switch (level) {
+      case 'major':
+        return `${major + 1}.0.0`;
+      case 'minor':
+        return `${major}.${minor + 1}.0`;
+      case 'patch':
+        return `${major}.${minor}.${patch + 1}`;
+      default:
+        throw new Error(`Unknown release level "${level}" (expected ${RELEASE_LEVELS.join(', ')})`);
+    }
+  }
+
+  /**
+   * Compute the next version without touching any file
+   */
+  public planBump(pluginPath: string, level: ReleaseLevel): Pick<VersionBump, 'previousVersion' | 'version'> {
+    const manifest = readJsonFile<PluginManifest>(path.join(pluginPath, 'manifest.json'));
+    return { previousVersion: manifest.version, version: ReleaseManager.bumpVersion(manifest.version, level) };
+  }
+
+  /**
+   * Write the new version to manifest.json, package.json, package-lock.json and versions.json.
+   * versions.json maps the new version to the manifest's minAppVersion.
+   */
+  public applyBump(pluginPath: string, level: ReleaseLevel): VersionBump {
+    const { previousVersion, version } = this.planBump(pluginPath, level);
+    const files: string[] = [];
+
+    updateJsonFile<PluginManifest>(path.join(pluginPath, 'manifest.json'), manifest => {
+      manifest.version = version;
+    });
+    files.push('manifest.json');
+    const { minAppVersion } = readJsonFile<PluginManifest>(path.join(pluginPath, 'manifest.json'));
+
+    const versionsPath = path.join(pluginPath, 'versions.json');
+    if (fs.existsSync(versionsPath)) {
+      updateJsonFile<Record<string, string>>(versionsPath, versions => {
+        versions[version] = minAppVersion;
+      });
+    } else {
+      fs.writeFileSync(versionsPath, JSON.stringify({ [version]: minAppVersion }, null, 2));
+    }
+    files.push('versions.json');
+
+    const packagePath = path.join(pluginPath, 'package.json');
+    if (fs.existsSync(packagePath)) {
+      updateJsonFile<{ version?: string }>(packagePath, packageJson => {
+        packageJson.version = version;
+      });
+      files.push('package.json');
+    }
+
+    const lockPath = path.join(pluginPath, 'package-lock.json');
+    if (fs.existsSync(lockPath)) {
+      updateJsonFile<{ version?: string; packages?: Record<string, { version?: string }> }>(lockPath, lock => {
+        lock.version = version;
+        if (lock.packages?.['']) {
+          lock.packages[''].version = version;
+        }
+      });
+      files.push('package-lock.json');
+    }
+
+    return { previousVersion, version, files };
+  }
+
+  /**
+   * Locate the files a release ships. main.js is looked up in the build output directory.
+   * Throws when a required artifact is missing or empty.
+   */
+  public collectArtifacts(pluginPath: string, outputDir = '.'): ReleaseArtifact[] {
+    const locate = (name: string) => path.resolve(pluginPath, name === 'main.js' ? outputDir : '.', name);
+
+    const missing = REQUIRED_ARTIFACTS.filter(name => {
+      const filePath = locate(name);
+      return !fs.existsSync(filePath) || fs.statSync(filePath).size === 0;
+    });
+    if (missing.length > 0) {
+      throw new Error(`Release artifacts missing or empty: ${missing.join(', ')}`);
+    }
+
+    return [...REQUIRED_ARTIFACTS, ...OPTIONAL_ARTIFACTS]
+      .map(name => ({ name, sourcePath: locate(name) }))
+      .filter(artifact => fs.existsSync(artifact.sourcePath));
+  }
+
+  /**
+   * Copy the artifacts to `<releasesPath>/<id>/<version>/` next to a zip with an `<id>/` folder
+   * and a SHA256SUMS file in `sha256sum -c` format
+   */
+  public writePackage(artifacts: ReleaseArtifact[], releasesPath: string, pluginId: string, version: string): ReleasePackage {
+    const directory = path.join(releasesPath, pluginId, version);
+    if (fs.existsSync(directory)) {
+      throw new Error(`Release directory already exists: ${directory}`);
+    }
+    fs.mkdirSync(directory, { recursive: true });
+
+    const contents = artifacts.map(artifact => ({ name: artifact.name, data: fs.readFileSync(artifact.sourcePath) }));
+    contents.forEach(({ name, data }) => fs.writeFileSync(path.join(directory, name), data));
+
+    const zipName = `${pluginId}-${version}.zip`;
+    const zip = createZip(contents.map(({ name, data }) => ({ name: `${pluginId}/${name}`, data })));
+    fs.writeFileSync(path.join(directory, zipName), zip);
+
+    const checksums: Record<string, string> = {};
+    [...contents, { name: zipName, data: zip }].forEach(({ name, data }) => {
+      checksums[name] = crypto.createHash('sha256').update(data).digest('hex');
+    });
+    const checksumFile = path.join(directory, CHECKSUM_FILE);
+    fs.writeFileSync(checksumFile, Object.entries(checksums).map(([name, hash]) => `${hash}  ${name}\n`).join(''));
+
+    return { directory, zipFile: path.join(directory, zipName), checksumFile, checksums };
+  }
+
+  /**
+   * Commit subjects touching the plugin directory since the plugin's last tag.
+   * Returns null when the plugin is not inside a git repository.
+   */
+  public readGitChanges(pluginPath: string, pluginId: string): GitChanges | null {
+    const git = (args: string[]) => execFileSync('git', args, { cwd: pluginPath, encoding: 'utf8', stdio: 'pipe' }).trim();
+
+    try {
+      git(['rev-parse', '--is-inside-work-tree']);
+    } catch {
+      return null;
+    }
+
+    let tag: string | undefined;
+    try {
+      // Only this plugin's tags; `<id>-[0-9]*` keeps `foo` from matching `foo-bar-1.0.0`
+      tag = git(['describe', '--tags', '--abbrev=0', '--match', ReleaseManager.tagName(pluginId, '[0-9]*')]) || undefined;
+    } catch {
+      // No tags yet: the whole history counts
+    }
+
+    let log = '';
+    try {
+      log = git(['log', '--no-merges', '--pretty=format:%s', ...(tag ? [`${tag}..HEAD`] : []), '--', '.']);
+    } catch {
+      // No commits yet
+    }
+
+    return { tag, subjects: log.split('\n').filter(subject => subject.trim() !== '') };
+  }
+
+  /**
+   * Add a `## [version] - date` section above the previous releases in the plugin's CHANGELOG.md,
+   * creating the file when needed. An `## [Unreleased]` section stays on top.
+   */
+  public appendChangelog(pluginPath: string, version: string, subjects: string[], date: Date = new Date()): string {
+    const changelogPath = path.join(pluginPath, 'CHANGELOG.md');
+    const items = subjects.length > 0 ? subjects.map(subject => `- ${subject}`) : ['- No changes recorded'];
+    const section = `## [${version}] - ${date.toISOString().slice(0, 10)}\n\n${items.join('\n')}\n`;
+
+    const existing = fs.existsSync(changelogPath) ? fs.readFileSync(changelogPath, 'utf8') : CHANGELOG_HEADER;
+    const lines = existing.split('\n');
+    const insertAt = lines.findIndex(line => line.startsWith('## ') && !/^## \[?unreleased\]?/i.test(line));
+
+    let content: string;
+    if (insertAt === -1) {
+      content = `${existing.replace(/\s*$/, '')}\n\n${section}`;
+    } else {
+      content = [...lines.slice(0, insertAt), ...section.split('\n'), ...lines.slice(insertAt)].join('\n');
+    }
+
+    fs.writeFileSync(changelogPath, content);
+    return changelogPath;
+  }
+}
+
+function readJsonFile<T>(filePath: string): T {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`${path.basename(filePath)} not found in ${path.dirname(filePath)}`);
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch (error) {
+    throw new Error(`${path.basename(filePath)} is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Rewrite a JSON file in place, keeping its indentation and trailing newline
+ */
+function updateJsonFile<T>(filePath: string, update: (value: T) => void): void {
+  const original = fs.readFileSync(filePath, 'utf8');
+  const value = readJsonFile<T>(filePath);
+  update(value);
+
+  const indent = /^[{[]\r?\n([ \t]+)/.exec(original)?.[1] ?? 2;
+  const newline = original.endsWith('\n') ? '\n' : '';
+  fs.writeFileSync(filePath, JSON.stringify(value, null, indent) + newline);
+}
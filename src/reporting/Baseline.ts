@@ -0,0 +1,133 @@
+/**
+ * Baseline - Record known findings so only new ones are reported
+ *
+ * Findings are fingerprinted by rule, file and whitespace-normalized source
+ * line rather than line number, so unrelated edits that shift code around
+ * do not resurface historical findings. Identical fingerprints are counted,
+ * and only occurrences beyond the recorded count are considered new.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { Finding } from '../types/index';
+
+export interface BaselineEntry {
+  rule: string;
+  file: string;
+  context: string;
+  count: number;
+}
+
+export interface BaselineData {
+  version: number;
+  generatedAt: string;
+  fingerprints: Record<string, BaselineEntry>;
+}
+
+const BASELINE_VERSION = 1;
+
+export class Baseline {
+  private readonly data: BaselineData;
+
+  private constructor(data: BaselineData) {
+    this.data = data;
+  }
+
+  /**
+   * Create a baseline containing every given finding
+   */
+  public static fromFindings(findings: Finding[]): Baseline {
+    const fingerprints: Record<string, BaselineEntry> = {};
+
+    findings.forEach(finding => {
+      const fingerprint = Baseline.fingerprint(finding);
+      if (fingerprints[fingerprint]) {
+        fingerprints[fingerprint].count++;
+      } else {
+        fingerprints[fingerprint] = {
+          rule: finding.rule,
+          file: finding.file,
+          context: Baseline.normalizeContext(finding.context),
+          count: 1,
+        };
+      }
+    });
+
+    return new Baseline({
+      version: BASELINE_VERSION,
+      generatedAt: new Date().toISOString(),
+      fingerprints,
+    });
+  }
+
+  /**
+   * Load a baseline file written by `save`
+   */
+  public static load(filePath: string): Baseline {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Baseline file not found: ${filePath}`);
+    }
+
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (data?.version !== BASELINE_VERSION || typeof data.fingerprints !== 'object' || data.fingerprints === null) {
+      throw new Error(`Unsupported baseline format in ${filePath} (expected version ${BASELINE_VERSION})`);
+    }
+
+    return new Baseline(data);
+  }
+
+  /**
+   * Compute the stable fingerprint of a finding
+   */
+  public static fingerprint(finding: Finding): string {
+    const key = [
+      finding.rule,
+      finding.file.replace(/\\/g, '/'),
+      Baseline.normalizeContext(finding.context),
+    ].join('\n');
+
+    return crypto.createHash('sha256').update(key).digest('hex').substring(0, 16);
+  }
+
+  /**
+   * Collapse whitespace so formatting-only changes keep the same fingerprint
+   */
+  private static normalizeContext(context: string): string {
+    return context.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Write the baseline to disk
+   */
+  public save(filePath: string): void {
+    fs.writeFileSync(filePath, JSON.stringify(this.data, null, 2));
+  }
+
+  /**
+   * Return the findings that are not covered by this baseline
+   */
+  public filterNew(findings: Finding[]): Finding[] {
+    const remaining = new Map<string, number>();
+    Object.entries(this.data.fingerprints).forEach(([fingerprint, entry]) => {
+      remaining.set(fingerprint, entry.count);
+    });
+
+    return findings.filter(finding => {
+      const fingerprint = Baseline.fingerprint(finding);
+      const available = remaining.get(fingerprint) || 0;
+
+      if (available > 0) {
+        remaining.set(fingerprint, available - 1);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Total number of findings recorded in the baseline
+   */
+  public get size(): number {
+    return Object.values(this.data.fingerprints).reduce((sum, entry) => sum + entry.count, 0);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Findings - Flatten analyzer results into individually addressable findings
+ *
+ * Pattern locations, state accesses and event handler issues all become one
+ * `Finding` each, carrying the rule id, location and the source line it was
+ * reported on. Baselines and report formats build on this shape.
+ */
+
+import {
+  CompatibilityIssue,
+  EventPatternResult,
+  Finding,
+  LifecycleIssue,
+  PatternDetectionResult,
+  StateAnalysisResult,
+} from '../types/index';
+import { Baseline } from './Baseline';
+
+export interface AnalysisResultSet {
+  patterns: PatternDetectionResult[];
+  stateAnalysis: StateAnalysisResult[];
+  eventPatterns: EventPatternResult[];
+  lifecycleIssues?: LifecycleIssue[];
+  compatibilityIssues?: CompatibilityIssue[];
+}
+
+/**
+ * Convert analyzer results into findings.
+ * `sources` maps each analyzed file path to its content and is used to attach code context.
+ */
+export function collectFindings(results: AnalysisResultSet, sources: Map<string, string>): Finding[] {
+  const findings: Finding[] = [];
+  const sourceLines = new Map<string, string[]>();
+
+  const getContext = (file: string, line: number): string => {
+    if (!sourceLines.has(file)) {
+      sourceLines.set(file, (sources.get(file) || '').split('\n'));
+    }
+    return (sourceLines.get(file)![line - 1] || '').trim();
+  };
+
+  results.patterns.forEach(pattern => {
+    pattern.locations.forEach(location => {
+      findings.push({
+        analyzer: 'pattern',
+        rule: pattern.pattern,
+        category: pattern.category,
+        severity: pattern.severity,
+        message: `${pattern.pattern} pattern detected`,
+        file: location.file,
+        line: location.line,
+        column: location.column,
+        endLine: location.endLine,
+        endColumn: location.endColumn,
+        context: getContext(location.file, location.line),
+      });
+    });
+  });
+
+  results.stateAnalysis.forEach(state => {
+    state.locations.forEach(location => {
+      findings.push({
+        analyzer: 'state',
+        rule: `state-${state.type}`,
+        category: 'state',
+        severity: 'low',
+        message: `${state.type} state '${state.variable}' (${state.accessPattern})`,
+        file: location.file,
+        line: location.line,
+        column: 1,
+        context: location.context,
+      });
+    });
+  });
+
+  results.eventPatterns.forEach(event => {
+    event.issues.forEach(issue => {
+      findings.push({
+        analyzer: 'event',
+        rule: issue.rule,
+        category: issue.type,
+        severity: issue.severity,
+        message: `${issue.description} (handler '${event.handler}')`,
+        file: event.location.file,
+        line: event.location.line,
+        column: event.location.column,
+        context: getContext(event.location.file, event.location.line),
+      });
+    });
+  });
+
+  (results.lifecycleIssues || []).forEach(issue => {
+    findings.push({
+      analyzer: 'lifecycle',
+      rule: issue.rule,
+      category: 'lifecycle',
+      severity: issue.severity,
+      message: issue.description,
+      file: issue.location.file,
+      line: issue.location.line,
+      column: issue.location.column,
+      endLine: issue.location.endLine,
+      endColumn: issue.location.endColumn,
+      context: getContext(issue.location.file, issue.location.line),
+    });
+  });
+
+  (results.compatibilityIssues || []).forEach(issue => {
+    findings.push({
+      analyzer: 'compatibility',
+      rule: issue.rule,
+      category: 'compatibility',
+      severity: issue.severity,
+      message: issue.description,
+      file: issue.location.file,
+      line: issue.location.line,
+      column: issue.location.column,
+      endLine: issue.location.endLine,
+      endColumn: issue.location.endColumn,
+      context: getContext(issue.location.file, issue.location.line),
+    });
+  });
+
+  return findings;
+}
+
+/**
+ * Compare two sets of findings by fingerprint, so findings that merely moved
+ * to another line are neither added nor removed
+ */
+export function diffFindings(previous: Finding[], current: Finding[]): { added: Finding[]; removed: Finding[] } {
+  return {
+    added: Baseline.fromFindings(previous).filterNew(current),
+    removed: Baseline.fromFindings(current).filterNew(previous),
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * HtmlReporter - Render analysis results as a single offline HTML file
+ *
+ * Features:
+ * - Summary cards for findings, pattern categories, state and event metrics
+ * - Per-file source views with every finding location highlighted
+ * - Severity and category filters (inline script, no external assets)
+ */
+
+import { Finding } from '../types/index';
+
+export interface HtmlReportInput {
+  title: string;
+  generatedAt: Date;
+  findings: Finding[];
+  /** File path -> source content, for the files findings refer to */
+  sources: Map<string, string>;
+  /** Pattern count per category, as produced by the plugin analyzer */
+  patternSummary: Record<string, number>;
+  stateMetrics: Record<string, number>;
+  eventMetrics: Record<string, number>;
+}
+
+const SEVERITIES: Finding['severity'][] = ['high', 'medium', 'low'];
+
+/**
+ * Render the complete report document
+ */
+export function createHtmlReport(input: HtmlReportInput): string {
+  const files = Array.from(new Set(input.findings.map(finding => finding.file))).sort();
+  const fileIds = new Map(files.map((file, index) => [file, `file-${index}`]));
+  const categories = Array.from(new Set(input.findings.map(finding => finding.category))).sort();
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(input.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(input.title)}</h1>
+  <p class="muted">Generated ${escapeHtml(input.generatedAt.toISOString())} · ${input.findings.length} findings in ${files.length} files</p>
+</header>
+<main>
+  <section class="cards">
+    ${renderSeverityCard(input.findings)}
+    ${renderMetricCard('Pattern categories', input.patternSummary)}
+    ${renderMetricCard('State metrics', input.stateMetrics)}
+    ${renderMetricCard('Event metrics', input.eventMetrics)}
+  </section>
+  <section class="filters">
+    <strong>Severity</strong>
+    ${SEVERITIES.map(severity => `<label><input type="checkbox" data-filter="severity" value="${severity}" checked> ${severity}</label>`).join('\n    ')}
+    <strong>Category</strong>
+    ${categories.map(category => `<label><input type="checkbox" data-filter="category" value="${escapeHtml(category)}" checked> ${escapeHtml(category)}</label>`).join('\n    ')}
+  </section>
+  <section>
+    <h2>Findings</h2>
+    ${renderFindingsTable(input.findings, fileIds)}
+  </section>
+  <section>
+    <h2>Sources</h2>
+    ${files.map(file => renderSourceView(file, fileIds.get(file)!, input.sources.get(file) || '', input.findings)).join('\n')}
+  </section>
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render finding counts per severity
+ */
+function renderSeverityCard(findings: Finding[]): string {
+  const rows = SEVERITIES.map(severity => {
+    const count = findings.filter(finding => finding.severity === severity).length;
+    return `<tr><td><span class="badge sev-${severity}">${severity}</span></td><td>${count}</td></tr>`;
+  });
+
+  return `<div class="card"><h3>Findings by severity</h3><table>${rows.join('')}</table></div>`;
+}
+
+/**
+ * Render a card with one row per metric
+ */
+function renderMetricCard(title: string, metrics: Record<string, number>): string {
+  const entries = Object.entries(metrics);
+  const rows = entries.length > 0
+    ? entries.map(([name, value]) => `<tr><td>${escapeHtml(humanize(name))}</td><td>${value}</td></tr>`).join('')
+    : '<tr><td class="muted">None</td></tr>';
+
+  return `<div class="card"><h3>${escapeHtml(title)}</h3><table>${rows}</table></div>`;
+}
+
+/**
+ * Render the list of findings, linking each to its source line
+ */
+function renderFindingsTable(findings: Finding[], fileIds: Map<string, string>): string {
+  if (findings.length === 0) {
+    return '<p class="muted">No findings.</p>';
+  }
+
+  const rows = findings.map(finding => `<tr class="finding" ${filterAttributes(finding)}>
+      <td><span class="badge sev-${finding.severity}">${finding.severity}</span></td>
+      <td>${escapeHtml(finding.category)}</td>
+      <td><code>${escapeHtml(finding.rule)}</code></td>
+      <td>${escapeHtml(finding.message)}</td>
+      <td><a href="#${fileIds.get(finding.file)}-L${finding.line}">${escapeHtml(finding.file)}:${finding.line}:${finding.column}</a></td>
+    </tr>`);
+
+  return `<table class="findings">
+    <thead><tr><th>Severity</th><th>Category</th><th>Rule</th><th>Message</th><th>Location</th></tr></thead>
+    <tbody>
+    ${rows.join('\n    ')}
+    </tbody>
+  </table>`;
+}
+
+/**
+ * Render a file's source with highlighted finding locations
+ */
+function renderSourceView(file: string, fileId: string, source: string, findings: Finding[]): string {
+  const fileFindings = findings.filter(finding => finding.file === file);
+  const lines = source.split('\n');
+
+  const renderedLines = lines.map((text, index) => {
+    const lineNumber = index + 1;
+    const lineFindings = fileFindings.filter(finding => finding.line === lineNumber);
+    const markers = lineFindings.map(finding =>
+      `<div class="marker finding" ${filterAttributes(finding)}><span class="badge sev-${finding.severity}">${finding.severity}</span> <code>${escapeHtml(finding.rule)}</code> ${escapeHtml(finding.message)}</div>`
+    ).join('');
+
+    return `<div class="line${lineFindings.length > 0 ? ' hit' : ''}" id="${fileId}-L${lineNumber}"><span class="ln">${lineNumber}</span><span class="src">${highlightRanges(text, lineFindings)}</span>${markers}</div>`;
+  });
+
+  return `<details class="source" id="${fileId}" open>
+    <summary>${escapeHtml(file)} <span class="muted">(${fileFindings.length} findings)</span></summary>
+    <pre>${renderedLines.join('')}</pre>
+  </details>`;
+}
+
+/**
+ * Wrap the column ranges of single-line findings in <mark>, skipping overlaps
+ */
+function highlightRanges(text: string, findings: Finding[]): string {
+  const ranges = findings
+    .filter(finding => finding.endColumn && (finding.endLine || finding.line) === finding.line)
+    .map(finding => ({ start: finding.column - 1, end: finding.endColumn! - 1, severity: finding.severity }))
+    .sort((a, b) => a.start - b.start);
+
+  let html = '';
+  let cursor = 0;
+  for (const range of ranges) {
+    if (range.start < cursor || range.end <= range.start) {
+      continue;
+    }
+    html += escapeHtml(text.slice(cursor, range.start));
+    html += `<mark class="sev-${range.severity}">${escapeHtml(text.slice(range.start, range.end))}</mark>`;
+    cursor = range.end;
+  }
+
+  return html + escapeHtml(text.slice(cursor));
+}
+
+/**
+ * Data attributes read by the filter script
+ */
+function filterAttributes(finding: Finding): string {
+  return `data-severity="${finding.severity}" data-category="${escapeHtml(finding.category)}"`;
+}
+
+/**
+ * Turn camelCase metric names into words
+ */
+function humanize(name: string): string {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 0; color: #222; background: #fafafa; }
+header, main { padding: 0 24px; }
+header { background: #2e2a4f; color: #fff; padding: 16px 24px; }
+header .muted { color: #c9c6e8; }
+h1 { margin: 0 0 4px; font-size: 22px; }
+.muted { color: #777; }
+.cards { display: flex; flex-wrap: wrap; gap: 16px; margin: 16px 0; }
+.card { background: #fff; border: 1px solid #ddd; border-radius: 6px; padding: 12px 16px; min-width: 220px; }
+.card h3 { margin: 0 0 8px; font-size: 14px; }
+.card td { padding: 2px 12px 2px 0; }
+.filters { background: #fff; border: 1px solid #ddd; border-radius: 6px; padding: 8px 16px; display: flex; flex-wrap: wrap; gap: 12px; align-items: center; }
+table.findings { border-collapse: collapse; width: 100%; background: #fff; }
+table.findings th, table.findings td { border-bottom: 1px solid #eee; padding: 4px 8px; text-align: left; vertical-align: top; }
+.badge { border-radius: 3px; padding: 0 6px; font-size: 12px; color: #fff; }
+.badge.sev-high { background: #c62828; }
+.badge.sev-medium { background: #ef6c00; }
+.badge.sev-low { background: #607d8b; }
+mark.sev-high { background: #ffcdd2; }
+mark.sev-medium { background: #ffe0b2; }
+mark.sev-low { background: #e0e7eb; }
+details.source { background: #fff; border: 1px solid #ddd; border-radius: 6px; margin-bottom: 16px; }
+details.source summary { cursor: pointer; padding: 8px 12px; font-weight: 600; }
+pre { margin: 0; font-size: 12px; overflow-x: auto; }
+.line { white-space: pre; }
+.line.hit { background: #fff8e1; }
+.line:target { outline: 2px solid #7e57c2; }
+.ln { display: inline-block; width: 48px; padding-right: 8px; text-align: right; color: #999; user-select: none; }
+.marker { white-space: normal; margin: 2px 0 4px 56px; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+.hidden { display: none; }
+`;
+
+const SCRIPT = `
+(function () {
+  var inputs = Array.prototype.slice.call(document.querySelectorAll('input[data-filter]'));
+  function selected(kind) {
+    return inputs.filter(function (input) { return input.dataset.filter === kind && input.checked; })
+      .map(function (input) { return input.value; });
+  }
+  function apply() {
+    var severities = selected('severity');
+    var categories = selected('category');
+    document.querySelectorAll('.finding').forEach(function (el) {
+      var visible = severities.indexOf(el.dataset.severity) !== -1 && categories.indexOf(el.dataset.category) !== -1;
+      el.classList.toggle('hidden', !visible);
+    });
+    document.querySelectorAll('.line.hit').forEach(function (line) {
+      var shown = line.querySelectorAll('.marker:not(.hidden)').length > 0;
+      line.style.background = shown ? '' : 'transparent';
+    });
+  }
+  inputs.forEach(function (input) { input.addEventListener('change', apply); });
+})();
+`;
@@ -0,0 +1,96 @@
+/**
+ * QualityGates - Evaluate configured thresholds against analysis results
+ *
+ * Features:
+ * - High-severity event issue and memory leak risk limits
+ * - Minimum documentation coverage
+ * - Banned rules that must not report any finding, whatever their pattern confidence
+ * - One-line-per-gate failure summary for CI logs
+ */
+
+import { Finding, PatternDetectionResult, QualityGateConfig, QualityGateResult } from '../types/index';
+
+export interface QualityGateInput {
+  findings?: Finding[];
+  memoryLeakRisk?: number;
+  /** Average documentation coverage, in percent */
+  docCoverage?: number;
+}
+
+/**
+ * Evaluate every configured gate that the input has data for
+ */
+export function evaluateQualityGates(gates: QualityGateConfig, input: QualityGateInput): QualityGateResult[] {
+  const results: QualityGateResult[] = [];
+  const findings = input.findings;
+
+  if (gates.maxHighSeverityEventIssues !== undefined && findings) {
+    const actual = findings.filter(finding => finding.analyzer === 'event' && finding.severity === 'high').length;
+    results.push({
+      gate: 'maxHighSeverityEventIssues',
+      passed: actual <= gates.maxHighSeverityEventIssues,
+      actual,
+      limit: gates.maxHighSeverityEventIssues,
+      message: `${actual} high-severity event issue(s), at most ${gates.maxHighSeverityEventIssues} allowed`,
+    });
+  }
+
+  if (gates.maxMemoryLeakRisk !== undefined && input.memoryLeakRisk !== undefined) {
+    results.push({
+      gate: 'maxMemoryLeakRisk',
+      passed: input.memoryLeakRisk <= gates.maxMemoryLeakRisk,
+      actual: input.memoryLeakRisk,
+      limit: gates.maxMemoryLeakRisk,
+      message: `Memory leak risk ${input.memoryLeakRisk}, at most ${gates.maxMemoryLeakRisk} allowed`,
+    });
+  }
+
+  if (gates.minDocCoverage !== undefined && input.docCoverage !== undefined) {
+    results.push({
+      gate: 'minDocCoverage',
+      passed: input.docCoverage >= gates.minDocCoverage,
+      actual: input.docCoverage,
+      limit: gates.minDocCoverage,
+      message: `Documentation coverage ${input.docCoverage.toFixed(1)}%, at least ${gates.minDocCoverage}% required`,
+    });
+  }
+
+  if (gates.bannedRules && gates.bannedRules.length > 0 && findings) {
+    const banned = findings.filter(finding => gates.bannedRules!.includes(finding.rule));
+    const locations = banned.slice(0, 3).map(finding => `${finding.rule} at ${finding.file}:${finding.line}`);
+    const more = banned.length > locations.length ? `, +${banned.length - locations.length} more` : '';
+    results.push({
+      gate: 'bannedRules',
+      passed: banned.length === 0,
+      actual: banned.length,
+      limit: 0,
+      message: banned.length === 0
+        ? 'No findings from banned rules'
+        : `${banned.length} finding(s) from banned rules (${locations.join(', ')}${more})`,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Drop patterns below the confidence threshold, keeping every pattern from a banned rule.
+ * Confidence is match density, so the same banned call would otherwise pass in a longer file.
+ */
+export function applyConfidenceThreshold(
+  patterns: PatternDetectionResult[],
+  threshold: number,
+  gates: QualityGateConfig = {}
+): PatternDetectionResult[] {
+  const bannedRules = gates.bannedRules || [];
+  return patterns.filter(pattern => pattern.confidence >= threshold || bannedRules.includes(pattern.pattern));
+}
+
+/**
+ * Format gate results as console lines, failures first
+ */
+export function formatQualityGateSummary(results: QualityGateResult[]): string[] {
+  return [...results]
+    .sort((a, b) => Number(a.passed) - Number(b.passed))
+    .map(result => `  ${result.passed ? '✅' : '❌'} ${result.gate}: ${result.message}`);
+}
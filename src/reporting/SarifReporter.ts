@@ -0,0 +1,154 @@
+/**
+ * SarifReporter - Convert analyzer findings into SARIF 2.1.0 logs
+ *
+ * Each analyzer script contributes one run with its rule metadata. Paths are
+ * emitted relative to a `%SRCROOT%` base so code-review tooling can map
+ * results onto the files in a diff.
+ */
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { RuleMetadata } from '../types/index';
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+export interface SarifResultInput {
+  rule: string;
+  severity: RuleMetadata['severity'];
+  message: string;
+  file: string;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  context?: string;
+  fingerprint?: string;
+}
+
+export interface SarifRunInput {
+  toolName: string;
+  toolVersion?: string;
+  /** Directory the result file paths are relative to */
+  rootPath: string;
+  rules: RuleMetadata[];
+  results: SarifResultInput[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: any[];
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SRCROOT = '%SRCROOT%';
+
+/**
+ * Map workshop severities onto SARIF levels
+ */
+export function toSarifLevel(severity: RuleMetadata['severity']): SarifLevel {
+  switch (severity) {
+    case 'high':
+      return 'error';
+    case 'medium':
+      return 'warning';
+    default:
+      return 'note';
+  }
+}
+
+/**
+ * Build a SARIF log from one or more runs
+ */
+export function createSarifLog(runs: SarifRunInput[]): SarifLog {
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: runs.map(createSarifRun),
+  };
+}
+
+/**
+ * Build a single SARIF run
+ */
+function createSarifRun(run: SarifRunInput): any {
+  // Results may reference rules that are not described up front (e.g. custom rules)
+  const rules = [...run.rules];
+  run.results.forEach(result => {
+    if (!rules.some(rule => rule.id === result.rule)) {
+      rules.push({ id: result.rule, category: 'custom', severity: result.severity, description: result.rule });
+    }
+  });
+  const ruleIndex = new Map(rules.map((rule, index) => [rule.id, index]));
+
+  const rootUri = pathToFileURL(path.resolve(run.rootPath)).href;
+
+  return {
+    tool: {
+      driver: {
+        name: run.toolName,
+        ...(run.toolVersion ? { version: run.toolVersion } : {}),
+        rules: rules.map(rule => ({
+          id: rule.id,
+          name: toRuleName(rule.id),
+          shortDescription: { text: rule.description },
+          defaultConfiguration: { level: toSarifLevel(rule.severity) },
+          properties: { category: rule.category },
+        })),
+      },
+    },
+    originalUriBaseIds: {
+      [SRCROOT]: { uri: rootUri.endsWith('/') ? rootUri : `${rootUri}/` },
+    },
+    results: run.results.map(result => createSarifResult(result, ruleIndex.get(result.rule)!)),
+  };
+}
+
+/**
+ * Build a single SARIF result
+ */
+function createSarifResult(result: SarifResultInput, ruleIndex: number): any {
+  const physicalLocation: any = {
+    artifactLocation: {
+      uri: result.file.split(path.sep).join('/'),
+      uriBaseId: SRCROOT,
+    },
+  };
+
+  if (result.line && result.line > 0) {
+    physicalLocation.region = {
+      startLine: result.line,
+      ...(result.column ? { startColumn: result.column } : {}),
+      ...(result.endLine ? { endLine: result.endLine } : {}),
+      ...(result.endColumn ? { endColumn: result.endColumn } : {}),
+    };
+
+    // The full source line, for viewers that show surrounding code
+    if (result.context) {
+      physicalLocation.contextRegion = {
+        startLine: result.line,
+        snippet: { text: result.context },
+      };
+    }
+  }
+
+  return {
+    ruleId: result.rule,
+    ruleIndex,
+    level: toSarifLevel(result.severity),
+    message: { text: result.message },
+    locations: [{ physicalLocation }],
+    ...(result.fingerprint ? { partialFingerprints: { 'workshopFinding/v1': result.fingerprint } } : {}),
+  };
+}
+
+/**
+ * Convert a kebab-case rule id into the PascalCase name SARIF viewers display
+ */
+function toRuleName(id: string): string {
+  return id
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+}
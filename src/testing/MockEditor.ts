@@ -0,0 +1,650 @@
+/**
+ * MockEditor - Obsidian's Editor over an in-memory document, with CodeMirror's selection semantics
+ *
+ * Features:
+ * - Multiple selections kept sorted and merged when they overlap, with a main selection for getCursor
+ * - getLine/setLine, getRange/replaceRange, replaceSelection (per selection), processLines and wordAt
+ * - `transaction` applies all changes against the original document at once, as one undo step
+ * - Undo/redo history of document and selections; `clearHistory` when a file is (re)loaded
+ * - Positions are clipped to the document; cursors at an insertion point stay before inserted text
+ * - `exec` for the movement and line commands of EditorCommandName (folding is a no-op)
+ * - `|` cursor-marker strings (`{text|}` for selections) to set up and assert editor state
+ */
+
+export interface EditorPosition {
+  line: number;
+  ch: number;
+}
+
+export interface EditorSelection {
+  anchor: EditorPosition;
+  head: EditorPosition;
+}
+
+export interface EditorRange {
+  from: EditorPosition;
+  to: EditorPosition;
+}
+
+export interface EditorChange {
+  from: EditorPosition;
+  to?: EditorPosition;
+  text: string;
+}
+
+export interface EditorTransaction {
+  replaceSelection?: string;
+  changes?: EditorChange[];
+  /** Selections after the change, in positions of the new document */
+  selections?: Array<{ from: EditorPosition; to?: EditorPosition }>;
+  selection?: { from: EditorPosition; to?: EditorPosition };
+}
+
+/**
+ * Selection as document offsets
+ */
+interface Range {
+  anchor: number;
+  head: number;
+}
+
+interface OffsetChange {
+  from: number;
+  to: number;
+  text: string;
+}
+
+interface HistoryEntry {
+  doc: string;
+  selections: Range[];
+  main: number;
+}
+
+const WORD = /[\p{L}\p{N}_]/u;
+
+export class MockEditor {
+  private doc: string;
+  private ranges: Range[] = [{ anchor: 0, head: 0 }];
+  private main = 0;
+  private undoStack: Array<{ before: HistoryEntry; after: HistoryEntry }> = [];
+  private redoStack: Array<{ before: HistoryEntry; after: HistoryEntry }> = [];
+  private focused = false;
+
+  constructor(content = '') {
+    this.doc = content;
+  }
+
+  /**
+   * Build an editor from a cursor-marker string, e.g. `hello |world` or `{hello|} world`
+   */
+  static fromMarked(marked: string): MockEditor {
+    const editor = new MockEditor();
+    editor.setMarked(marked);
+    editor.clearHistory();
+    return editor;
+  }
+
+  /**
+   * Set the document and selections from a cursor-marker string (cursor at the start without markers)
+   */
+  setMarked(marked: string): void {
+    const { text, selections } = parseCursorMarkers(marked);
+    this.setValue(text);
+    if (selections.length > 0) {
+      this.setSelections(selections);
+    }
+  }
+
+  getDoc(): this {
+    return this;
+  }
+
+  refresh(): void {
+    // Nothing to render
+  }
+
+  getValue(): string {
+    return this.doc;
+  }
+
+  /**
+   * Replace the whole document (undoable) and put the cursor at the start
+   */
+  setValue(content: string): void {
+    this.apply([{ from: 0, to: this.doc.length, text: content }], [{ anchor: 0, head: 0 }], 0);
+  }
+
+  getLine(line: number): string {
+    return this.lines()[line] ?? '';
+  }
+
+  setLine(n: number, text: string): void {
+    this.replaceRange(text, { line: n, ch: 0 }, { line: n, ch: this.getLine(n).length });
+  }
+
+  lineCount(): number {
+    return this.lines().length;
+  }
+
+  lastLine(): number {
+    return this.lineCount() - 1;
+  }
+
+  getRange(from: EditorPosition, to: EditorPosition): string {
+    const [start, end] = sorted(this.posToOffset(from), this.posToOffset(to));
+    return this.doc.slice(start, end);
+  }
+
+  replaceRange(replacement: string, from: EditorPosition, to: EditorPosition = from, _origin?: string): void {
+    const [start, end] = sorted(this.posToOffset(from), this.posToOffset(to));
+    this.apply([{ from: start, to: end, text: replacement }]);
+  }
+
+  /**
+   * Selected text of every selection, joined with newlines
+   */
+  getSelection(): string {
+    return this.ranges.map(range => this.doc.slice(...sorted(range.anchor, range.head))).join('\n');
+  }
+
+  somethingSelected(): boolean {
+    return this.ranges.some(range => range.anchor !== range.head);
+  }
+
+  /**
+   * Replace every selection with the text, leaving a cursor after each insertion
+   */
+  replaceSelection(replacement: string, _origin?: string): void {
+    this.transaction({ replaceSelection: replacement });
+  }
+
+  getCursor(which: 'from' | 'to' | 'head' | 'anchor' = 'head'): EditorPosition {
+    const range = this.ranges[this.main];
+    const [from, to] = sorted(range.anchor, range.head);
+    const offsets = { from, to, head: range.head, anchor: range.anchor };
+    return this.offsetToPos(offsets[which]);
+  }
+
+  listSelections(): EditorSelection[] {
+    return this.ranges.map(range => ({ anchor: this.offsetToPos(range.anchor), head: this.offsetToPos(range.head) }));
+  }
+
+  setCursor(pos: EditorPosition | number, ch?: number): void {
+    const position = typeof pos === 'number' ? { line: pos, ch: ch ?? 0 } : pos;
+    this.setSelection(position, position);
+  }
+
+  setSelection(anchor: EditorPosition, head: EditorPosition = anchor): void {
+    this.setSelections([{ anchor, head }]);
+  }
+
+  /**
+   * Replace all selections; `main` (default 0) picks the one getCursor reports
+   */
+  setSelections(ranges: Array<{ anchor: EditorPosition; head?: EditorPosition }>, main = 0): void {
+    if (ranges.length === 0) {
+      throw new Error('setSelections needs at least one range');
+    }
+    this.setRanges(
+      ranges.map(range => ({ anchor: this.posToOffset(range.anchor), head: this.posToOffset(range.head ?? range.anchor) })),
+      main
+    );
+  }
+
+  focus(): void {
+    this.focused = true;
+  }
+
+  blur(): void {
+    this.focused = false;
+  }
+
+  hasFocus(): boolean {
+    return this.focused;
+  }
+
+  getScrollInfo(): { top: number; left: number } {
+    return { top: 0, left: 0 };
+  }
+
+  scrollTo(_x?: number | null, _y?: number | null): void {
+    // Nothing to scroll
+  }
+
+  scrollIntoView(_range: EditorRange, _center?: boolean): void {
+    // Nothing to scroll
+  }
+
+  undo(): void {
+    const entry = this.undoStack.pop();
+    if (entry) {
+      this.redoStack.push(entry);
+      this.restore(entry.before);
+    }
+  }
+
+  redo(): void {
+    const entry = this.redoStack.pop();
+    if (entry) {
+      this.undoStack.push(entry);
+      this.restore(entry.after);
+    }
+  }
+
+  /**
+   * Forget undo history, as loading a file into the editor does
+   */
+  clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  historySize(): { undo: number; redo: number } {
+    return { undo: this.undoStack.length, redo: this.redoStack.length };
+  }
+
+  /**
+   * Apply changes (positions in the current document, applied together), a replacement for every
+   * selection, and/or new selections (positions in the resulting document) as one undo step
+   */
+  transaction(tx: EditorTransaction, _origin?: string): void {
+    const changes: OffsetChange[] = (tx.changes || []).map(change => {
+      const [from, to] = sorted(this.posToOffset(change.from), this.posToOffset(change.to ?? change.from));
+      return { from, to, text: change.text };
+    });
+    if (tx.replaceSelection !== undefined) {
+      const text = tx.replaceSelection;
+      this.ranges.forEach(range => {
+        const [from, to] = sorted(range.anchor, range.head);
+        changes.push({ from, to, text });
+      });
+    }
+
+    const ordered = this.checkChanges(changes);
+    let selections: Range[] | undefined;
+    if (tx.replaceSelection !== undefined) {
+      // A cursor after each replacement
+      selections = this.ranges.map(range => {
+        const end = mapOffset(Math.max(range.anchor, range.head), ordered, 1);
+        return { anchor: end, head: end };
+      });
+    }
+
+    const recorded = this.apply(ordered, selections);
+    const requested = tx.selections || (tx.selection ? [tx.selection] : undefined);
+    if (requested) {
+      this.setRanges(
+        requested.map(range => ({ anchor: this.posToOffset(range.from), head: this.posToOffset(range.to ?? range.from) })),
+        0
+      );
+      this.updateLastStep(recorded);
+    }
+  }
+
+  /**
+   * Word (letters, digits and underscores) around a position, or null outside a word
+   */
+  wordAt(pos: EditorPosition): EditorRange | null {
+    const line = this.getLine(pos.line);
+    let start = Math.min(pos.ch, line.length);
+    let end = start;
+    while (start > 0 && WORD.test(line[start - 1])) start--;
+    while (end < line.length && WORD.test(line[end])) end++;
+    return start === end ? null : { from: { line: pos.line, ch: start }, to: { line: pos.line, ch: end } };
+  }
+
+  /**
+   * Read every line, then apply the changes `write` returns as one transaction.
+   * With `ignoreEmpty`, lines for which `read` returned null are not passed to `write`.
+   */
+  processLines<T>(
+    read: (line: number, lineText: string) => T | null,
+    write: (line: number, lineText: string, value: T | null) => EditorChange | void,
+    ignoreEmpty = false
+  ): void {
+    const lines = this.lines();
+    const values = lines.map((text, line) => read(line, text));
+    const changes: EditorChange[] = [];
+    lines.forEach((text, line) => {
+      if (ignoreEmpty && values[line] === null) {
+        return;
+      }
+      const change = write(line, text, values[line]);
+      if (change) {
+        changes.push(change);
+      }
+    });
+    if (changes.length > 0) {
+      this.transaction({ changes });
+    }
+  }
+
+  exec(command: string): void {
+    const lines = this.lines();
+    const moveEach = (move: (range: Range) => number) => this.setRanges(this.ranges.map(range => ({ anchor: move(range), head: move(range) })), this.main);
+    const vertical = (delta: number) => (range: Range) => {
+      const pos = this.offsetToPos(range.head);
+      return this.posToOffset({ line: pos.line + delta, ch: pos.ch });
+    };
+
+    switch (command) {
+      case 'goLeft':
+        return moveEach(range => (range.anchor !== range.head ? Math.min(range.anchor, range.head) : Math.max(0, range.head - 1)));
+      case 'goRight':
+        return moveEach(range => (range.anchor !== range.head ? Math.max(range.anchor, range.head) : Math.min(this.doc.length, range.head + 1)));
+      case 'goUp':
+        return moveEach(vertical(-1));
+      case 'goDown':
+        return moveEach(vertical(1));
+      case 'goStart':
+        return this.setRanges([{ anchor: 0, head: 0 }], 0);
+      case 'goEnd':
+        return this.setRanges([{ anchor: this.doc.length, head: this.doc.length }], 0);
+      case 'goWordLeft':
+        return moveEach(range => wordBoundary(this.doc, range.head, -1));
+      case 'goWordRight':
+        return moveEach(range => wordBoundary(this.doc, range.head, 1));
+      case 'indentMore':
+      case 'indentLess':
+        return this.transaction({
+          changes: this.selectedLines().map(line => {
+            const indent = command === 'indentMore' ? '' : /^(\t| {1,4})?/.exec(lines[line])![0];
+            return { from: { line, ch: 0 }, to: { line, ch: indent.length }, text: command === 'indentMore' ? '\t' : '' };
+          }),
+        });
+      case 'newlineAndIndent':
+        return this.replaceSelection(`\n${/^\s*/.exec(this.getLine(this.getCursor().line))![0]}`);
+      case 'deleteLine':
+        return this.deleteLines(this.selectedLines());
+      case 'swapLineUp':
+      case 'swapLineDown':
+        return this.swapLines(command === 'swapLineUp' ? -1 : 1);
+      case 'toggleFold':
+      case 'foldAll':
+      case 'unfoldAll':
+        return;
+      default:
+        throw new Error(`Unknown editor command: ${command}`);
+    }
+  }
+
+  /**
+   * Offset of a position, clipped to the document
+   */
+  posToOffset(pos: EditorPosition): number {
+    const lines = this.lines();
+    const line = Math.max(0, Math.min(pos.line, lines.length - 1));
+    const offset = lines.slice(0, line).reduce((sum, text) => sum + text.length + 1, 0);
+    return offset + Math.max(0, Math.min(pos.ch, lines[line].length));
+  }
+
+  offsetToPos(offset: number): EditorPosition {
+    return positionAt(this.doc, offset);
+  }
+
+  /**
+   * The document with a `|` at every cursor and `{…|}`/`{|…}` around selections
+   */
+  toMarked(): string {
+    return formatCursorMarkers(this.doc, this.listSelections().map(selection => ({
+      anchor: this.posToOffset(selection.anchor),
+      head: this.posToOffset(selection.head),
+    })));
+  }
+
+  private lines(): string[] {
+    return this.doc.split('\n');
+  }
+
+  /**
+   * Apply non-overlapping changes sorted by position, map (or replace) the selections and record
+   * one undo step. Changes that leave the document as it was are not recorded; returns whether it was.
+   */
+  private apply(changes: OffsetChange[], selections?: Range[], main = this.main): boolean {
+    const before = this.snapshot();
+    const ordered = this.checkChanges(changes);
+
+    let doc = '';
+    let position = 0;
+    ordered.forEach(change => {
+      doc += this.doc.slice(position, change.from) + change.text;
+      position = change.to;
+    });
+    doc += this.doc.slice(position);
+
+    const mapped = selections || this.ranges.map(range => {
+      if (range.anchor === range.head) {
+        const offset = mapOffset(range.head, ordered, -1);
+        return { anchor: offset, head: offset };
+      }
+      const forward = range.anchor < range.head;
+      const from = mapOffset(Math.min(range.anchor, range.head), ordered, 1);
+      const to = Math.max(from, mapOffset(Math.max(range.anchor, range.head), ordered, -1));
+      return forward ? { anchor: from, head: to } : { anchor: to, head: from };
+    });
+
+    this.doc = doc;
+    this.setRanges(mapped, main);
+    if (doc === before.doc) {
+      return false;
+    }
+    this.undoStack.push({ before, after: this.snapshot() });
+    this.redoStack = [];
+    return true;
+  }
+
+  /**
+   * Selections set right after an edit belong to its undo step
+   */
+  private updateLastStep(recorded: boolean): void {
+    if (recorded) {
+      this.undoStack[this.undoStack.length - 1].after = this.snapshot();
+    }
+  }
+
+  private checkChanges(changes: OffsetChange[]): OffsetChange[] {
+    const ordered = [...changes].sort((a, b) => a.from - b.from || a.to - b.to);
+    ordered.forEach((change, index) => {
+      if (index > 0 && change.from < ordered[index - 1].to) {
+        throw new Error('Overlapping changes in one transaction');
+      }
+    });
+    return ordered;
+  }
+
+  /**
+   * Sort selections by position and merge overlapping ones, keeping track of the main selection
+   */
+  private setRanges(ranges: Range[], main: number): void {
+    const clip = (offset: number) => Math.max(0, Math.min(offset, this.doc.length));
+    const tagged = ranges.map((range, index) => ({ anchor: clip(range.anchor), head: clip(range.head), main: index === main }));
+    tagged.sort((a, b) => Math.min(a.anchor, a.head) - Math.min(b.anchor, b.head));
+
+    const merged: typeof tagged = [];
+    tagged.forEach(range => {
+      const last = merged[merged.length - 1];
+      const [from, to] = sorted(range.anchor, range.head);
+      if (last) {
+        const [lastFrom, lastTo] = sorted(last.anchor, last.head);
+        // Overlapping ranges merge, and so do cursors at the same spot
+        if (from < lastTo || (from === lastTo && (from === to || lastFrom === lastTo))) {
+          const forward = last.anchor <= last.head;
+          const end = Math.max(lastTo, to);
+          merged[merged.length - 1] = forward
+            ? { anchor: lastFrom, head: end, main: last.main || range.main }
+            : { anchor: end, head: lastFrom, main: last.main || range.main };
+          return;
+        }
+      }
+      merged.push(range);
+    });
+
+    this.ranges = merged.map(({ anchor, head }) => ({ anchor, head }));
+    this.main = Math.max(0, merged.findIndex(range => range.main));
+  }
+
+  private snapshot(): HistoryEntry {
+    return { doc: this.doc, selections: this.ranges.map(range => ({ ...range })), main: this.main };
+  }
+
+  private restore(entry: HistoryEntry): void {
+    this.doc = entry.doc;
+    this.ranges = entry.selections.map(range => ({ ...range }));
+    this.main = entry.main;
+  }
+
+  /**
+   * Lines touched by any selection, without duplicates
+   */
+  private selectedLines(): number[] {
+    const lines = new Set<number>();
+    this.ranges.forEach(range => {
+      const [from, to] = sorted(range.anchor, range.head);
+      for (let line = this.offsetToPos(from).line; line <= this.offsetToPos(to).line; line++) {
+        lines.add(line);
+      }
+    });
+    return Array.from(lines).sort((a, b) => a - b);
+  }
+
+  private deleteLines(lines: number[]): void {
+    const all = this.lines();
+    const kept = all.filter((_text, line) => !lines.includes(line));
+    const cursorLine = Math.min(lines[0], Math.max(0, kept.length - 1));
+    const recorded = this.apply([{ from: 0, to: this.doc.length, text: kept.join('\n') }], [{ anchor: 0, head: 0 }], 0);
+    this.setCursor({ line: cursorLine, ch: 0 });
+    this.updateLastStep(recorded);
+  }
+
+  private swapLines(direction: -1 | 1): void {
+    const lines = this.selectedLines();
+    const first = lines[0];
+    const last = lines[lines.length - 1];
+    const neighbour = direction === -1 ? first - 1 : last + 1;
+    if (neighbour < 0 || neighbour >= this.lineCount()) {
+      return;
+    }
+
+    const all = this.lines();
+    const block = all.slice(first, last + 1);
+    const reordered = [...all];
+    if (direction === -1) {
+      reordered.splice(neighbour, block.length + 1, ...block, all[neighbour]);
+    } else {
+      reordered.splice(first, block.length + 1, all[neighbour], ...block);
+    }
+
+    const selections = this.listSelections().map(selection => ({
+      anchor: { line: selection.anchor.line + direction, ch: selection.anchor.ch },
+      head: { line: selection.head.line + direction, ch: selection.head.ch },
+    }));
+    const recorded = this.apply([{ from: 0, to: this.doc.length, text: reordered.join('\n') }]);
+    this.setSelections(selections, this.main);
+    this.updateLastStep(recorded);
+  }
+}
+
+/**
+ * Parse a cursor-marker string: `|` is a cursor, `{text|}` a selection with the head at the end and
+ * `{|text}` one with the head at the start. `\|`, `\{` and `\}` stand for literal characters.
+ */
+export function parseCursorMarkers(marked: string): { text: string; selections: EditorSelection[] } {
+  let text = '';
+  const offsets: Range[] = [];
+  let open: number | null = null;
+  let head: number | null = null;
+
+  for (let i = 0; i < marked.length; i++) {
+    const char = marked[i];
+    if (char === '\\' && '|{}\\'.includes(marked[i + 1] ?? '')) {
+      text += marked[++i];
+    } else if (char === '{') {
+      if (open !== null) {
+        throw new Error(`Nested selection at ${i} in cursor-marker string`);
+      }
+      open = text.length;
+      head = null;
+    } else if (char === '}') {
+      if (open === null || head === null) {
+        throw new Error(`Selection closed at ${i} without an opening { and a | for its head`);
+      }
+      offsets.push(head === open ? { anchor: text.length, head: open } : { anchor: open, head: text.length });
+      open = null;
+    } else if (char === '|') {
+      if (open !== null) {
+        head = text.length;
+      } else {
+        offsets.push({ anchor: text.length, head: text.length });
+      }
+    } else {
+      text += char;
+    }
+  }
+  if (open !== null) {
+    throw new Error('Unclosed { in cursor-marker string');
+  }
+
+  return {
+    text,
+    selections: offsets.map(range => ({ anchor: positionAt(text, range.anchor), head: positionAt(text, range.head) })),
+  };
+}
+
+function formatCursorMarkers(text: string, ranges: Range[]): string {
+  const escape = (value: string) => value.replace(/[\\|{}]/g, match => `\\${match}`);
+  let marked = '';
+  let position = 0;
+  [...ranges].sort((a, b) => Math.min(a.anchor, a.head) - Math.min(b.anchor, b.head)).forEach(range => {
+    const [from, to] = sorted(range.anchor, range.head);
+    marked += escape(text.slice(position, from));
+    if (from === to) {
+      marked += '|';
+    } else {
+      const selected = escape(text.slice(from, to));
+      marked += range.head === from ? `{|${selected}}` : `{${selected}|}`;
+    }
+    position = to;
+  });
+  return marked + escape(text.slice(position));
+}
+
+/**
+ * Where an offset ends up after changes; `assoc` decides whether a position at an insertion point
+ * or inside a replaced range lands before (-1) or after (1) the new text
+ */
+function mapOffset(offset: number, changes: OffsetChange[], assoc: -1 | 1): number {
+  let delta = 0;
+  for (const change of changes) {
+    if (offset < change.from || (offset === change.from && change.from < change.to)) {
+      break;
+    }
+    if (offset > change.to) {
+      delta += change.text.length - (change.to - change.from);
+      continue;
+    }
+    if (offset === change.to && change.from < change.to) {
+      return change.from + delta + change.text.length;
+    }
+    return change.from + delta + (assoc < 0 ? 0 : change.text.length);
+  }
+  return offset + delta;
+}
+
+function wordBoundary(doc: string, offset: number, direction: -1 | 1): number {
+  let position = offset;
+  const at = (index: number) => doc[direction < 0 ? index - 1 : index] ?? '';
+  const inRange = () => (direction < 0 ? position > 0 : position < doc.length);
+  while (inRange() && !WORD.test(at(position))) position += direction;
+  while (inRange() && WORD.test(at(position))) position += direction;
+  return position;
+}
+
+function positionAt(doc: string, offset: number): EditorPosition {
+  const clipped = Math.max(0, Math.min(offset, doc.length));
+  const before = doc.slice(0, clipped);
+  return { line: before.split('\n').length - 1, ch: clipped - (before.lastIndexOf('\n') + 1) };
+}
+
+function sorted(a: number, b: number): [number, number] {
+  return a <= b ? [a, b] : [b, a];
+}
@@ -0,0 +1,70 @@
+/**
+ * MockEvents - The on/off/offref/trigger contract of Obsidian's Events class
+ *
+ * Features:
+ * - `on` returns an EventRef that `offref` (or a plugin's `registerEvent`) detaches
+ * - Handlers run synchronously in registration order, bound to their `ctx`
+ * - A throwing handler does not stop the others; unlike Obsidian, which only logs it, `trigger`
+ *   rethrows the first error once every handler has run, so a failing expect() fails the test
+ */
+
+import { EventRef } from 'obsidian';
+
+export interface MockEventRef extends EventRef {
+  name: string;
+  callback: (...data: any[]) => any;
+  ctx?: any;
+  /** Source the ref was registered on, so Plugin.registerEvent can detach it */
+  events: MockEvents;
+}
+
+export class MockEvents {
+  private handlers: Map<string, MockEventRef[]> = new Map();
+
+  on(name: string, callback: (...data: any[]) => any, ctx?: any): EventRef {
+    const ref: MockEventRef = { name, callback, ctx, events: this };
+    this.handlers.set(name, [...(this.handlers.get(name) || []), ref]);
+    return ref;
+  }
+
+  off(name: string, callback: (...data: any[]) => any): void {
+    this.handlers.set(name, (this.handlers.get(name) || []).filter(ref => ref.callback !== callback));
+  }
+
+  offref(ref: EventRef): void {
+    const { name } = ref as MockEventRef;
+    this.handlers.set(name, (this.handlers.get(name) || []).filter(candidate => candidate !== ref));
+  }
+
+  trigger(name: string, ...data: unknown[]): void {
+    const errors: unknown[] = [];
+
+    // Copy first: handlers may register or detach others while running
+    [...(this.handlers.get(name) || [])].forEach(ref => {
+      try {
+        this.tryTrigger(ref, data);
+      } catch (error) {
+        errors.push(error);
+      }
+    });
+
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  }
+
+  /**
+   * Run one handler. Errors propagate to `trigger`, which runs the remaining handlers first.
+   */
+  tryTrigger(ref: EventRef, data: unknown[]): void {
+    const { callback, ctx } = ref as MockEventRef;
+    callback.apply(ctx, data);
+  }
+
+  /**
+   * Number of handlers listening for an event, to assert that plugins clean up after themselves
+   */
+  listenerCount(name: string): number {
+    return (this.handlers.get(name) || []).length;
+  }
+}
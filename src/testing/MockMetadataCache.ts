@@ -0,0 +1,444 @@
+/**
+ * MockMetadataCache - Parse MockVault markdown into CachedMetadata and track links between files
+ *
+ * Features:
+ * - Frontmatter (js-yaml) with its position and frontmatter wikilinks
+ * - Headings, links, embeds, tags, `^block` ids and sections, each with line/col/offset positions;
+ *   nothing is picked up inside code blocks, inline code, math or comments
+ * - `resolvedLinks`/`unresolvedLinks` kept up to date as files are created, modified, renamed and deleted
+ * - `getFirstLinkpathDest` and `fileToLinktext` with Obsidian's shortest-path link resolution
+ * - `changed`, `deleted`, `resolve` and `resolved` events, fired before the vault write resolves
+ */
+
+import * as yaml from 'js-yaml';
+import {
+  BlockCache,
+  CachedMetadata,
+  FrontmatterLinkCache,
+  HeadingCache,
+  LinkCache,
+  Loc,
+  Pos,
+  SectionCache,
+  TagCache,
+} from 'obsidian';
+import { MockEvents } from './MockEvents';
+import { TAbstractFile, TFile } from './MockObsidian';
+import { MockVault } from './MockVault';
+
+const WIKILINK = /(!?)\[\[([^[\]]+?)\]\]/g;
+const MARKDOWN_LINK = /(!?)\[([^[\]]*)\]\((<[^>]+>|[^)\s]+)(?:\s+"[^"]*")?\)/g;
+const TAG = /(^|\s)#([^\s!"#$%&'()*+,.:;<=>?@[\\\]^`{|}~]+)/g;
+const BLOCK_ID = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^\s*>/;
+const CALLOUT = /^\s*>\s*\[!/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)+\|?\s*$/;
+const HTML = /^\s*<[a-zA-Z!/]/;
+
+export class MockMetadataCache extends MockEvents {
+  public resolvedLinks: Record<string, Record<string, number>> = {};
+  public unresolvedLinks: Record<string, Record<string, number>> = {};
+  private vault: MockVault;
+  private caches: Map<string, CachedMetadata> = new Map();
+
+  constructor(vault: MockVault) {
+    super();
+    this.vault = vault;
+
+    // The initial vault is indexed silently, like the files themselves
+    vault.getMarkdownFiles().forEach(file => this.caches.set(file.path, parseMarkdown(vault.readSync(file))));
+    this.resolveLinks();
+
+    vault.on('create', (file: TAbstractFile) => this.onChange(file));
+    vault.on('modify', (file: TAbstractFile) => this.onChange(file));
+    vault.on('delete', (file: TAbstractFile) => this.onDelete(file));
+    vault.on('rename', (file: TAbstractFile, oldPath: string) => this.onRename(file, oldPath));
+  }
+
+  getFileCache(file: TFile): CachedMetadata | null {
+    return this.getCache(file.path);
+  }
+
+  getCache(path: string): CachedMetadata | null {
+    return this.caches.get(path) || null;
+  }
+
+  /**
+   * Resolve a link target (without `#heading` or `#^block`) from a source file: relative
+   * and exact paths win, then files in the source's folder, then the shortest path
+   */
+  getFirstLinkpathDest(linkpath: string, sourcePath: string): TFile | null {
+    const source = this.vault.getFileByPath(sourcePath);
+    const target = getLinkpath(linkpath);
+    if (target === '') {
+      return source;
+    }
+
+    const sourceFolder = folderOf(sourcePath);
+    if (target.startsWith('./') || target.startsWith('../')) {
+      const relative = joinPath(sourceFolder, target);
+      return this.vault.getFileByPath(relative) || this.vault.getFileByPath(`${relative}.md`);
+    }
+
+    const wanted = target.toLowerCase();
+    const matches = (file: TFile) => {
+      const candidate = file.path.toLowerCase();
+      return [wanted, `${wanted}.md`].some(name => candidate === name || candidate.endsWith(`/${name}`));
+    };
+    const rank = (file: TFile) => {
+      const exact = [wanted, `${wanted}.md`].includes(file.path.toLowerCase());
+      return [exact ? 0 : 1, folderOf(file.path) === sourceFolder ? 0 : 1, file.path.split('/').length];
+    };
+
+    const candidates = this.vault.getFiles().filter(matches);
+    candidates.sort((a, b) => {
+      const [rankA, rankB] = [rank(a), rank(b)];
+      const index = rankA.findIndex((value, i) => value !== rankB[i]);
+      return index === -1 ? a.path.localeCompare(b.path) : rankA[index] - rankB[index];
+    });
+    return candidates[0] || null;
+  }
+
+  /**
+   * Shortest link text that still resolves to the file from the source path
+   */
+  fileToLinktext(file: TFile, sourcePath: string, omitMdExtension = true): string {
+    const strip = omitMdExtension && file.extension === 'md';
+    const name = strip ? file.basename : file.name;
+    if (this.getFirstLinkpathDest(name, sourcePath) === file) {
+      return name;
+    }
+    return strip ? file.path.slice(0, -'.md'.length) : file.path;
+  }
+
+  private onChange(file: TAbstractFile): void {
+    if (!(file instanceof TFile)) {
+      return;
+    }
+    if (file.extension !== 'md') {
+      // A new attachment can resolve embeds elsewhere
+      this.resolveAndNotify([]);
+      return;
+    }
+
+    const data = this.vault.readSync(file);
+    const cache = parseMarkdown(data);
+    this.caches.set(file.path, cache);
+    this.trigger('changed', file, data, cache);
+    this.resolveAndNotify([file.path]);
+  }
+
+  private onDelete(file: TAbstractFile): void {
+    if (!(file instanceof TFile)) {
+      return;
+    }
+    const previous = this.getCache(file.path);
+    this.caches.delete(file.path);
+    if (file.extension === 'md') {
+      this.trigger('deleted', file, previous);
+    }
+    this.resolveAndNotify([]);
+  }
+
+  private onRename(file: TAbstractFile, oldPath: string): void {
+    if (!(file instanceof TFile)) {
+      return;
+    }
+    const cache = this.caches.get(oldPath);
+    this.caches.delete(oldPath);
+    if (cache) {
+      this.caches.set(file.path, cache);
+    }
+    this.resolveAndNotify([file.path]);
+  }
+
+  /**
+   * Re-resolve every file, then fire `resolve` for the touched files and any file whose
+   * links changed, followed by one `resolved`
+   */
+  private resolveAndNotify(touched: string[]): void {
+    const previous = { ...this.resolvedLinks };
+    const previousUnresolved = { ...this.unresolvedLinks };
+    this.resolveLinks();
+
+    const changed = new Set(touched.filter(path => this.caches.has(path)));
+    this.caches.forEach((_cache, path) => {
+      if (
+        JSON.stringify(previous[path]) !== JSON.stringify(this.resolvedLinks[path]) ||
+        JSON.stringify(previousUnresolved[path]) !== JSON.stringify(this.unresolvedLinks[path])
+      ) {
+        changed.add(path);
+      }
+    });
+
+    changed.forEach(path => {
+      const file = this.vault.getFileByPath(path);
+      if (file) {
+        this.trigger('resolve', file);
+      }
+    });
+    this.trigger('resolved');
+  }
+
+  private resolveLinks(): void {
+    this.resolvedLinks = {};
+    this.unresolvedLinks = {};
+
+    this.caches.forEach((cache, path) => {
+      const resolved: Record<string, number> = {};
+      const unresolved: Record<string, number> = {};
+      [...(cache.links || []), ...(cache.embeds || []), ...(cache.frontmatterLinks || [])].forEach(reference => {
+        const linkpath = getLinkpath(reference.link);
+        const destination = this.getFirstLinkpathDest(linkpath, path);
+        if (destination) {
+          resolved[destination.path] = (resolved[destination.path] || 0) + 1;
+        } else {
+          unresolved[linkpath] = (unresolved[linkpath] || 0) + 1;
+        }
+      });
+      this.resolvedLinks[path] = resolved;
+      this.unresolvedLinks[path] = unresolved;
+    });
+  }
+}
+
+/**
+ * Parse markdown the way Obsidian's metadata cache does, for the parts plugins commonly read
+ */
+export function parseMarkdown(content: string): CachedMetadata {
+  const lines = content.split('\n');
+  const offsets: number[] = [];
+  lines.reduce((offset, line) => {
+    offsets.push(offset);
+    return offset + line.length + 1;
+  }, 0);
+  const loc = (line: number, col: number): Loc => ({ line, col, offset: offsets[line] + col });
+  const span = (startLine: number, endLine: number): Pos => ({ start: loc(startLine, 0), end: loc(endLine, lines[endLine].length) });
+
+  const metadata: CachedMetadata = {};
+  const sections: SectionCache[] = [];
+  const headings: HeadingCache[] = [];
+  const links: LinkCache[] = [];
+  const embeds: LinkCache[] = [];
+  const tags: TagCache[] = [];
+  const blocks: Record<string, BlockCache> = {};
+
+  let index = 0;
+  if (lines[0].trimEnd() === '---') {
+    const close = lines.findIndex((line, i) => i > 0 && line.trimEnd() === '---');
+    if (close !== -1) {
+      const position = span(0, close);
+      sections.push({ type: 'yaml', position });
+      try {
+        const frontmatter = yaml.load(lines.slice(1, close).join('\n'));
+        if (frontmatter && typeof frontmatter === 'object' && !Array.isArray(frontmatter)) {
+          metadata.frontmatter = frontmatter as Record<string, any>;
+          metadata.frontmatterPosition = position;
+          const frontmatterLinks = findFrontmatterLinks(frontmatter);
+          if (frontmatterLinks.length > 0) {
+            metadata.frontmatterLinks = frontmatterLinks;
+          }
+        }
+      } catch {
+        // Obsidian ignores frontmatter it cannot parse
+      }
+      index = close + 1;
+    }
+  }
+
+  const scanInline = (line: number) => {
+    // Blank out inline code so nothing inside it is picked up, keeping columns intact
+    const text = lines[line].replace(/(`+)[\s\S]*?\1/g, match => ' '.repeat(match.length));
+    let masked = text;
+    const reference = (match: RegExpExecArray, link: string, displayText: string): LinkCache => {
+      masked = masked.slice(0, match.index) + ' '.repeat(match[0].length) + masked.slice(match.index + match[0].length);
+      return {
+        link,
+        original: match[0],
+        displayText,
+        position: { start: loc(line, match.index), end: loc(line, match.index + match[0].length) },
+      };
+    };
+
+    for (const match of text.matchAll(WIKILINK)) {
+      const [target, alias] = splitAlias(match[2]);
+      (match[1] ? embeds : links).push(reference(match as RegExpExecArray, target, alias ?? target));
+    }
+    for (const match of masked.matchAll(MARKDOWN_LINK)) {
+      const target = match[3].replace(/^<|>$/g, '');
+      if (!URL_SCHEME.test(target)) {
+        (match[1] ? embeds : links).push(reference(match as RegExpExecArray, safeDecode(target), match[2]));
+      }
+    }
+    for (const match of masked.matchAll(TAG)) {
+      if (/\D/.test(match[2])) {
+        const start = (match.index as number) + match[1].length;
+        tags.push({ tag: `#${match[2]}`, position: { start: loc(line, start), end: loc(line, start + match[2].length + 1) } });
+      }
+    }
+    return masked;
+  };
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (line.trim() === '') {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let type = 'paragraph';
+    let inline = true;
+    const fence = FENCE.exec(line);
+    const heading = HEADING.exec(line);
+
+    if (fence) {
+      const marker = fence[1];
+      const closes = (candidate: string) => candidate.trim().length >= marker.length && [...candidate.trim()].every(char => char === marker[0]);
+      const close = lines.findIndex((candidate, i) => i > start && closes(candidate));
+      index = close === -1 ? lines.length - 1 : close;
+      type = 'code';
+      inline = false;
+    } else if (line.trim().startsWith('$$') || line.trim().startsWith('%%')) {
+      const marker = line.trim().slice(0, 2);
+      const closesOnSameLine = line.trim().length > 2 && line.trim().endsWith(marker);
+      const close = closesOnSameLine ? start : lines.findIndex((candidate, i) => i > start && candidate.includes(marker));
+      index = close === -1 ? lines.length - 1 : close;
+      type = marker === '$$' ? 'math' : 'comment';
+      inline = false;
+    } else if (heading) {
+      type = 'heading';
+      headings.push({ heading: heading[2], level: heading[1].length, position: span(start, start) });
+    } else if (THEMATIC_BREAK.test(line)) {
+      type = 'thematicBreak';
+      inline = false;
+    } else if (BLOCKQUOTE.test(line)) {
+      type = CALLOUT.test(line) ? 'callout' : 'blockquote';
+      index = lastLine(lines, start, candidate => BLOCKQUOTE.test(candidate));
+    } else if (LIST_ITEM.test(line)) {
+      type = 'list';
+      // Blank lines stay inside the list when another item or indented content follows
+      index = lastLine(lines, start, (candidate, i) => {
+        if (candidate.trim() !== '') {
+          return !HEADING.test(candidate) && !FENCE.test(candidate) && !BLOCKQUOTE.test(candidate);
+        }
+        const next = lines.slice(i + 1).find(following => following.trim() !== '');
+        return next !== undefined && (LIST_ITEM.test(next) || /^\s+\S/.test(next));
+      });
+    } else if (line.includes('|') && TABLE_DELIMITER.test(lines[start + 1] || '')) {
+      type = 'table';
+      index = lastLine(lines, start, candidate => candidate.trim() !== '');
+    } else if (HTML.test(line)) {
+      type = 'html';
+      inline = false;
+      index = lastLine(lines, start, candidate => candidate.trim() !== '');
+    } else {
+      index = lastLine(lines, start, candidate => candidate.trim() !== '' && ![HEADING, FENCE, BLOCKQUOTE, LIST_ITEM].some(block => block.test(candidate)));
+    }
+
+    const section: SectionCache = { type, position: span(start, index) };
+    if (inline) {
+      for (let i = start; i <= index; i++) {
+        const blockId = BLOCK_ID.exec(scanInline(i));
+        if (blockId) {
+          // List items carry their own ids; any other block's id names the whole section
+          const position = type === 'list' ? span(i, i) : section.position;
+          blocks[blockId[1].toLowerCase()] = { id: blockId[1], position };
+          if (type !== 'list') {
+            section.id = blockId[1];
+          }
+        }
+      }
+    }
+    sections.push(section);
+    index++;
+  }
+
+  if (sections.length > 0) metadata.sections = sections;
+  if (headings.length > 0) metadata.headings = headings;
+  if (links.length > 0) metadata.links = sortByPosition(links);
+  if (embeds.length > 0) metadata.embeds = sortByPosition(embeds);
+  if (tags.length > 0) metadata.tags = tags;
+  if (Object.keys(blocks).length > 0) metadata.blocks = blocks;
+  return metadata;
+}
+
+/**
+ * Strip the `#heading` or `#^block` subpath from a link
+ */
+export function getLinkpath(linktext: string): string {
+  const index = linktext.indexOf('#');
+  return (index === -1 ? linktext : linktext.slice(0, index)).trim();
+}
+
+/**
+ * Last line of a block that starts at `start` and continues while `continues` holds
+ */
+function lastLine(lines: string[], start: number, continues: (line: string, index: number) => boolean): number {
+  let end = start;
+  while (end + 1 < lines.length && continues(lines[end + 1], end + 1)) {
+    end++;
+  }
+  // Trailing blank lines a list kept looking past are not part of it
+  while (end > start && lines[end].trim() === '') {
+    end--;
+  }
+  return end;
+}
+
+function findFrontmatterLinks(frontmatter: object): FrontmatterLinkCache[] {
+  const found: FrontmatterLinkCache[] = [];
+  const visit = (value: unknown, key: string) => {
+    if (typeof value === 'string') {
+      const match = /^\[\[([^[\]]+)\]\]$/.exec(value.trim());
+      if (match) {
+        const [link, alias] = splitAlias(match[1]);
+        found.push({ key, link, original: value, displayText: alias ?? link });
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, i) => visit(item, `${key}.${i}`));
+    }
+  };
+  Object.entries(frontmatter).forEach(([key, value]) => visit(value, key));
+  return found;
+}
+
+function splitAlias(inner: string): [string, string | undefined] {
+  const index = inner.indexOf('|');
+  return index === -1 ? [inner.trim(), undefined] : [inner.slice(0, index).trim(), inner.slice(index + 1).trim()];
+}
+
+function sortByPosition(references: LinkCache[]): LinkCache[] {
+  return references.sort((a, b) => a.position.start.offset - b.position.start.offset);
+}
+
+function safeDecode(target: string): string {
+  try {
+    return decodeURI(target);
+  } catch {
+    return target;
+  }
+}
+
+function folderOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+function joinPath(folder: string, relative: string): string {
+  const segments = folder === '' ? [] : folder.split('/');
+  relative.split('/').forEach(segment => {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  });
+  return segments.join('/');
+}
@@ -0,0 +1,244 @@
+/**
+ * MockObsidian - Runtime stand-ins for the classes the `obsidian` package only declares
+ *
+ * Features:
+ * - Component lifecycle: `unload` runs onunload, then everything registered with
+ *   register/registerEvent/registerInterval
+ * - Plugin.addCommand and Plugin.registerView wired to the mock app's commands and workspace
+ * - TAbstractFile/TFile/TFolder for MockVault, so `instanceof` checks in plugin code work
+ * - View, ItemView, FileView, TextFileView and MarkdownView with the state and file loading
+ *   MockWorkspace relies on
+ *
+ * The `obsidian` package ships type declarations only. Jest must map the module to these classes
+ * (tests/__mocks__/obsidian.ts re-exports this file), or PluginTestRunner cannot load plugins.
+ */
+
+import type { MockEditor } from './MockEditor';
+
+export class Component {
+  private cleanups: Array<() => any> = [];
+
+  load(): void {
+    this.onload();
+  }
+
+  onload(): void {}
+
+  /**
+   * Run onunload, then everything registered with register/registerEvent/registerInterval
+   */
+  unload(): void {
+    this.onunload();
+    this.cleanups.splice(0).forEach(cleanup => cleanup());
+  }
+
+  onunload(): void {}
+
+  register(cb: () => any): void {
+    this.cleanups.push(cb);
+  }
+
+  registerEvent(ref: any): void {
+    this.register(() => ref.events?.offref(ref));
+  }
+
+  registerInterval(id: number): number {
+    this.register(() => clearInterval(id));
+    return id;
+  }
+}
+
+export class Plugin extends Component {
+  app: any;
+  manifest: any;
+
+  constructor(app: any, manifest: any) {
+    super();
+    this.app = app;
+    this.manifest = manifest;
+  }
+
+  /**
+   * Like Obsidian, prefix the id and name with the plugin's and register with app.commands
+   */
+  addCommand(command: any): any {
+    command.id = `${this.manifest.id}:${command.id}`;
+    command.name = `${this.manifest.name}: ${command.name}`;
+    this.app?.commands?.addCommand(command);
+    return command;
+  }
+
+  /**
+   * Register with the workspace; leaves showing the view are detached when the plugin unloads
+   */
+  registerView(type: string, viewCreator: (leaf: any) => View): void {
+    this.app?.workspace?.registerView(type, viewCreator);
+    this.register(() => this.app?.workspace?.unregisterView(type));
+  }
+}
+
+/**
+ * Views have no DOM in the mock: containerEl and contentEl are not modeled
+ */
+export abstract class View extends Component {
+  app: any;
+  leaf: any;
+  icon = '';
+  navigation = false;
+
+  constructor(leaf: any) {
+    super();
+    this.leaf = leaf;
+    this.app = leaf?.app;
+  }
+
+  protected async onOpen(): Promise<void> {}
+
+  protected async onClose(): Promise<void> {}
+
+  abstract getViewType(): string;
+
+  abstract getDisplayText(): string;
+
+  getState(): Record<string, unknown> {
+    return {};
+  }
+
+  async setState(_state: unknown, _result: unknown): Promise<void> {}
+
+  getIcon(): string {
+    return this.icon;
+  }
+}
+
+export abstract class ItemView extends View {
+  navigation = true;
+}
+
+export abstract class FileView extends ItemView {
+  allowNoFile = false;
+  file: TFile | null = null;
+
+  getDisplayText(): string {
+    return this.file?.basename ?? '';
+  }
+
+  getState(): Record<string, unknown> {
+    return this.file ? { file: this.file.path } : {};
+  }
+
+  /**
+   * Load `state.file` from the vault, unloading the previous file first
+   */
+  async setState(state: any, _result: unknown): Promise<void> {
+    const file = state?.file ? this.app?.vault?.getFileByPath(state.file) : null;
+    if (file && file !== this.file) {
+      if (this.file) {
+        await this.onUnloadFile(this.file);
+      }
+      this.file = file;
+      await this.onLoadFile(file);
+    }
+  }
+
+  async onLoadFile(_file: TFile): Promise<void> {}
+
+  async onUnloadFile(_file: TFile): Promise<void> {}
+}
+
+export abstract class TextFileView extends FileView {
+  data = '';
+
+  async onLoadFile(file: TFile): Promise<void> {
+    this.setViewData(await this.app.vault.read(file), true);
+  }
+
+  /**
+   * Write the view's data back to its file; the mock never saves on its own
+   */
+  async save(_clear?: boolean): Promise<void> {
+    const data = this.getViewData();
+    if (this.file && (await this.app.vault.read(this.file)) !== data) {
+      await this.app.vault.modify(this.file, data);
+    }
+  }
+
+  abstract getViewData(): string;
+
+  abstract setViewData(data: string, clear: boolean): void;
+
+  abstract clear(): void;
+}
+
+/**
+ * The workspace supplies `editor` (a MockEditor) when it creates the view
+ */
+export class MarkdownView extends TextFileView {
+  editor!: MockEditor;
+
+  getViewType(): string {
+    return 'markdown';
+  }
+
+  getMode(): 'source' | 'preview' {
+    return 'source';
+  }
+
+  getViewData(): string {
+    return this.editor?.getValue() ?? '';
+  }
+
+  /**
+   * `clear` means a new file was loaded, so the editor's undo history starts over
+   */
+  setViewData(data: string, clear: boolean): void {
+    this.data = data;
+    this.editor?.setValue(data);
+    if (clear) {
+      this.editor?.clearHistory();
+    }
+  }
+
+  clear(): void {
+    this.setViewData('', true);
+  }
+}
+
+export class Notice {
+  constructor(message: string) {
+    console.log(`Notice: ${message}`);
+  }
+}
+
+export class Setting {
+  constructor() {}
+}
+
+export class PluginSettingTab {
+  constructor() {}
+}
+
+export class TAbstractFile {
+  vault: any;
+  path = '';
+  name = '';
+  parent: TFolder | null = null;
+}
+
+export class TFile extends TAbstractFile {
+  stat = { ctime: 0, mtime: 0, size: 0 };
+  basename = '';
+  extension = '';
+}
+
+export class TFolder extends TAbstractFile {
+  children: TAbstractFile[] = [];
+
+  isRoot(): boolean {
+    return this.path === '/';
+  }
+}
+
+export class Vault {
+  constructor() {}
+}
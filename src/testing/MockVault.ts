@@ -0,0 +1,406 @@
+/**
+ * MockVault - In-memory Vault with the folder tree, events and errors of the real one
+ *
+ * Features:
+ * - TFile/TFolder instances (so `instanceof` checks in plugin code work) linked through
+ *   `parent` and `children` under a root folder at "/"
+ * - Text and binary content: read/cachedRead/readBinary, create/createBinary, modify/modifyBinary,
+ *   append and process
+ * - createFolder, rename (folders move their descendants), copy, delete and trash
+ * - `create`, `modify`, `delete` and `rename` events through `vault.on` EventRefs
+ * - Obsidian's errors for existing destinations and missing files; parent folders are created on demand
+ * - File stats (ctime, mtime, size) kept up to date, honoring DataWriteOptions
+ */
+
+import { DataWriteOptions } from 'obsidian';
+import { TAbstractFile, TFile, TFolder } from './MockObsidian';
+import { MockEvents } from './MockEvents';
+
+export interface MockFile {
+  path: string;
+  /** Text, or an ArrayBuffer for binary files such as images */
+  content: string | ArrayBuffer;
+  stat?: {
+    ctime: number;
+    mtime: number;
+    size: number;
+  };
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class MockVault extends MockEvents {
+  public configDir = '.obsidian';
+  private name: string;
+  private root: TFolder;
+  private entries: Map<string, TAbstractFile> = new Map();
+  private contents: Map<string, string | ArrayBuffer> = new Map();
+
+  constructor(files: MockFile[] = [], name = 'Test Vault') {
+    super();
+    this.name = name;
+    this.root = this.makeFolder('/', null);
+
+    // Initial files are the vault as loaded, so no events fire for them
+    files.forEach(file => {
+      const entry = this.addFile(normalize(file.path), file.content, () => undefined);
+      if (file.stat) {
+        entry.stat = { ...file.stat };
+      }
+    });
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getRoot(): TFolder {
+    return this.root;
+  }
+
+  getAbstractFileByPath(path: string): TAbstractFile | null {
+    const normalized = normalize(path);
+    return normalized === '/' ? this.root : this.entries.get(normalized) || null;
+  }
+
+  getFileByPath(path: string): TFile | null {
+    const file = this.getAbstractFileByPath(path);
+    return file instanceof TFile ? file : null;
+  }
+
+  getFolderByPath(path: string): TFolder | null {
+    const folder = this.getAbstractFileByPath(path);
+    return folder instanceof TFolder ? folder : null;
+  }
+
+  getAllLoadedFiles(): TAbstractFile[] {
+    return [this.root, ...this.entries.values()];
+  }
+
+  getAllFolders(includeRoot = false): TFolder[] {
+    return this.getAllLoadedFiles().filter((file): file is TFolder => file instanceof TFolder && (includeRoot || file !== this.root));
+  }
+
+  getFiles(): TFile[] {
+    return Array.from(this.entries.values()).filter((file): file is TFile => file instanceof TFile);
+  }
+
+  getMarkdownFiles(): TFile[] {
+    return this.getFiles().filter(file => file.extension === 'md');
+  }
+
+  getResourcePath(file: TFile): string {
+    return `app://local/${encodeURI(file.path)}?${file.stat.mtime}`;
+  }
+
+  async create(path: string, data: string, options?: DataWriteOptions): Promise<TFile> {
+    return this.createEntry(path, data, options);
+  }
+
+  async createBinary(path: string, data: ArrayBuffer, options?: DataWriteOptions): Promise<TFile> {
+    return this.createEntry(path, data, options);
+  }
+
+  async createFolder(path: string): Promise<TFolder> {
+    const normalized = normalize(path);
+    if (this.getAbstractFileByPath(normalized)) {
+      throw new Error('Folder already exists.');
+    }
+    return this.ensureFolder(normalized);
+  }
+
+  async read(file: TFile): Promise<string> {
+    return this.readSync(file);
+  }
+
+  async cachedRead(file: TFile): Promise<string> {
+    return this.read(file);
+  }
+
+  /**
+   * Synchronous read for other mocks, such as the metadata cache, that must catch up
+   * before a write resolves
+   */
+  readSync(file: TFile): string {
+    const content = this.getContent(file);
+    return typeof content === 'string' ? content : decoder.decode(content);
+  }
+
+  async readBinary(file: TFile): Promise<ArrayBuffer> {
+    const content = this.getContent(file);
+    return typeof content === 'string' ? toArrayBuffer(encoder.encode(content)) : content.slice(0);
+  }
+
+  async modify(file: TFile, data: string, options?: DataWriteOptions): Promise<void> {
+    this.setContent(file, data, options);
+  }
+
+  async modifyBinary(file: TFile, data: ArrayBuffer, options?: DataWriteOptions): Promise<void> {
+    this.setContent(file, data, options);
+  }
+
+  /**
+   * Same as modify; kept for tests written against the earlier flat mock
+   */
+  async write(file: TFile, content: string): Promise<void> {
+    this.setContent(file, content);
+  }
+
+  async append(file: TFile, data: string, options?: DataWriteOptions): Promise<void> {
+    this.setContent(file, (await this.read(file)) + data, options);
+  }
+
+  async process(file: TFile, fn: (data: string) => string, options?: DataWriteOptions): Promise<string> {
+    const data = fn(await this.read(file));
+    this.setContent(file, data, options);
+    return data;
+  }
+
+  /**
+   * Delete a file, or a folder with everything in it (descendants first)
+   */
+  async delete(file: TAbstractFile, _force?: boolean): Promise<void> {
+    this.requireEntry(file);
+    if (file === this.root) {
+      throw new Error('Cannot delete the vault root.');
+    }
+
+    const removed = this.descendants(file).reverse();
+    removed.forEach(entry => {
+      this.entries.delete(entry.path);
+      this.contents.delete(entry.path);
+    });
+    detach(file);
+    removed.forEach(entry => this.trigger('delete', entry));
+  }
+
+  async trash(file: TAbstractFile, _system: boolean): Promise<void> {
+    await this.delete(file);
+  }
+
+  /**
+   * Move a file or folder. Folders take their descendants along, and every moved
+   * entry fires its own `rename` event with its old path.
+   */
+  async rename(file: TAbstractFile, newPath: string): Promise<void> {
+    this.requireEntry(file);
+    const target = normalize(newPath);
+    if (this.getAbstractFileByPath(target)) {
+      throw new Error('Destination file already exists!');
+    }
+    if (target.startsWith(`${file.path}/`)) {
+      throw new Error('Cannot move a folder into itself.');
+    }
+
+    const moved = this.descendants(file).map(entry => ({ entry, oldPath: entry.path }));
+    const parent = this.ensureFolder(parentPath(target));
+    moved.forEach(({ entry }) => this.entries.delete(entry.path));
+
+    detach(file);
+    file.parent = parent;
+    parent.children.push(file);
+    file.name = baseName(target);
+
+    moved.forEach(({ entry, oldPath }) => {
+      entry.path = entry === file ? target : `${target}${oldPath.slice(moved[0].oldPath.length)}`;
+      if (entry instanceof TFile) {
+        setFileNames(entry);
+        this.contents.set(entry.path, this.contents.get(oldPath)!);
+        this.contents.delete(oldPath);
+      }
+      this.entries.set(entry.path, entry);
+    });
+
+    moved.forEach(({ entry, oldPath }) => this.trigger('rename', entry, oldPath));
+  }
+
+  /**
+   * Copy a file, or a folder with its contents, to a new path
+   */
+  async copy<T extends TAbstractFile>(file: T, newPath: string): Promise<T> {
+    this.requireEntry(file);
+    const target = normalize(newPath);
+    if (this.getAbstractFileByPath(target)) {
+      throw new Error('File already exists.');
+    }
+    if (target.startsWith(`${file.path}/`)) {
+      throw new Error('Cannot copy a folder into itself.');
+    }
+
+    let copied: TAbstractFile;
+    if (file instanceof TFile) {
+      copied = this.createEntry(target, this.copyContent(file));
+    } else {
+      copied = await this.createFolder(target);
+      for (const child of file instanceof TFolder ? [...file.children] : []) {
+        await this.copy(child, `${target}/${child.name}`);
+      }
+    }
+    return copied as T;
+  }
+
+  /**
+   * Visit a folder and everything below it, parents before children
+   */
+  static recurseChildren(root: TFolder, cb: (file: TAbstractFile) => any): void {
+    cb(root);
+    root.children.forEach(child => {
+      if (child instanceof TFolder) {
+        MockVault.recurseChildren(child, cb);
+      } else {
+        cb(child);
+      }
+    });
+  }
+
+  private createEntry(path: string, data: string | ArrayBuffer, options?: DataWriteOptions): TFile {
+    const normalized = normalize(path);
+    if (this.getAbstractFileByPath(normalized)) {
+      throw new Error('File already exists.');
+    }
+
+    const file = this.addFile(normalized, data, event => this.trigger('create', event));
+    if (options?.ctime !== undefined) {
+      file.stat.ctime = options.ctime;
+    }
+    if (options?.mtime !== undefined) {
+      file.stat.mtime = options.mtime;
+    }
+    this.trigger('create', file);
+    return file;
+  }
+
+  /**
+   * Add a file and any missing parent folders; `onFolder` is told about each new folder
+   */
+  private addFile(path: string, data: string | ArrayBuffer, onFolder: (folder: TFolder) => void): TFile {
+    const parent = this.ensureFolder(parentPath(path), onFolder);
+    const file = new TFile();
+    file.vault = this;
+    file.path = path;
+    file.name = baseName(path);
+    file.parent = parent;
+    setFileNames(file);
+    const now = Date.now();
+    file.stat = { ctime: now, mtime: now, size: sizeOf(data) };
+
+    parent.children.push(file);
+    this.entries.set(path, file);
+    this.contents.set(path, data);
+    return file;
+  }
+
+  private ensureFolder(path: string, onFolder: (folder: TFolder) => void = folder => this.trigger('create', folder)): TFolder {
+    if (path === '/') {
+      return this.root;
+    }
+
+    const existing = this.entries.get(path);
+    if (existing) {
+      if (!(existing instanceof TFolder)) {
+        throw new Error(`${path} is a file, not a folder.`);
+      }
+      return existing;
+    }
+
+    const folder = this.makeFolder(path, this.ensureFolder(parentPath(path), onFolder));
+    onFolder(folder);
+    return folder;
+  }
+
+  private makeFolder(path: string, parent: TFolder | null): TFolder {
+    const folder = new TFolder();
+    folder.vault = this;
+    folder.path = path;
+    folder.name = path === '/' ? '' : baseName(path);
+    folder.parent = parent;
+    folder.children = [];
+
+    if (parent) {
+      parent.children.push(folder);
+      this.entries.set(path, folder);
+    }
+    return folder;
+  }
+
+  private setContent(file: TFile, data: string | ArrayBuffer, options?: DataWriteOptions): void {
+    this.getContent(file);
+    this.contents.set(file.path, data);
+    file.stat = {
+      ctime: options?.ctime ?? file.stat.ctime,
+      mtime: options?.mtime ?? Date.now(),
+      size: sizeOf(data),
+    };
+    this.trigger('modify', file);
+  }
+
+  private getContent(file: TFile): string | ArrayBuffer {
+    const content = this.contents.get(file.path);
+    if (content === undefined || this.entries.get(file.path) !== file) {
+      throw new Error(`File not found: ${file.path}`);
+    }
+    return content;
+  }
+
+  private copyContent(file: TFile): string | ArrayBuffer {
+    const content = this.getContent(file);
+    return typeof content === 'string' ? content : content.slice(0);
+  }
+
+  private requireEntry(file: TAbstractFile): void {
+    if (file !== this.root && this.entries.get(file.path) !== file) {
+      throw new Error(`File not found: ${file.path}`);
+    }
+  }
+
+  /**
+   * The entry and everything below it, parents first
+   */
+  private descendants(file: TAbstractFile): TAbstractFile[] {
+    const result: TAbstractFile[] = [];
+    if (file instanceof TFolder) {
+      MockVault.recurseChildren(file, entry => result.push(entry));
+    } else {
+      result.push(file);
+    }
+    return result;
+  }
+}
+
+/**
+ * Vault paths use forward slashes without leading, trailing or repeated separators; "" and "/" are the root
+ */
+function normalize(path: string): string {
+  const normalized = path.replace(/\\/g, '/').split('/').filter(segment => segment !== '').join('/');
+  return normalized === '' ? '/' : normalized;
+}
+
+function parentPath(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '/' : path.slice(0, index);
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function setFileNames(file: TFile): void {
+  const dot = file.name.lastIndexOf('.');
+  file.basename = dot > 0 ? file.name.slice(0, dot) : file.name;
+  file.extension = dot > 0 ? file.name.slice(dot + 1) : '';
+}
+
+function detach(file: TAbstractFile): void {
+  if (file.parent) {
+    file.parent.children = file.parent.children.filter(child => child !== file);
+  }
+}
+
+function sizeOf(data: string | ArrayBuffer): number {
+  return typeof data === 'string' ? encoder.encode(data).length : data.byteLength;
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
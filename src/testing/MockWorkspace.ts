@@ -0,0 +1,493 @@
+/**
+ * MockWorkspace - Leaves, splits and views with the events and lifecycle of Obsidian's Workspace
+ *
+ * Features:
+ * - A root split for tabs plus left, right and floating (popout) splits, each holding tab groups of leaves
+ * - getLeaf (reuse, `tab`, `split`, `window`), getLeftLeaf/getRightLeaf, revealLeaf, setActiveLeaf,
+ *   getLeavesOfType, iterateAllLeaves/iterateRootLeaves and detachLeavesOfType
+ * - Views registered with `Plugin.registerView`: `onOpen` runs when a leaf shows the view, `onClose`
+ *   when it is replaced or detached; a plugin's views are detached when it unloads
+ * - Markdown files open in a `MarkdownView` bound to a `MockEditor`, reachable through
+ *   `getActiveViewOfType(MarkdownView)`, `activeEditor` and `getActiveFile`
+ * - `active-leaf-change`, `file-open` and `layout-change` events; `onLayoutReady` callbacks queue
+ *   until the layout is ready
+ * - Errors from `onLayoutReady` callbacks and from closing detached views reach the test instead of
+ *   only being logged
+ */
+
+import { OpenViewState, PaneType, ViewState } from 'obsidian';
+import { MockEditor } from './MockEditor';
+import { MockEvents } from './MockEvents';
+import { FileView, ItemView, MarkdownView, TFile, View } from './MockObsidian';
+import type { MockApp } from './PluginTestUtils';
+
+/**
+ * The editor and file commands see as the active markdown editor
+ */
+export interface MockEditorInfo {
+  editor: MockEditor;
+  file: TFile | null;
+}
+
+export type MockSplitSide = 'root' | 'left' | 'right' | 'floating';
+
+/**
+ * Plugins register creators typed against Obsidian's WorkspaceLeaf; at runtime they receive these leaves
+ */
+export type MockViewCreator = (leaf: MockWorkspaceLeaf) => View;
+
+/**
+ * Views shown in new leaves until something else is opened in them
+ */
+class MockEmptyView extends ItemView {
+  getViewType(): string {
+    return 'empty';
+  }
+
+  getDisplayText(): string {
+    return 'New tab';
+  }
+}
+
+export class MockWorkspaceSplit {
+  public side: MockSplitSide;
+  public children: MockWorkspaceTabs[] = [];
+  public collapsed = false;
+
+  constructor(side: MockSplitSide) {
+    this.side = side;
+  }
+
+  expand(): void {
+    this.collapsed = false;
+  }
+
+  collapse(): void {
+    this.collapsed = true;
+  }
+
+  toggle(): void {
+    this.collapsed = !this.collapsed;
+  }
+}
+
+/**
+ * A tab group: leaves shown one at a time
+ */
+export class MockWorkspaceTabs {
+  public parent: MockWorkspaceSplit;
+  public children: MockWorkspaceLeaf[] = [];
+  public currentTab = 0;
+
+  constructor(parent: MockWorkspaceSplit) {
+    this.parent = parent;
+  }
+}
+
+export class MockWorkspaceLeaf extends MockEvents {
+  public app: MockApp;
+  public parent: MockWorkspaceTabs;
+  public view: View;
+  public pinned = false;
+  private workspace: MockWorkspace;
+
+  constructor(workspace: MockWorkspace, parent: MockWorkspaceTabs) {
+    super();
+    this.workspace = workspace;
+    this.app = workspace.app;
+    this.parent = parent;
+    this.view = new MockEmptyView(this);
+  }
+
+  get isDeferred(): boolean {
+    return false;
+  }
+
+  async loadIfDeferred(): Promise<void> {
+    // Leaves are never deferred in the mock
+  }
+
+  getRoot(): MockWorkspaceSplit {
+    return this.parent.parent;
+  }
+
+  getViewState(): ViewState {
+    return { type: this.view.getViewType(), state: this.view.getState(), pinned: this.pinned };
+  }
+
+  /**
+   * Show a view type in this leaf. A different type closes the current view first; the same
+   * type only receives the new state.
+   */
+  async setViewState(viewState: ViewState, _eState?: any): Promise<void> {
+    if (viewState.type !== this.view.getViewType()) {
+      const previous = this.view;
+      this.view = this.workspace.createView(viewState.type, this);
+      await closeView(previous);
+      this.view.load();
+      await openView(this.view);
+      this.workspace.trigger('layout-change');
+    }
+
+    await this.view.setState(viewState.state ?? {}, { history: false });
+    if (viewState.pinned !== undefined) {
+      this.setPinned(viewState.pinned);
+    }
+    if (viewState.active) {
+      this.workspace.setActiveLeaf(this);
+    }
+    this.workspace.syncActiveFile();
+  }
+
+  /**
+   * Open a file in this leaf and make it active unless `openState.active` is false
+   */
+  async openFile(file: TFile, openState: OpenViewState = {}): Promise<void> {
+    if (file.extension !== 'md') {
+      throw new Error(`Cannot open ${file.path}: no view for .${file.extension} files`);
+    }
+    await this.setViewState({ type: 'markdown', state: { ...openState.state, file: file.path }, active: openState.active ?? true });
+  }
+
+  /**
+   * Replace the view with one the test built itself
+   */
+  async open(view: View): Promise<View> {
+    const previous = this.view;
+    this.view = view;
+    await closeView(previous);
+    view.load();
+    await openView(view);
+    this.workspace.trigger('layout-change');
+    return view;
+  }
+
+  getDisplayText(): string {
+    return this.view.getDisplayText();
+  }
+
+  setPinned(pinned: boolean): void {
+    if (this.pinned !== pinned) {
+      this.pinned = pinned;
+      this.trigger('pinned-change', pinned);
+    }
+  }
+
+  togglePinned(): void {
+    this.setPinned(!this.pinned);
+  }
+
+  /**
+   * Remove the leaf. Its view's onClose starts right away; unloading follows once it settles.
+   * `workspace.settle()` waits for that and rethrows any failure.
+   */
+  detach(): void {
+    this.workspace.removeLeaf(this);
+    this.workspace.closeDetachedView(this.view);
+  }
+}
+
+export class MockWorkspace extends MockEvents {
+  public app: MockApp;
+  public rootSplit = new MockWorkspaceSplit('root');
+  public leftSplit = new MockWorkspaceSplit('left');
+  public rightSplit = new MockWorkspaceSplit('right');
+  public floatingSplit = new MockWorkspaceSplit('floating');
+  public activeLeaf: MockWorkspaceLeaf | null = null;
+  public layoutReady = false;
+  private viewCreators: Map<string, MockViewCreator> = new Map();
+  private layoutReadyCallbacks: Array<() => any> = [];
+  /** Leaves by most recent activation, latest first */
+  private recentLeaves: MockWorkspaceLeaf[] = [];
+  private lastOpenedFile: TFile | null = null;
+  private closingViews: Set<Promise<void>> = new Set();
+  private closeErrors: unknown[] = [];
+
+  constructor(app: MockApp) {
+    super();
+    this.app = app;
+    this.viewCreators.set('empty', leaf => new MockEmptyView(leaf));
+    this.viewCreators.set('markdown', leaf => {
+      const view = new MarkdownView(leaf);
+      view.editor = new MockEditor();
+      return view;
+    });
+  }
+
+  /**
+   * The active markdown view, which carries the editor and file, as Obsidian's activeEditor does
+   */
+  get activeEditor(): MockEditorInfo | null {
+    const view = this.activeLeaf?.view;
+    return view instanceof MarkdownView ? view : null;
+  }
+
+  onLayoutReady(callback: () => any): void {
+    if (this.layoutReady) {
+      callback();
+    } else {
+      this.layoutReadyCallbacks.push(callback);
+    }
+  }
+
+  /**
+   * Finish "startup": run the queued onLayoutReady callbacks. PluginTestRunner calls this after onload.
+   * Every callback runs; the first one that threw has its error rethrown afterwards.
+   */
+  setLayoutReady(): void {
+    if (this.layoutReady) {
+      return;
+    }
+    this.layoutReady = true;
+
+    const errors: unknown[] = [];
+    this.layoutReadyCallbacks.splice(0).forEach(callback => {
+      try {
+        callback();
+      } catch (error) {
+        errors.push(error);
+      }
+    });
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  }
+
+  /**
+   * Wait until the views of detached leaves have closed, then rethrow the first onClose/onunload
+   * error. PluginTestRunner calls this after disabling the plugin and closing the editor.
+   */
+  async settle(): Promise<void> {
+    await Promise.all(this.closingViews);
+    const errors = this.closeErrors.splice(0);
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  }
+
+  registerView(type: string, viewCreator: MockViewCreator): void {
+    if (this.viewCreators.has(type)) {
+      throw new Error(`Attempting to register an existing view type "${type}"`);
+    }
+    this.viewCreators.set(type, viewCreator);
+  }
+
+  /**
+   * Forget a view type and detach its leaves, as Obsidian does when the registering plugin unloads
+   */
+  unregisterView(type: string): void {
+    this.detachLeavesOfType(type);
+    this.viewCreators.delete(type);
+  }
+
+  /**
+   * A leaf in the root split. `false` reuses the most recent unpinned leaf; `true`/`tab` adds a tab
+   * next to it; `split` adds a new tab group; `window` opens a popout.
+   */
+  getLeaf(newLeaf?: PaneType | boolean): MockWorkspaceLeaf {
+    const recent = this.getMostRecentRootLeaf();
+    if (!newLeaf && recent && !recent.pinned) {
+      return recent;
+    }
+
+    if (newLeaf === 'split') {
+      return this.createLeaf(this.addTabs(this.rootSplit));
+    }
+    if (newLeaf === 'window') {
+      return this.createLeaf(this.addTabs(this.floatingSplit));
+    }
+    return this.createLeaf(recent?.parent || this.rootSplit.children[0] || this.addTabs(this.rootSplit));
+  }
+
+  getLeftLeaf(split: boolean): MockWorkspaceLeaf | null {
+    return this.getSideLeaf(this.leftSplit, split);
+  }
+
+  getRightLeaf(split: boolean): MockWorkspaceLeaf | null {
+    return this.getSideLeaf(this.rightSplit, split);
+  }
+
+  getMostRecentLeaf(): MockWorkspaceLeaf | null {
+    return this.getMostRecentRootLeaf();
+  }
+
+  setActiveLeaf(leaf: MockWorkspaceLeaf, _params?: { focus?: boolean }): void {
+    if (this.activeLeaf === leaf) {
+      return;
+    }
+
+    this.activeLeaf = leaf;
+    this.recentLeaves = [leaf, ...this.recentLeaves.filter(candidate => candidate !== leaf)];
+    leaf.parent.currentTab = leaf.parent.children.indexOf(leaf);
+    this.trigger('active-leaf-change', leaf);
+    this.syncActiveFile();
+  }
+
+  /**
+   * Bring a leaf into view: select its tab and expand its sidebar. Does not make it active.
+   */
+  async revealLeaf(leaf: MockWorkspaceLeaf): Promise<void> {
+    leaf.parent.currentTab = leaf.parent.children.indexOf(leaf);
+    leaf.getRoot().expand();
+  }
+
+  /**
+   * `type` may be a class from the `obsidian` typings; at runtime it is the mock class
+   */
+  getActiveViewOfType<T>(type: abstract new (...args: any[]) => T): T | null {
+    const view = this.activeLeaf?.view;
+    return view instanceof type ? view : null;
+  }
+
+  getActiveFile(): TFile | null {
+    return this.activeLeaf ? fileOf(this.activeLeaf.view) : null;
+  }
+
+  iterateAllLeaves(callback: (leaf: MockWorkspaceLeaf) => any): void {
+    [this.rootSplit, this.floatingSplit, this.leftSplit, this.rightSplit].forEach(split => this.iterateSplit(split, callback));
+  }
+
+  iterateRootLeaves(callback: (leaf: MockWorkspaceLeaf) => any): void {
+    [this.rootSplit, this.floatingSplit].forEach(split => this.iterateSplit(split, callback));
+  }
+
+  getLeavesOfType(viewType: string): MockWorkspaceLeaf[] {
+    const leaves: MockWorkspaceLeaf[] = [];
+    this.iterateAllLeaves(leaf => {
+      if (leaf.view.getViewType() === viewType) {
+        leaves.push(leaf);
+      }
+    });
+    return leaves;
+  }
+
+  detachLeavesOfType(viewType: string): void {
+    this.getLeavesOfType(viewType).forEach(leaf => leaf.detach());
+  }
+
+  /**
+   * Synchronous shortcut for PluginTestRunner.openEditor: a new active markdown tab showing
+   * `content`, optionally on a vault file
+   */
+  openMarkdownEditor(content: string, file: TFile | null): MarkdownView {
+    const leaf = this.createLeaf(this.getMostRecentRootLeaf()?.parent || this.rootSplit.children[0] || this.addTabs(this.rootSplit));
+    const view = new MarkdownView(leaf);
+    view.editor = new MockEditor();
+    view.file = file;
+    view.setViewData(content, true);
+    leaf.view = view;
+    view.load();
+    this.trigger('layout-change');
+    this.setActiveLeaf(leaf);
+    return view;
+  }
+
+  /**
+   * Build a view for a leaf from the registered creators (used by MockWorkspaceLeaf)
+   */
+  createView(type: string, leaf: MockWorkspaceLeaf): View {
+    const creator = this.viewCreators.get(type);
+    if (!creator) {
+      throw new Error(`No view registered for type "${type}"`);
+    }
+    return creator(leaf);
+  }
+
+  /**
+   * Close a detached leaf's view in the background, recording failures for `settle`
+   * (used by MockWorkspaceLeaf.detach)
+   */
+  closeDetachedView(view: View): void {
+    const closing: Promise<void> = closeView(view)
+      .catch(error => {
+        this.closeErrors.push(error);
+      })
+      .finally(() => this.closingViews.delete(closing));
+    this.closingViews.add(closing);
+  }
+
+  /**
+   * Take a detached leaf out of the layout and move the focus to the most recent leaf left
+   * (used by MockWorkspaceLeaf.detach)
+   */
+  removeLeaf(leaf: MockWorkspaceLeaf): void {
+    const tabs = leaf.parent;
+    const index = tabs.children.indexOf(leaf);
+    if (index === -1) {
+      return;
+    }
+
+    tabs.children.splice(index, 1);
+    tabs.currentTab = Math.max(0, Math.min(tabs.currentTab, tabs.children.length - 1));
+    if (tabs.children.length === 0) {
+      tabs.parent.children = tabs.parent.children.filter(candidate => candidate !== tabs);
+    }
+    this.recentLeaves = this.recentLeaves.filter(candidate => candidate !== leaf);
+    this.trigger('layout-change');
+
+    if (this.activeLeaf === leaf) {
+      this.activeLeaf = null;
+      const next = this.getMostRecentRootLeaf();
+      if (next) {
+        this.setActiveLeaf(next);
+      } else {
+        this.trigger('active-leaf-change', null);
+        this.syncActiveFile();
+      }
+    }
+  }
+
+  /**
+   * Fire `file-open` when the active file changed since the last call
+   */
+  syncActiveFile(): void {
+    const file = this.getActiveFile();
+    if (file !== this.lastOpenedFile) {
+      this.lastOpenedFile = file;
+      this.trigger('file-open', file);
+    }
+  }
+
+  private getMostRecentRootLeaf(): MockWorkspaceLeaf | null {
+    return this.recentLeaves.find(leaf => leaf.getRoot() === this.rootSplit) || this.rootSplit.children[0]?.children[0] || null;
+  }
+
+  private getSideLeaf(split: MockWorkspaceSplit, newTabs: boolean): MockWorkspaceLeaf {
+    const tabs = newTabs || split.children.length === 0 ? this.addTabs(split) : split.children[0];
+    return this.createLeaf(tabs);
+  }
+
+  private addTabs(split: MockWorkspaceSplit): MockWorkspaceTabs {
+    const tabs = new MockWorkspaceTabs(split);
+    split.children.push(tabs);
+    return tabs;
+  }
+
+  private createLeaf(tabs: MockWorkspaceTabs): MockWorkspaceLeaf {
+    const leaf = new MockWorkspaceLeaf(this, tabs);
+    tabs.children.push(leaf);
+    leaf.view.load();
+    this.trigger('layout-change');
+    return leaf;
+  }
+
+  private iterateSplit(split: MockWorkspaceSplit, callback: (leaf: MockWorkspaceLeaf) => any): void {
+    split.children.forEach(tabs => [...tabs.children].forEach(leaf => callback(leaf)));
+  }
+}
+
+/**
+ * onOpen and onClose are protected on View; the workspace is the caller Obsidian intends
+ */
+async function openView(view: View): Promise<void> {
+  await view['onOpen']();
+}
+
+async function closeView(view: View): Promise<void> {
+  await view['onClose']();
+  view.unload();
+}
+
+function fileOf(view: View): TFile | null {
+  return view instanceof FileView ? view.file : null;
+}
@@ -4,7 +4,30 @@
  * Provides utilities for testing Obsidian plugins in a mock environment
  */
 
-import { App, Plugin, TFile, Vault, Workspace } from 'obsidian';
+import { App, Plugin } from 'obsidian';
+import { MockEditor } from './MockEditor';
+import { MockMetadataCache } from './MockMetadataCache';
+import { MarkdownView, TFile } from './MockObsidian';
+import { MockFile, MockVault } from './MockVault';
+import { MockEditorInfo, MockWorkspace } from './MockWorkspace';
+
+export { EditorChange, EditorPosition, EditorRange, EditorSelection, EditorTransaction, MockEditor, parseCursorMarkers } from './MockEditor';
+export { MockEvents, MockEventRef } from './MockEvents';
+export { MockMetadataCache, parseMarkdown } from './MockMetadataCache';
+export { MockFile, MockVault } from './MockVault';
+export { MockEditorInfo, MockSplitSide, MockViewCreator, MockWorkspace, MockWorkspaceLeaf, MockWorkspaceSplit, MockWorkspaceTabs } from './MockWorkspace';
+
+/**
+ * A command as Plugin.addCommand registers it; editor callbacks receive the mock editor
+ */
+export interface MockCommand {
+  id: string;
+  name: string;
+  callback?: () => any;
+  checkCallback?: (checking: boolean) => boolean | void;
+  editorCallback?: (editor: MockEditor, ctx: MockEditorInfo) => any;
+  editorCheckCallback?: (checking: boolean, editor: MockEditor, ctx: MockEditorInfo) => boolean | void;
+}
 
 export interface MockAppConfig {
   vaultName?: string;
@@ -12,28 +35,22 @@ export interface MockAppConfig {
   settings?: Record<string, any>;
 }
 
-export interface MockFile {
-  path: string;
-  content: string;
-  stat?: {
-    ctime: number;
-    mtime: number;
-    size: number;
-  };
-}
-
 /**
  * Mock App implementation for testing
  */
 export class MockApp {
   public vault: MockVault;
+  public metadataCache: MockMetadataCache;
   public workspace: MockWorkspace;
+  public commands: MockCommands;
   public setting: any;
   public plugins: any;
 
   constructor(config: MockAppConfig = {}) {
-    this.vault = new MockVault(config.files || []);
-    this.workspace = new MockWorkspace();
+    this.vault = new MockVault(config.files || [], config.vaultName);
+    this.metadataCache = new MockMetadataCache(this.vault);
+    this.workspace = new MockWorkspace(this);
+    this.commands = new MockCommands(this.workspace);
     this.setting = config.settings || {};
     this.plugins = new MockPlugins();
   }
@@ -42,102 +59,83 @@ export class MockApp {
 }
 
 /**
- * Mock Vault implementation
+ * Mock command registry (app.commands), filled by Plugin.addCommand
  */
-export class MockVault {
-  private files: Map<string, MockFile>;
+export class MockCommands {
+  private commands: Map<string, MockCommand> = new Map();
+  private workspace: MockWorkspace;
 
-  constructor(files: MockFile[] = []) {
-    this.files = new Map();
-    files.forEach(file => this.files.set(file.path, file));
+  constructor(workspace: MockWorkspace) {
+    this.workspace = workspace;
   }
 
-  async read(file: TFile): Promise<string> {
-    const mockFile = this.files.get(file.path);
-    if (!mockFile) {
-      throw new Error(`File not found: ${file.path}`);
-    }
-    return mockFile.content;
+  addCommand(command: MockCommand): void {
+    this.commands.set(command.id, command);
   }
 
-  async write(file: TFile, content: string): Promise<void> {
-    const mockFile = this.files.get(file.path);
-    if (mockFile) {
-      mockFile.content = content;
-      if (mockFile.stat) {
-        mockFile.stat.mtime = Date.now();
-      }
-    }
+  removeCommand(id: string): void {
+    this.commands.delete(id);
   }
 
-  async create(path: string, content: string): Promise<TFile> {
-    const mockFile: MockFile = {
-      path,
-      content,
-      stat: {
-        ctime: Date.now(),
-        mtime: Date.now(),
-        size: content.length
-      }
-    };
-    this.files.set(path, mockFile);
-    
-    // Return a mock TFile
-    return {
-      path,
-      name: path.split('/').pop() || '',
-      basename: path.split('/').pop()?.split('.')[0] || '',
-      extension: path.split('.').pop() || '',
-      stat: mockFile.stat,
-      vault: this as any
-    } as TFile;
-  }
-
-  async delete(file: TFile): Promise<void> {
-    this.files.delete(file.path);
-  }
-
-  getFiles(): TFile[] {
-    return Array.from(this.files.entries()).map(([path, file]) => ({
-      path,
-      name: path.split('/').pop() || '',
-      basename: path.split('/').pop()?.split('.')[0] || '',
-      extension: path.split('.').pop() || '',
-      stat: file.stat || { ctime: 0, mtime: 0, size: 0 },
-      vault: this as any
-    } as TFile));
-  }
-
-  getAbstractFileByPath(path: string): TFile | null {
-    const file = this.files.get(path);
-    if (!file) return null;
-    
-    return {
-      path,
-      name: path.split('/').pop() || '',
-      basename: path.split('/').pop()?.split('.')[0] || '',
-      extension: path.split('.').pop() || '',
-      stat: file.stat || { ctime: 0, mtime: 0, size: 0 },
-      vault: this as any
-    } as TFile;
+  findCommand(id: string): MockCommand | undefined {
+    return this.commands.get(id);
   }
-}
 
-/**
- * Mock Workspace implementation
- */
-export class MockWorkspace {
-  private activeFile: TFile | null = null;
+  listCommands(): MockCommand[] {
+    return Array.from(this.commands.values());
+  }
+
+  /**
+   * Whether the command would show in the command palette right now (the checking phase).
+   * Editor commands need an active editor.
+   */
+  isCommandAvailable(id: string): boolean {
+    const command = this.getCommand(id);
+    const active = this.workspace.activeEditor;
 
-  getActiveFile(): TFile | null {
-    return this.activeFile;
+    if (command.editorCheckCallback) {
+      return !!active && !!command.editorCheckCallback(true, active.editor, active);
+    }
+    if (command.editorCallback) {
+      return !!active;
+    }
+    if (command.checkCallback) {
+      return !!command.checkCallback(true);
+    }
+    return !!command.callback;
   }
 
-  setActiveFile(file: TFile | null): void {
-    this.activeFile = file;
+  /**
+   * Run the command if it is available, awaiting async callbacks. Returns whether it ran.
+   */
+  async executeCommand(id: string): Promise<boolean> {
+    if (!this.isCommandAvailable(id)) {
+      return false;
+    }
+
+    const command = this.getCommand(id);
+    const active = this.workspace.activeEditor;
+
+    if (command.editorCheckCallback) {
+      await command.editorCheckCallback(false, active!.editor, active!);
+    } else if (command.editorCallback) {
+      await command.editorCallback(active!.editor, active!);
+    } else if (command.checkCallback) {
+      await command.checkCallback(false);
+    } else {
+      await command.callback!();
+    }
+    return true;
   }
 
-  // Add more workspace methods as needed
+  private getCommand(id: string): MockCommand {
+    const command = this.commands.get(id);
+    if (!command) {
+      const known = Array.from(this.commands.keys());
+      throw new Error(`Command not found: ${id}${known.length > 0 ? ` (registered: ${known.join(', ')})` : ''}`);
+    }
+    return command;
+  }
 }
 
 /**
@@ -174,8 +172,11 @@ export class PluginTestRunner {
     this.mockApp = new MockApp(config);
   }
 
+  /**
+   * The one place the mock app meets the `obsidian` typings: plugins are typed against the real App
+   */
   async loadPlugin(PluginClass: new (app: App, manifest: any) => Plugin, manifest: any): Promise<Plugin> {
-    const plugin = new PluginClass(this.mockApp as any, manifest);
+    const plugin = new PluginClass(this.mockApp as unknown as App, manifest);
     this.plugin = plugin;
     return plugin;
   }
@@ -185,8 +186,9 @@ export class PluginTestRunner {
       throw new Error('No plugin loaded. Call loadPlugin() first.');
     }
     
-    // Simulate plugin loading
+    // Simulate plugin loading; onLayoutReady callbacks run once startup finishes
     await this.plugin.onload();
+    this.mockApp.workspace.setLayoutReady();
   }
 
   async disablePlugin(): Promise<void> {
@@ -194,8 +196,11 @@ export class PluginTestRunner {
       throw new Error('No plugin loaded. Call loadPlugin() first.');
     }
     
-    // Simulate plugin unloading
-    this.plugin.onunload();
+    // Simulate plugin unloading: onunload, then registered events and intervals are released.
+    // Obsidian removes the plugin's commands with it. Errors from closing its views surface here.
+    this.plugin.unload();
+    this.listCommands().forEach(command => this.mockApp.commands.removeCommand(command.id));
+    await this.mockApp.workspace.settle();
   }
 
   getApp(): MockApp {
@@ -207,23 +212,73 @@ export class PluginTestRunner {
   }
 
   // Test utilities
-  async triggerCommand(commandId: string): Promise<void> {
+
+  /**
+   * Commands the loaded plugin registered, with ids prefixed by the plugin id as in Obsidian
+   */
+  listCommands(): MockCommand[] {
     if (!this.plugin) {
-      throw new Error('No plugin loaded');
+      return [];
     }
+    const prefix = `${this.plugin.manifest.id}:`;
+    return this.mockApp.commands.listCommands().filter(command => command.id.startsWith(prefix));
+  }
 
-    // This would need to be implemented based on how commands are stored
-    // For now, this is a placeholder
-    console.log(`Triggering command: ${commandId}`);
+  /**
+   * Whether a command would show in the command palette (checkCallback's checking phase)
+   */
+  isCommandAvailable(commandId: string): boolean {
+    return this.mockApp.commands.isCommandAvailable(this.resolveCommandId(commandId));
+  }
+
+  /**
+   * Run a command by id, with or without the plugin id prefix.
+   * Returns false when the command is unavailable, e.g. an editor command without an open editor.
+   */
+  async triggerCommand(commandId: string): Promise<boolean> {
+    return this.mockApp.commands.executeCommand(this.resolveCommandId(commandId));
+  }
+
+  /**
+   * Make an editor active for editor commands, optionally on a vault file
+   */
+  openEditor(content = '', path?: string): MockEditor {
+    const file = path ? this.mockApp.vault.getFileByPath(path) : null;
+    return this.mockApp.workspace.openMarkdownEditor(content, file).editor;
+  }
+
+  /**
+   * Detach the active markdown leaf, if any, and wait for its view to close
+   */
+  async closeEditor(): Promise<void> {
+    const leaf = this.mockApp.workspace.activeLeaf;
+    if (leaf?.view instanceof MarkdownView) {
+      leaf.detach();
+    }
+    await this.mockApp.workspace.settle();
   }
 
   async createTestFile(path: string, content: string): Promise<TFile> {
     return await this.mockApp.vault.create(path, content);
   }
 
+  /**
+   * Open a vault file in the most recent tab and make it active, as clicking it in the file explorer does
+   */
   async setActiveFile(path: string): Promise<void> {
-    const file = this.mockApp.vault.getAbstractFileByPath(path);
-    this.mockApp.workspace.setActiveFile(file);
+    const file = this.mockApp.vault.getFileByPath(path);
+    if (!file) {
+      throw new Error(`File not found: ${path}`);
+    }
+    await this.mockApp.workspace.getLeaf(false).openFile(file);
+  }
+
+  private resolveCommandId(commandId: string): string {
+    if (!this.plugin) {
+      throw new Error('No plugin loaded');
+    }
+    const prefixed = `${this.plugin.manifest.id}:${commandId}`;
+    return this.mockApp.commands.findCommand(commandId) || !this.mockApp.commands.findCommand(prefixed) ? commandId : prefixed;
   }
 }
 
@@ -290,6 +345,16 @@ export class PluginTestHelpers {
       throw new Error(`Assertion failed: ${message || `Expected ${expected}, got ${actual}`}`);
     }
   }
+
+  /**
+   * Assert an editor's text and selections in cursor-marker form, e.g. `hello |world` or `{hello|} world`
+   */
+  static assertEditor(editor: MockEditor, expected: string, message?: string): void {
+    const actual = editor.toMarked();
+    if (actual !== expected) {
+      throw new Error(`Assertion failed: ${message || `Expected editor ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`}`);
+    }
+  }
 }
 
 /**
@@ -314,6 +379,15 @@ export class PluginTestHelpers {
  *     PluginTestHelpers.assert(plugin !== null, 'Plugin should be loaded');
  *   });
  *   
+ *   it('should hide the command without an editor', async () => {
+ *     await testRunner.loadPlugin(MyPlugin, { id: 'my-plugin', name: 'My Plugin', version: '1.0.0' });
+ *     await testRunner.enablePlugin();
+ *
+ *     expect(testRunner.isCommandAvailable('sample-editor-command')).toBe(false);
+ *     testRunner.openEditor('Some text');
+ *     expect(await testRunner.triggerCommand('sample-editor-command')).toBe(true);
+ *   });
+ *   
  *   it('should create a test file', async () => {
  *     const file = await testRunner.createTestFile('test.md', '# Test');
  *     PluginTestHelpers.assertEqual(file.name, 'test.md');
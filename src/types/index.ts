@@ -12,6 +12,8 @@ export interface AnalyzerConfig {
     enabled: boolean;
     categories: string[];
     threshold: number;
+    /** Module paths exporting additional PatternRule definitions, relative to the declaring config file */
+    customRules?: string[];
   };
   stateAnalysis: {
     enabled: boolean;
@@ -19,6 +21,25 @@ export interface AnalyzerConfig {
     trackLocalState: boolean;
     performanceMetrics: boolean;
   };
+  /** Thresholds that fail the run when exceeded; unset gates are not checked */
+  gates?: QualityGateConfig;
+}
+
+export interface QualityGateConfig {
+  maxHighSeverityEventIssues?: number;
+  maxMemoryLeakRisk?: number;
+  /** Minimum average documentation coverage, in percent */
+  minDocCoverage?: number;
+  /** Rule ids that must not produce any finding */
+  bannedRules?: string[];
+}
+
+export interface QualityGateResult {
+  gate: keyof QualityGateConfig;
+  passed: boolean;
+  actual: number;
+  limit: number;
+  message: string;
 }
 
 export interface AnalyzerResult {
@@ -44,13 +65,16 @@ export interface QueueItem {
 
 export interface PatternDetectionResult {
   pattern: string;
-  category: 'event' | 'state' | 'lifecycle' | 'api' | 'ui';
+  category: 'event' | 'state' | 'lifecycle' | 'api' | 'ui' | 'submission';
+  severity: 'low' | 'medium' | 'high';
   confidence: number;
   occurrences: number;
   locations: Array<{
     file: string;
     line: number;
     column: number;
+    endLine?: number;
+    endColumn?: number;
   }>;
   suggestions: string[];
 }
@@ -71,6 +95,11 @@ export interface StateAnalysisResult {
 export interface EventPatternResult {
   eventType: string;
   handler: string;
+  location: {
+    file: string;
+    line: number;
+    column: number;
+  };
   frequency: number;
   performance: {
     averageExecutionTime: number;
@@ -78,12 +107,117 @@ export interface EventPatternResult {
     totalExecutions: number;
   };
   issues: Array<{
+    rule: string;
     type: 'memory-leak' | 'performance' | 'best-practice';
     description: string;
     severity: 'low' | 'medium' | 'high';
   }>;
 }
 
+export interface LifecycleIssue {
+  rule: string;
+  resource: 'dom-listener' | 'interval' | 'observer' | 'event-ref' | 'editor-extension';
+  /** Class that acquires the resource */
+  className: string;
+  /** Method the resource is acquired in */
+  method: string;
+  /** Lifecycle method expected to release it (onunload or onClose) */
+  releaseMethod: string;
+  description: string;
+  severity: 'low' | 'medium' | 'high';
+  location: {
+    file: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+  };
+  suggestion: string;
+}
+
+export interface CompatibilityIssue {
+  rule: string;
+  /** Qualified API name, e.g. `Workspace.getLeaf` */
+  symbol: string;
+  /** App version that introduced the API */
+  since: string;
+  /** minAppVersion declared in manifest.json */
+  minAppVersion: string;
+  description: string;
+  severity: 'low' | 'medium' | 'high';
+  location: {
+    file: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+  };
+  suggestion: string;
+}
+
+export interface Finding {
+  analyzer: 'pattern' | 'state' | 'event' | 'lifecycle' | 'compatibility';
+  rule: string;
+  category: string;
+  severity: 'low' | 'medium' | 'high';
+  message: string;
+  file: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  context: string;
+}
+
+export interface RuleMetadata {
+  id: string;
+  category: string;
+  severity: 'low' | 'medium' | 'high';
+  description: string;
+}
+
+export interface DocAnalysisResult {
+  file: string;
+  type: 'markdown' | 'jsdoc' | 'inline' | 'typescript';
+  coverage: number;
+  issues: Array<{
+    type: 'missing' | 'incomplete' | 'outdated' | 'formatting';
+    description: string;
+    line?: number;
+    severity: 'low' | 'medium' | 'high';
+  }>;
+  suggestions: string[];
+}
+
+export interface UnusedSuppression {
+  file: string;
+  line: number;
+  rule: string;
+  directive: 'ignore-next-line' | 'disable';
+}
+
+export interface PluginManifest {
+  id: string;
+  name: string;
+  version: string;
+  minAppVersion: string;
+  description: string;
+  author: string;
+  authorUrl?: string;
+  fundingUrl?: string | Record<string, string>;
+  isDesktopOnly?: boolean;
+}
+
+export interface ValidationIssue {
+  /** Check that produced the issue, e.g. `manifest-id` */
+  check: string;
+  severity: 'error' | 'warning';
+  /** File relative to the plugin directory */
+  file: string;
+  line?: number;
+  message: string;
+}
+
 export interface PluginTemplate {
   name: string;
   description: string;
@@ -105,6 +239,8 @@ export interface WorkshopConfig {
     hotReload: boolean;
     sourceMap: boolean;
     typeChecking: boolean;
+    /** Vault folders `build-plugin watch` deploys into */
+    vaults: string[];
   };
   testing: {
     framework: 'jest' | 'mocha' | 'vitest';
@@ -115,5 +251,7 @@ export interface WorkshopConfig {
     minify: boolean;
     target: string;
     outputDir: string;
+    /** Write main.js.map next to production bundles */
+    sourceMap: boolean;
   };
 }
\ No newline at end of file
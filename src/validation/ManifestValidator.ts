@@ -0,0 +1,316 @@
+/**
+ * ManifestValidator - Check a plugin's release metadata against the community rules
+ *
+ * Features:
+ * - manifest.json required fields, id rules (lowercase letters, digits and dashes, no "obsidian", matches the folder)
+ * - `version` and `minAppVersion` formats (`x.y.z`)
+ * - `isDesktopOnly` consistency with runtime Node.js and Electron imports in the sources
+ * - versions.json presence, format and monotonic minAppVersion history
+ * - package.json version kept in sync with the manifest
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { builtinModules } from 'module';
+import * as ts from 'typescript';
+import { PluginManifest, ValidationIssue } from '../types/index';
+import { compareVersions } from '../analyzers/compat/ApiIndex';
+import { isCallTo, parseSource, walk } from '../analyzers/patterns/AstHelpers';
+
+export interface ManifestValidationResult {
+  pluginPath: string;
+  manifest?: PluginManifest;
+  issues: ValidationIssue[];
+  /** True when no issue has severity `error` */
+  valid: boolean;
+}
+
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const REQUIRED_FIELDS: Array<keyof PluginManifest> = ['id', 'name', 'version', 'minAppVersion', 'description', 'author'];
+const DESKTOP_ONLY_MODULES = new Set([...builtinModules, 'electron']);
+const SOURCE_EXTENSIONS = ['.ts', '.js', '.tsx', '.jsx', '.mjs', '.cjs'];
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', 'build', '.git', '.workshop-cache'];
+/** Bundled output, not source */
+const IGNORED_FILES = ['main.js'];
+/** Tests, mocks and build configuration that never ship in main.js */
+const NON_PRODUCTION_PATH = /(^|[/\\])(tests?|__tests__|__mocks__|scripts)[/\\]|\.(test|spec)\.[jt]sx?$|(^|[/\\])(esbuild|rollup|webpack|vite|jest)\.config\.[cm]?[jt]s$/;
+
+export class ManifestValidator {
+  /**
+   * Validate manifest.json, versions.json and package.json in a plugin directory
+   */
+  public validate(pluginPath: string): ManifestValidationResult {
+    const issues: ValidationIssue[] = [];
+    const manifest = this.readJson<PluginManifest>(pluginPath, 'manifest.json', issues);
+
+    if (manifest === undefined) {
+      if (issues.length === 0) {
+        issues.push(error('manifest-missing', 'manifest.json', 'manifest.json not found'));
+      }
+      return { pluginPath, issues, valid: false };
+    }
+
+    this.checkFields(manifest, issues);
+    this.checkId(manifest, pluginPath, issues);
+    this.checkVersions(manifest, issues);
+    this.checkDesktopOnly(manifest, pluginPath, issues);
+    this.checkVersionsJson(manifest, pluginPath, issues);
+    this.checkPackageJson(manifest, pluginPath, issues);
+
+    return {
+      pluginPath,
+      manifest,
+      issues,
+      valid: issues.every(issue => issue.severity !== 'error'),
+    };
+  }
+
+  private checkFields(manifest: PluginManifest, issues: ValidationIssue[]): void {
+    REQUIRED_FIELDS.forEach(field => {
+      const value = manifest[field];
+      if (typeof value !== 'string' || value.trim() === '') {
+        issues.push(error('manifest-field', 'manifest.json', `"${field}" is required and must be a non-empty string`));
+      }
+    });
+
+    if (manifest.isDesktopOnly !== undefined && typeof manifest.isDesktopOnly !== 'boolean') {
+      issues.push(error('manifest-field', 'manifest.json', '"isDesktopOnly" must be a boolean'));
+    }
+  }
+
+  private checkId(manifest: PluginManifest, pluginPath: string, issues: ValidationIssue[]): void {
+    const id = manifest.id;
+    if (typeof id !== 'string' || id === '') {
+      return;
+    }
+
+    if (id.toLowerCase().includes('obsidian')) {
+      issues.push(error('manifest-id', 'manifest.json', `id "${id}" must not contain "obsidian"`));
+    }
+    if (!ID_PATTERN.test(id)) {
+      issues.push(error('manifest-id', 'manifest.json', `id "${id}" must use lowercase letters, digits and dashes only`));
+    }
+
+    const folder = path.basename(path.resolve(pluginPath));
+    if (folder !== id) {
+      issues.push(error('manifest-id', 'manifest.json', `id "${id}" does not match the plugin folder "${folder}"`));
+    }
+  }
+
+  private checkVersions(manifest: PluginManifest, issues: ValidationIssue[]): void {
+    if (typeof manifest.version === 'string' && manifest.version && !VERSION_PATTERN.test(manifest.version)) {
+      issues.push(error('manifest-version', 'manifest.json', `version "${manifest.version}" must be in x.y.z format`));
+    }
+    if (typeof manifest.minAppVersion === 'string' && manifest.minAppVersion && !VERSION_PATTERN.test(manifest.minAppVersion)) {
+      issues.push(error('manifest-version', 'manifest.json', `minAppVersion "${manifest.minAppVersion}" must be in x.y.z format`));
+    }
+  }
+
+  /**
+   * Plugins importing Node.js or Electron modules do not load on mobile
+   */
+  private checkDesktopOnly(manifest: PluginManifest, pluginPath: string, issues: ValidationIssue[]): void {
+    const imports = findDesktopOnlyImports(pluginPath);
+
+    if (imports.length > 0 && manifest.isDesktopOnly !== true) {
+      imports.forEach(({ file, line, module }) => {
+        issues.push(error(
+          'desktop-only',
+          file,
+          `imports "${module}", which is unavailable on mobile; set "isDesktopOnly": true`,
+          line
+        ));
+      });
+    } else if (imports.length === 0 && manifest.isDesktopOnly === true) {
+      issues.push(warning('desktop-only', 'manifest.json', '"isDesktopOnly" is true but no Node.js or Electron imports were found'));
+    }
+  }
+
+  private checkVersionsJson(manifest: PluginManifest, pluginPath: string, issues: ValidationIssue[]): void {
+    const versions = this.readJson<Record<string, unknown>>(pluginPath, 'versions.json', issues);
+    if (versions === undefined) {
+      if (!issues.some(issue => issue.file === 'versions.json')) {
+        issues.push(error('versions-json', 'versions.json', 'versions.json not found; it maps plugin versions to minAppVersion'));
+      }
+      return;
+    }
+
+    const entries = Object.entries(versions);
+    const malformed = entries.filter(([version, minApp]) =>
+      !VERSION_PATTERN.test(version) || typeof minApp !== 'string' || !VERSION_PATTERN.test(minApp)
+    );
+    malformed.forEach(([version, minApp]) => {
+      issues.push(error('versions-json', 'versions.json', `entry "${version}": "${minApp}" must map an x.y.z version to an x.y.z minAppVersion`));
+    });
+    if (malformed.length > 0) {
+      return;
+    }
+
+    // A newer plugin version never supports an older app than the release before it
+    const sorted = (entries as Array<[string, string]>).sort(([a], [b]) => compareVersions(a, b));
+    for (let i = 1; i < sorted.length; i++) {
+      const [previousVersion, previousMinApp] = sorted[i - 1];
+      const [version, minApp] = sorted[i];
+      if (compareVersions(minApp, previousMinApp) < 0) {
+        issues.push(error(
+          'versions-json',
+          'versions.json',
+          `minAppVersion decreases from ${previousMinApp} (${previousVersion}) to ${minApp} (${version})`
+        ));
+      }
+    }
+
+    if (typeof manifest.version === 'string' && manifest.version) {
+      const recorded = versions[manifest.version];
+      if (recorded === undefined) {
+        issues.push(error('versions-json', 'versions.json', `no entry for the manifest version ${manifest.version}`));
+      } else if (recorded !== manifest.minAppVersion) {
+        issues.push(error(
+          'versions-json',
+          'versions.json',
+          `entry for ${manifest.version} is ${recorded} but the manifest minAppVersion is ${manifest.minAppVersion}`
+        ));
+      }
+    }
+  }
+
+  private checkPackageJson(manifest: PluginManifest, pluginPath: string, issues: ValidationIssue[]): void {
+    const packageJson = this.readJson<{ version?: string }>(pluginPath, 'package.json', issues);
+    if (packageJson && packageJson.version !== manifest.version) {
+      issues.push(error(
+        'package-version',
+        'package.json',
+        `version ${packageJson.version ?? '(missing)'} does not match the manifest version ${manifest.version}`
+      ));
+    }
+  }
+
+  /**
+   * Read a JSON object from the plugin directory. Missing files return undefined;
+   * unparsable ones are recorded as issues.
+   */
+  private readJson<T>(pluginPath: string, fileName: string, issues: ValidationIssue[]): T | undefined {
+    const filePath = path.join(pluginPath, fileName);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    try {
+      const value = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error('expected a JSON object');
+      }
+      return value as T;
+    } catch (parseError) {
+      issues.push(error('invalid-json', fileName, `${fileName} is not valid: ${(parseError as Error).message}`));
+      return undefined;
+    }
+  }
+}
+
+/**
+ * List plugin source files, skipping dependencies and build output
+ */
+export function listSourceFiles(pluginPath: string): string[] {
+  const files: string[] = [];
+
+  const visit = (dir: string) => {
+    fs.readdirSync(dir, { withFileTypes: true }).forEach(entry => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.includes(entry.name)) {
+          visit(fullPath);
+        }
+      } else if (
+        SOURCE_EXTENSIONS.includes(path.extname(entry.name)) &&
+        !entry.name.endsWith('.d.ts') &&
+        !(dir === pluginPath && IGNORED_FILES.includes(entry.name))
+      ) {
+        files.push(fullPath);
+      }
+    });
+  };
+
+  visit(pluginPath);
+  return files.sort();
+}
+
+/**
+ * Check whether a path relative to the plugin directory is shipped code
+ */
+export function isProductionSource(relativePath: string): boolean {
+  return !NON_PRODUCTION_PATH.test(relativePath);
+}
+
+/**
+ * Find imports and requires of Node.js built-ins and Electron in shipped code
+ */
+export function findDesktopOnlyImports(pluginPath: string): Array<{ file: string; line: number; module: string }> {
+  const found: Array<{ file: string; line: number; module: string }> = [];
+
+  listSourceFiles(pluginPath).forEach(filePath => {
+    const file = path.relative(pluginPath, filePath);
+    if (!isProductionSource(file)) {
+      return;
+    }
+    const sourceFile = parseSource(fs.readFileSync(filePath, 'utf8'), file);
+
+    walk(sourceFile, node => {
+      let specifier: ts.Expression | undefined;
+      if (isTypeOnlyImport(node)) {
+        return;
+      } else if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+        specifier = node.moduleSpecifier;
+      } else if (ts.isExternalModuleReference(node)) {
+        specifier = node.expression;
+      } else if (isCallTo(node, ['require'])) {
+        specifier = node.arguments[0];
+      } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        specifier = node.arguments[0];
+      }
+
+      if (specifier && ts.isStringLiteralLike(specifier)) {
+        const moduleName = specifier.text.replace(/^node:/, '').split('/')[0];
+        if (DESKTOP_ONLY_MODULES.has(moduleName)) {
+          const line = sourceFile.getLineAndCharacterOfPosition(specifier.getStart(sourceFile)).line + 1;
+          found.push({ file, line, module: specifier.text });
+        }
+      }
+    });
+  });
+
+  return found;
+}
+
+/**
+ * Imports and re-exports that only bring in types are erased from the bundle
+ */
+function isTypeOnlyImport(node: ts.Node): boolean {
+  if (ts.isImportEqualsDeclaration(node)) {
+    return node.isTypeOnly;
+  }
+  if (ts.isExportDeclaration(node)) {
+    return node.isTypeOnly ||
+      (!!node.exportClause && ts.isNamedExports(node.exportClause) && node.exportClause.elements.length > 0 &&
+        node.exportClause.elements.every(element => element.isTypeOnly));
+  }
+  if (!ts.isImportDeclaration(node) || !node.importClause) {
+    return false;
+  }
+
+  const clause = node.importClause;
+  const bindings = clause.namedBindings;
+  return clause.isTypeOnly || (
+    !clause.name && !!bindings && ts.isNamedImports(bindings) && bindings.elements.length > 0 &&
+    bindings.elements.every(element => element.isTypeOnly)
+  );
+}
+
+function error(check: string, file: string, message: string, line?: number): ValidationIssue {
+  return { check, severity: 'error', file, line, message };
+}
+
+function warning(check: string, file: string, message: string, line?: number): ValidationIssue {
+  return { check, severity: 'warning', file, line, message };
+}
@@ -0,0 +1,175 @@
+/**
+ * PreflightChecker - Community plugin submission checklist
+ *
+ * Features:
+ * - Manifest, versions.json and package.json validation (ManifestValidator)
+ * - Scans production sources for code the plugin review rejects: innerHTML,
+ *   console.log, a hardcoded `.obsidian` directory and vault.adapter
+ * - Lists every piece of templates/basic-plugin sample code still present
+ * - README and LICENSE checks
+ * - Pass / warn / fail status per checklist item; only failures block submission
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PatternDetectionResult } from '../types/index';
+import { PatternDetector } from '../analyzers/patterns/PatternDetector';
+import { submissionRules } from '../analyzers/patterns/rules/SubmissionRules';
+import { templateRules } from '../analyzers/patterns/rules/TemplateRules';
+import { ManifestValidator, isProductionSource, listSourceFiles } from './ManifestValidator';
+
+export type PreflightStatus = 'pass' | 'warn' | 'fail';
+
+export interface PreflightCheck {
+  id: string;
+  title: string;
+  status: PreflightStatus;
+  /** Locations or messages explaining a warning or failure */
+  details: string[];
+}
+
+export interface PreflightReport {
+  pluginPath: string;
+  checks: PreflightCheck[];
+  /** True when no check failed */
+  passed: boolean;
+}
+
+/** Checklist titles for the submission rules */
+const RULE_TITLES: Record<string, string> = {
+  'inner-html': 'No innerHTML/outerHTML assignments',
+  'console-log': 'No console.log in production code',
+  'hardcoded-config-dir': 'No hardcoded .obsidian directory',
+  'vault-adapter': 'Vault API used instead of vault.adapter',
+};
+const TEMPLATE_RULE_PREFIX = 'template-';
+
+const LICENSE_FILES = ['LICENSE', 'LICENSE.md', 'LICENSE.txt'];
+const TEMPLATE_README_TITLE = '# Basic Obsidian Plugin Template';
+
+export class PreflightChecker {
+  private validator: ManifestValidator;
+  private detector: PatternDetector;
+
+  constructor(validator: ManifestValidator = new ManifestValidator(), detector: PatternDetector = new PatternDetector([...submissionRules, ...templateRules])) {
+    this.validator = validator;
+    this.detector = detector;
+  }
+
+  /**
+   * Run every check against a plugin directory
+   */
+  public run(pluginPath: string): PreflightReport {
+    const checks: PreflightCheck[] = [
+      this.checkManifest(pluginPath),
+      ...this.checkSources(pluginPath),
+      this.checkReadme(pluginPath),
+      this.checkLicense(pluginPath),
+    ];
+
+    return {
+      pluginPath,
+      checks,
+      passed: checks.every(check => check.status !== 'fail'),
+    };
+  }
+
+  private checkManifest(pluginPath: string): PreflightCheck {
+    const result = this.validator.validate(pluginPath);
+    const hasWarnings = result.issues.some(issue => issue.severity === 'warning');
+
+    return {
+      id: 'manifest',
+      title: 'manifest.json, versions.json and package.json are valid',
+      status: !result.valid ? 'fail' : hasWarnings ? 'warn' : 'pass',
+      details: result.issues.map(issue =>
+        `${issue.line ? `${issue.file}:${issue.line}` : issue.file} ${issue.message}`
+      ),
+    };
+  }
+
+  /**
+   * One checklist item per submission rule, plus one for all template rules.
+   * Low-severity rules only warn.
+   */
+  private checkSources(pluginPath: string): PreflightCheck[] {
+    const detections = new Map<string, PatternDetectionResult['locations']>();
+
+    listSourceFiles(pluginPath)
+      .map(file => path.relative(pluginPath, file))
+      .filter(isProductionSource)
+      .forEach(file => {
+        const code = fs.readFileSync(path.join(pluginPath, file), 'utf8');
+        this.detector.analyzeCode(code, file).forEach(result => {
+          detections.set(result.pattern, [...(detections.get(result.pattern) || []), ...result.locations]);
+        });
+      });
+
+    const rules = this.detector.getRules();
+    const checks = rules
+      .filter(rule => !rule.id.startsWith(TEMPLATE_RULE_PREFIX))
+      .map(rule => {
+        const locations = detections.get(rule.id) || [];
+        const status: PreflightStatus = locations.length === 0 ? 'pass' : rule.severity === 'low' ? 'warn' : 'fail';
+
+        return {
+          id: rule.id,
+          title: RULE_TITLES[rule.id] || rule.description || rule.id,
+          status,
+          details: locations.length === 0 ? [] : [
+            ...locations.map(location => `${location.file}:${location.line}:${location.column}`),
+            `→ ${rule.suggest(locations.length)[0]}`,
+          ],
+        };
+      });
+
+    // Name each leftover template piece so authors know what is still unmodified
+    const templateDetails = rules
+      .filter(rule => rule.id.startsWith(TEMPLATE_RULE_PREFIX))
+      .flatMap(rule => (detections.get(rule.id) || []).map(location => ({ location, piece: rule.description })))
+      .sort((a, b) => a.location.file.localeCompare(b.location.file) || a.location.line - b.location.line)
+      .map(({ location, piece }) => `${location.file}:${location.line}:${location.column} ${piece}`);
+
+    checks.push({
+      id: 'sample-code',
+      title: 'No sample code left from the template',
+      status: templateDetails.length === 0 ? 'pass' : 'fail',
+      details: templateDetails,
+    });
+
+    return checks;
+  }
+
+  private checkReadme(pluginPath: string): PreflightCheck {
+    const readmePath = path.join(pluginPath, 'README.md');
+    const check: PreflightCheck = { id: 'readme', title: 'README.md describes the plugin', status: 'pass', details: [] };
+
+    if (!fs.existsSync(readmePath)) {
+      return { ...check, status: 'fail', details: ['README.md not found'] };
+    }
+
+    const content = fs.readFileSync(readmePath, 'utf8').trim();
+    if (content === '') {
+      return { ...check, status: 'fail', details: ['README.md is empty'] };
+    }
+    if (content.startsWith(TEMPLATE_README_TITLE)) {
+      return { ...check, status: 'fail', details: ['README.md is still the template README'] };
+    }
+
+    return check;
+  }
+
+  private checkLicense(pluginPath: string): PreflightCheck {
+    const check: PreflightCheck = { id: 'license', title: 'LICENSE file present', status: 'pass', details: [] };
+    const licenseFile = LICENSE_FILES.find(fileName => fs.existsSync(path.join(pluginPath, fileName)));
+
+    if (!licenseFile) {
+      return { ...check, status: 'fail', details: [`None of ${LICENSE_FILES.join(', ')} found`] };
+    }
+    if (fs.readFileSync(path.join(pluginPath, licenseFile), 'utf8').trim() === '') {
+      return { ...check, status: 'fail', details: [`${licenseFile} is empty`] };
+    }
+
+    return check;
+  }
+}
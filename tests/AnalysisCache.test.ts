@@ -0,0 +1,100 @@
+/**
+ * Tests for AnalysisCache
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisCache, FileAnalysis } from '../src/analyzers/AnalysisCache';
+import { StateAnalyzer } from '../src/analyzers/StateAnalyzer';
+import { EventPatternAnalyzer } from '../src/analyzers/EventPatternAnalyzer';
+
+describe('AnalysisCache', () => {
+  let dir: string;
+  let cacheFile: string;
+
+  const analysis: FileAnalysis = {
+    patterns: [],
+    stateAnalysis: [],
+    eventPatterns: [],
+    lifecycleIssues: [],
+    unusedSuppressions: [{ file: 'main.ts', line: 3, rule: 'api-call', directive: 'ignore-next-line' }],
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workshop-cache-'));
+    cacheFile = path.join(dir, '.workshop-cache', 'analysis.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return stored results for unchanged content', () => {
+    const hash = AnalysisCache.hashContent('const a = 1;');
+    const cache = AnalysisCache.open(cacheFile, 'key');
+    cache.set('main.ts', hash, analysis);
+    cache.save();
+
+    const reopened = AnalysisCache.open(cacheFile, 'key');
+
+    expect(reopened.get('main.ts', hash)).toEqual(analysis);
+    expect(reopened.get('main.ts', AnalysisCache.hashContent('const a = 2;'))).toBeUndefined();
+    expect([reopened.hits, reopened.misses]).toEqual([1, 1]);
+  });
+
+  it('should discard entries written with a different analyzer key', () => {
+    const hash = AnalysisCache.hashContent('const a = 1;');
+    const cache = AnalysisCache.open(cacheFile, 'v1');
+    cache.set('main.ts', hash, analysis);
+    cache.save();
+
+    expect(AnalysisCache.open(cacheFile, 'v2').get('main.ts', hash)).toBeUndefined();
+  });
+
+  it('should only keep files seen during the last run', () => {
+    const hash = AnalysisCache.hashContent('x');
+    const first = AnalysisCache.open(cacheFile, 'key');
+    first.set('main.ts', hash, analysis);
+    first.set('deleted.ts', hash, analysis);
+    first.save();
+
+    const second = AnalysisCache.open(cacheFile, 'key');
+    second.get('main.ts', hash);
+    second.save();
+
+    const third = AnalysisCache.open(cacheFile, 'key');
+    expect(third.get('main.ts', hash)).toEqual(analysis);
+    expect(third.get('deleted.ts', hash)).toBeUndefined();
+  });
+
+  it('should start empty when the cache file is corrupt', () => {
+    fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+    fs.writeFileSync(cacheFile, '{ not json');
+
+    expect(AnalysisCache.open(cacheFile, 'key').get('main.ts', 'hash')).toBeUndefined();
+  });
+
+  it('should change the analyzer key when the description changes', () => {
+    expect(AnalysisCache.createAnalyzerKey({ rules: ['a'] })).toBe(AnalysisCache.createAnalyzerKey({ rules: ['a'] }));
+    expect(AnalysisCache.createAnalyzerKey({ rules: ['a'] })).not.toBe(AnalysisCache.createAnalyzerKey({ rules: ['b'] }));
+  });
+
+  it('should let cached results feed the aggregate metrics', () => {
+    const code = 'const handler = () => { this.count = this.count + 1; };\nwindow.addEventListener("resize", handler);';
+    const config = { enabled: true, trackGlobalState: true, trackLocalState: true, performanceMetrics: true };
+
+    const stateAnalyzer = new StateAnalyzer(config);
+    const eventAnalyzer = new EventPatternAnalyzer();
+    const stateResults = stateAnalyzer.analyzeCode(code, 'main.ts');
+    const eventResults = eventAnalyzer.analyzeCode(code, 'main.ts');
+
+    const replayedState = new StateAnalyzer(config);
+    const replayedEvents = new EventPatternAnalyzer();
+    replayedState.recordResults('main.ts', stateResults);
+    replayedEvents.recordResults('main.ts', eventResults);
+
+    expect(replayedState.getPerformanceMetrics()).toEqual(stateAnalyzer.getPerformanceMetrics());
+    expect(replayedEvents.getPerformanceSummary()).toEqual(eventAnalyzer.getPerformanceSummary());
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for the API index and ApiCompatibilityAnalyzer
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApiCompatibilityAnalyzer } from '../src/analyzers/ApiCompatibilityAnalyzer';
+import { buildApiIndex, compareVersions, loadApiIndex } from '../src/analyzers/compat/ApiIndex';
+
+const DECLARATIONS = `
+/** @public @since 0.9.7 */
+export class Workspace {
+  /** @since 0.16.0 */
+  getLeaf(newLeaf?: boolean): WorkspaceLeaf;
+  getActiveFile(): TFile | null;
+}
+/** @public @since 0.9.7 */
+export class WorkspaceLeaf {}
+/** @public @since 0.9.7 */
+export class TFile {}
+/** @public @since 0.9.7 */
+export class App {
+  workspace: Workspace;
+}
+/** @public @since 0.9.7 */
+export class Plugin {
+  app: App;
+  onload(): void;
+}
+/** @public @since 1.4.4 */
+export interface FrontMatterInfo {}
+/** @public @since 1.4.4 */
+export function getFrontMatterInfo(content: string): FrontMatterInfo;
+declare global {
+  interface HTMLElement {
+    /** @since 0.14.0 */
+    createDiv(): HTMLDivElement;
+  }
+}
+`;
+
+describe('ApiIndex', () => {
+  it('should index classes, members, functions and global augmentations', () => {
+    const index = buildApiIndex(DECLARATIONS, 'obsidian@test');
+
+    expect(index.source).toBe('obsidian@test');
+    expect(index.symbols).toEqual(expect.objectContaining({
+      'Workspace': '0.9.7',
+      'Workspace.getLeaf': '0.16.0',
+      'Workspace.getActiveFile': '0.9.7',
+      'getFrontMatterInfo': '1.4.4',
+      'HTMLElement.createDiv': '0.14.0',
+    }));
+  });
+
+  it('should compare versions numerically', () => {
+    expect(compareVersions('1.4.10', '1.4.9')).toBeGreaterThan(0);
+    expect(compareVersions('0.15.9', '1.0.0')).toBeLessThan(0);
+    expect(compareVersions('1.5.7-1', '1.5.7')).toBe(0);
+  });
+
+  it('should ship an index generated from the obsidian typings', () => {
+    expect(loadApiIndex().symbols['Workspace.getLeaf']).toBe('0.16.0');
+  });
+});
+
+describe('ApiCompatibilityAnalyzer', () => {
+  let dir: string;
+  let declarationsPath: string;
+  let analyzer: ApiCompatibilityAnalyzer;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workshop-compat-'));
+    declarationsPath = path.join(dir, 'obsidian.d.ts');
+    fs.writeFileSync(declarationsPath, DECLARATIONS);
+    analyzer = new ApiCompatibilityAnalyzer(buildApiIndex(DECLARATIONS, 'obsidian@test'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const analyze = (code: string, minAppVersion: string) => analyzer.analyzeFiles(
+    new Map([['main.ts', code]]),
+    { rootPath: dir, minAppVersion, declarationsPath }
+  );
+
+  it('should resolve members through the type checker and report newer APIs', () => {
+    const code = [
+      "import { Plugin, getFrontMatterInfo } from 'obsidian';",
+      'export default class MyPlugin extends Plugin {',
+      '  onload() {',
+      '    const leaf = this.app.workspace.getLeaf(true);',
+      '    this.app.workspace.getActiveFile();',
+      "    getFrontMatterInfo('');",
+      '  }',
+      '}',
+    ].join('\n');
+
+    const report = analyze(code, '0.15.0');
+
+    expect(report.issues.map(issue => [issue.symbol, issue.location.line])).toEqual([
+      ['getFrontMatterInfo', 1],
+      ['Workspace.getLeaf', 4],
+    ]);
+    expect(report.requiredVersion).toBe('1.4.4');
+    expect(report.symbols['Workspace.getActiveFile']).toBe('0.9.7');
+  });
+
+  it('should ignore type-only references and APIs covered by minAppVersion', () => {
+    const code = [
+      "import { Plugin, TFile, FrontMatterInfo } from 'obsidian';",
+      'export default class MyPlugin extends Plugin {',
+      '  info?: FrontMatterInfo;',
+      '  onload() {',
+      '    this.app.workspace.getLeaf();',
+      '  }',
+      '}',
+    ].join('\n');
+
+    expect(analyze(code, '0.16.0').issues).toEqual([]);
+  });
+
+  it('should honor suppression comments and report them as used', () => {
+    const code = [
+      "import { Plugin } from 'obsidian';",
+      'export default class MyPlugin extends Plugin {',
+      '  onload() {',
+      '    // workshop-ignore-next-line api-newer-than-min-app-version -- guarded by requireApiVersion',
+      '    this.app.workspace.getLeaf();',
+      '  }',
+      '}',
+    ].join('\n');
+
+    const report = analyze(code, '0.15.0');
+
+    expect(report.issues).toEqual([]);
+    expect(report.usedSuppressions).toEqual([
+      expect.objectContaining({ file: 'main.ts', line: 4, rule: 'api-newer-than-min-app-version' }),
+    ]);
+  });
+
+  it('should report APIs missing from older typings and warn about the typings version', () => {
+    const typingsDir = path.join(dir, 'typings');
+    fs.mkdirSync(typingsDir, { recursive: true });
+    fs.writeFileSync(path.join(typingsDir, 'obsidian.d.ts'), DECLARATIONS);
+    fs.writeFileSync(path.join(typingsDir, 'package.json'), JSON.stringify({ name: 'obsidian', version: '1.4.4' }));
+    const index = buildApiIndex(DECLARATIONS, 'obsidian@1.10.0');
+    index.symbols['App.isDarkMode'] = '1.10.0';
+    const code = [
+      "import { Plugin, requireApiVersion } from 'obsidian';",
+      'export default class MyPlugin extends Plugin {',
+      '  onload() {',
+      '    this.app.isDarkMode();',
+      '    this.app.openWithDefaultApp();',
+      '  }',
+      '}',
+    ].join('\n');
+
+    const report = new ApiCompatibilityAnalyzer(index).analyzeFiles(new Map([['main.ts', code]]), {
+      rootPath: dir,
+      minAppVersion: '1.4.4',
+      declarationsPath: path.join(typingsDir, 'obsidian.d.ts'),
+    });
+
+    expect(report.issues.map(issue => [issue.symbol, issue.location.line])).toEqual([['App.isDarkMode', 4]]);
+    expect(report.requiredVersion).toBe('1.10.0');
+    expect(report.unresolved).toEqual(['App.isDarkMode', 'App.openWithDefaultApp', 'requireApiVersion']);
+    expect(report.warnings).toEqual([expect.stringContaining('obsidian@1.4.4 typings, older than the API index (obsidian@1.10.0)')]);
+  });
+
+  it('should resolve against workshop typings that are not older than the shipped index', () => {
+    const report = new ApiCompatibilityAnalyzer().analyzeFiles(new Map(), { rootPath: dir, minAppVersion: '0.15.0' });
+
+    expect(report.warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for Baseline and finding collection
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Baseline } from '../src/reporting/Baseline';
+import { collectFindings, diffFindings } from '../src/reporting/Findings';
+import { PatternDetector } from '../src/analyzers/patterns/PatternDetector';
+import { Finding } from '../src/types/index';
+
+describe('Baseline', () => {
+  const finding = (overrides: Partial<Finding> = {}): Finding => ({
+    analyzer: 'pattern',
+    rule: 'api-call',
+    category: 'api',
+    severity: 'low',
+    message: 'api-call pattern detected',
+    file: 'main.ts',
+    line: 10,
+    column: 5,
+    context: 'await this.app.vault.read(file);',
+    ...overrides,
+  });
+
+  describe('fingerprint', () => {
+    it('should ignore line numbers and whitespace changes', () => {
+      const original = Baseline.fingerprint(finding());
+      const moved = Baseline.fingerprint(finding({ line: 42, column: 1, context: 'await   this.app.vault.read(file);' }));
+
+      expect(moved).toBe(original);
+    });
+
+    it('should differ by rule, file and code', () => {
+      const original = Baseline.fingerprint(finding());
+
+      expect(Baseline.fingerprint(finding({ rule: 'state-global' }))).not.toBe(original);
+      expect(Baseline.fingerprint(finding({ file: 'view.ts' }))).not.toBe(original);
+      expect(Baseline.fingerprint(finding({ context: 'await this.app.vault.modify(file, "");' }))).not.toBe(original);
+    });
+  });
+
+  describe('filterNew', () => {
+    it('should report only findings missing from the baseline', () => {
+      const baseline = Baseline.fromFindings([finding()]);
+      const added = finding({ context: 'await this.app.vault.delete(file);' });
+
+      expect(baseline.filterNew([finding({ line: 12 }), added])).toEqual([added]);
+    });
+
+    it('should report repeated findings beyond the recorded count', () => {
+      const baseline = Baseline.fromFindings([finding(), finding({ line: 11 })]);
+      const current = [finding(), finding({ line: 11 }), finding({ line: 30 })];
+
+      expect(baseline.size).toBe(2);
+      expect(baseline.filterNew(current)).toEqual([finding({ line: 30 })]);
+    });
+  });
+
+  describe('save and load', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workshop-baseline-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should round-trip through a file', () => {
+      const filePath = path.join(dir, 'baseline.json');
+      Baseline.fromFindings([finding()]).save(filePath);
+
+      const loaded = Baseline.load(filePath);
+
+      expect(loaded.size).toBe(1);
+      expect(loaded.filterNew([finding()])).toEqual([]);
+    });
+
+    it('should reject missing and unknown baseline files', () => {
+      const filePath = path.join(dir, 'baseline.json');
+      fs.writeFileSync(filePath, JSON.stringify({ version: 99, fingerprints: {} }));
+
+      expect(() => Baseline.load(path.join(dir, 'missing.json'))).toThrow('Baseline file not found');
+      expect(() => Baseline.load(filePath)).toThrow('Unsupported baseline format');
+    });
+  });
+
+  describe('collectFindings', () => {
+    it('should attach the source line to each pattern location', () => {
+      const code = 'const a = 1;\nawait this.app.vault.read(file);';
+      const patterns = new PatternDetector().analyzeCode(code, 'main.ts');
+
+      const findings = collectFindings(
+        { patterns, stateAnalysis: [], eventPatterns: [] },
+        new Map([['main.ts', code]])
+      );
+
+      expect(findings).toEqual([
+        expect.objectContaining({
+          rule: 'api-call',
+          line: 2,
+          context: 'await this.app.vault.read(file);',
+        }),
+      ]);
+    });
+  });
+
+  describe('diffFindings', () => {
+    it('should report added and removed findings but not moved ones', () => {
+      const kept = finding();
+      const removed = finding({ context: 'await this.app.vault.delete(file);' });
+      const added = finding({ rule: 'state-global', context: 'window.foo = 1;' });
+
+      const diff = diffFindings([kept, removed], [finding({ line: 40 }), added]);
+
+      expect(diff).toEqual({ added: [added], removed: [removed] });
+    });
+  });
+});
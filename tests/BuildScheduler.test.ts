@@ -0,0 +1,111 @@
+/**
+ * Tests for dependency-ordered concurrent plugin builds
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BuildScheduler, DependencyGraph, findWorkspaceDependencies } from '../src/bundler/BuildScheduler';
+
+const graphOf = (edges: Record<string, string[]>): DependencyGraph => new Map(Object.entries(edges));
+
+describe('findWorkspaceDependencies', () => {
+  let root: string;
+
+  const writePackage = (id: string, content: unknown) => {
+    fs.mkdirSync(path.join(root, id), { recursive: true });
+    fs.writeFileSync(path.join(root, id, 'package.json'), JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'workshop-scheduler-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should link plugins by package name and by local path', () => {
+    writePackage('shared-ui', { name: '@workshop/shared-ui' });
+    writePackage('utils', { name: 'utils-renamed' });
+    writePackage('word-count', { name: 'word-count', dependencies: { '@workshop/shared-ui': 'workspace:*', moment: '^2.0.0' } });
+    writePackage('reading-time', { name: 'reading-time', devDependencies: { whatever: 'file:../utils' }, peerDependencies: { 'word-count': '*' } });
+    fs.mkdirSync(path.join(root, 'no-package'));
+
+    const graph = findWorkspaceDependencies(root, ['no-package', 'reading-time', 'shared-ui', 'utils', 'word-count']);
+
+    expect(Object.fromEntries(graph)).toEqual({
+      'no-package': [],
+      'reading-time': ['utils', 'word-count'],
+      'shared-ui': [],
+      utils: [],
+      'word-count': ['shared-ui'],
+    });
+  });
+});
+
+describe('BuildScheduler', () => {
+  it('should order dependencies first and report cycles', () => {
+    expect(BuildScheduler.topologicalOrder(graphOf({ c: ['b'], b: ['a'], a: [], d: [] }))).toEqual(['a', 'b', 'c', 'd']);
+    expect(() => BuildScheduler.topologicalOrder(graphOf({ a: ['b'], b: ['c'], c: ['a'] })))
+      .toThrow('Dependency cycle: a → b → c → a');
+  });
+
+  it('should never run more builds than the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    const started: string[] = [];
+
+    const results = await new BuildScheduler(2).run(graphOf({ a: [], b: [], c: [], d: ['a'] }), async id => {
+      started.push(id);
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, id === 'b' ? 30 : 5));
+      active--;
+      return id.toUpperCase();
+    });
+
+    expect(peak).toBe(2);
+    expect(started).toEqual(['a', 'b', 'c', 'd']);
+    expect(results.map(result => [result.id, result.status, result.value])).toEqual([
+      ['a', 'success', 'A'],
+      ['b', 'success', 'B'],
+      ['c', 'success', 'C'],
+      ['d', 'success', 'D'],
+    ]);
+  });
+
+  it('should start dependents only after their dependencies built', async () => {
+    const finished: string[] = [];
+
+    await new BuildScheduler(4).run(graphOf({ app: ['lib'], lib: ['core'], core: [] }), async id => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      finished.push(id);
+    });
+
+    expect(finished).toEqual(['core', 'lib', 'app']);
+  });
+
+  it('should skip everything downstream of a failed build', async () => {
+    const ran: string[] = [];
+
+    const results = await new BuildScheduler(1).run(graphOf({ core: [], lib: ['core'], app: ['lib'], other: [] }), async id => {
+      ran.push(id);
+      if (id === 'core') {
+        throw new Error('syntax error');
+      }
+    });
+
+    expect(ran).toEqual(['core', 'other']);
+    expect(results.map(result => [result.id, result.status, result.blockedBy ?? result.error?.message])).toEqual([
+      ['core', 'failed', 'syntax error'],
+      ['lib', 'skipped', 'core'],
+      ['app', 'skipped', 'lib'],
+      ['other', 'success', undefined],
+    ]);
+  });
+
+  it('should reject invalid concurrency', () => {
+    expect(() => new BuildScheduler(0)).toThrow('positive integer');
+  });
+});
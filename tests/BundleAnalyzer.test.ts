@@ -0,0 +1,104 @@
+/**
+ * Tests for bundle size attribution
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Metafile } from 'esbuild';
+import { BundleAnalyzer, packageRoot } from '../src/bundler/BundleAnalyzer';
+
+const metafile = (inputs: Record<string, number>, bytes: number): Metafile => ({
+  inputs: {},
+  outputs: {
+    'main.js.map': { imports: [], exports: [], inputs: {}, bytes: 900 },
+    'main.js': {
+      imports: [],
+      exports: [],
+      entryPoint: 'main.ts',
+      inputs: Object.fromEntries(Object.entries(inputs).map(([input, bytesInOutput]) => [input, { bytesInOutput }])),
+      bytes,
+    },
+  },
+});
+
+describe('BundleAnalyzer', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'workshop-bundle-'));
+    [['node_modules/tiny', '1.0.0'], ['node_modules/dep/node_modules/tiny', '2.0.0'], ['node_modules/@scope/ui', '3.1.0']]
+      .forEach(([packagePath, version]) => {
+        fs.mkdirSync(path.join(root, packagePath), { recursive: true });
+        fs.writeFileSync(path.join(root, packagePath, 'package.json'), JSON.stringify({ version }));
+      });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const sample = metafile({
+    'main.ts': 300,
+    'src/view.ts': 200,
+    'src/icons/logo.svg': 12000,
+    'node_modules/tiny/index.js': 100,
+    'node_modules/dep/index.js': 150,
+    'node_modules/dep/node_modules/tiny/index.js': 120,
+    'node_modules/@scope/ui/dist/index.js': 400,
+    'node_modules/@scope/ui/dist/button.js': 100,
+    'unused.ts': 0,
+  }, 13500);
+
+  it('should attribute bytes to files and packages', () => {
+    const analysis = new BundleAnalyzer({ rootPath: root }).analyze(sample);
+
+    expect(analysis.outputFile).toBe('main.js');
+    expect(analysis.overheadBytes).toBe(130);
+    expect(analysis.files.map(file => file.path)).not.toContain('unused.ts');
+    expect(analysis.packages.map(bundlePackage => [bundlePackage.name, bundlePackage.version, bundlePackage.bytes, bundlePackage.files])).toEqual([
+      ['@scope/ui', '3.1.0', 500, 2],
+      ['dep', undefined, 150, 1],
+      ['tiny', '2.0.0', 120, 1],
+      ['tiny', '1.0.0', 100, 1],
+    ]);
+  });
+
+  it('should flag duplicate packages and large assets', () => {
+    const analysis = new BundleAnalyzer({ rootPath: root, largeAssetBytes: 10000 }).analyze(sample);
+
+    expect(analysis.duplicates).toEqual([expect.objectContaining({ name: 'tiny', wastedBytes: 100 })]);
+    expect(analysis.duplicates[0].instances.map(instance => instance.path)).toEqual(['node_modules/dep/node_modules/tiny', 'node_modules/tiny']);
+    expect(analysis.largeAssets).toEqual([{ path: 'src/icons/logo.svg', bytes: 12000, package: undefined }]);
+    expect(new BundleAnalyzer({ largeAssetBytes: 20000 }).analyze(sample).largeAssets).toEqual([]);
+  });
+
+  it('should print a tree with packages folded into one node', () => {
+    const analysis = new BundleAnalyzer({ rootPath: root }).analyze(sample);
+
+    expect(BundleAnalyzer.formatTree(analysis)).toBe([
+      'main.js  13.18 KB',
+      '├─ src  11.91 KB (90.4%)',
+      '│  ├─ icons  11.72 KB (88.9%)',
+      '│  │  └─ logo.svg  11.72 KB (88.9%)',
+      '│  └─ view.ts  200 B (1.5%)',
+      '├─ node_modules  870 B (6.4%)',
+      '│  ├─ @scope/ui@3.1.0  500 B (3.7%)',
+      '│  ├─ dep  150 B (1.1%)',
+      '│  ├─ dep/node_modules/tiny@2.0.0  120 B (0.9%)',
+      '│  └─ tiny@1.0.0  100 B (0.7%)',
+      '├─ main.ts  300 B (2.2%)',
+      '└─ (esbuild runtime and wrappers)  130 B (1.0%)',
+    ].join('\n'));
+  });
+
+  it('should find the innermost package folder of a path', () => {
+    expect(packageRoot('node_modules/a/node_modules/@b/c/lib/index.js')).toBe('node_modules/a/node_modules/@b/c');
+    expect(packageRoot('../../node_modules/moment/moment.js')).toBe('../../node_modules/moment');
+    expect(packageRoot('src/node_modules.ts')).toBeUndefined();
+  });
+
+  it('should require a JavaScript output', () => {
+    expect(() => new BundleAnalyzer().analyze({ inputs: {}, outputs: {} })).toThrow('No JavaScript output');
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Tests for the shared command line parser
+ */
+
+import { parseCommandLine } from '../src/config/CommandLine';
+
+describe('parseCommandLine', () => {
+  const spec = { values: ['--jobs', '--output'], flags: ['--dev', '--json'] };
+
+  it('should accept space-separated and inline option values', () => {
+    const spaced = parseCommandLine(['build', '--jobs', '4', '--dev'], spec);
+    const inline = parseCommandLine(['build', '--jobs=4', '--dev'], spec);
+
+    expect(spaced.positional).toEqual(['build']);
+    expect(spaced.values).toEqual({ '--jobs': '4' });
+    expect(spaced.flags).toEqual(new Set(['--dev']));
+    expect(inline).toEqual(spaced);
+  });
+
+  it('should keep positional arguments in order around options', () => {
+    const { positional, values } = parseCommandLine(['analyze-bundle', '--output', 'size.json', 'my-plugin', '--json'], spec);
+
+    expect(positional).toEqual(['analyze-bundle', 'my-plugin']);
+    expect(values['--output']).toBe('size.json');
+  });
+
+  it('should reject missing values, flag values and unknown options', () => {
+    expect(() => parseCommandLine(['build', '--jobs'], spec)).toThrow('--jobs requires a value');
+    expect(() => parseCommandLine(['build', '--jobs', '--dev'], spec)).toThrow('--jobs requires a value');
+    expect(() => parseCommandLine(['build', '--jobs='], spec)).toThrow('--jobs requires a value');
+    expect(() => parseCommandLine(['build', '--dev=yes'], spec)).toThrow('--dev does not take a value');
+    expect(() => parseCommandLine(['build', '--job', '4'], spec)).toThrow('Unknown option --job');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for HtmlReporter
+ */
+
+import { createHtmlReport, escapeHtml, HtmlReportInput } from '../src/reporting/HtmlReporter';
+import { Finding } from '../src/types/index';
+
+describe('HtmlReporter', () => {
+  const code = 'const a = 1;\nthis.app.vault.read(file);\nel.innerHTML = "<b>x</b>";';
+
+  const finding = (overrides: Partial<Finding> = {}): Finding => ({
+    analyzer: 'pattern',
+    rule: 'api-call',
+    category: 'api',
+    severity: 'low',
+    message: 'api-call pattern detected',
+    file: 'main.ts',
+    line: 2,
+    column: 1,
+    endLine: 2,
+    endColumn: 26,
+    context: 'this.app.vault.read(file);',
+    ...overrides,
+  });
+
+  const input = (overrides: Partial<HtmlReportInput> = {}): HtmlReportInput => ({
+    title: 'Plugin Analysis: sample',
+    generatedAt: new Date('2024-01-01T00:00:00Z'),
+    findings: [finding()],
+    sources: new Map([['main.ts', code]]),
+    patternSummary: { api: 1 },
+    stateMetrics: { totalStateVariables: 3 },
+    eventMetrics: { memoryLeakRisk: 0 },
+    ...overrides,
+  });
+
+  it('should produce a self-contained document', () => {
+    const html = createHtmlReport(input());
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<style>');
+    expect(html).toContain('<script>');
+    expect(html).not.toMatch(/<(link|script)[^>]+(href|src)=/);
+  });
+
+  it('should highlight the finding range in the source view', () => {
+    const html = createHtmlReport(input());
+
+    expect(html).toContain('id="file-0-L2"');
+    expect(html).toContain('<mark class="sev-low">this.app.vault.read(file)</mark>;');
+    expect(html).toContain('href="#file-0-L2"');
+  });
+
+  it('should escape source code and messages', () => {
+    const html = createHtmlReport(input({
+      findings: [finding({ line: 3, endLine: 3, column: 1, endColumn: 13, message: '<script>alert(1)</script>' })],
+    }));
+
+    expect(html).toContain('&quot;&lt;b&gt;x&lt;/b&gt;&quot;');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<b>x</b>');
+  });
+
+  it('should render metrics and a filter per severity and category', () => {
+    const html = createHtmlReport(input({
+      findings: [finding(), finding({ rule: 'listener-without-removal', category: 'memory', severity: 'high' })],
+    }));
+
+    expect(html).toContain('Total state variables');
+    expect(html).toContain('Memory leak risk');
+    ['high', 'medium', 'low'].forEach(severity => {
+      expect(html).toContain(`data-filter="severity" value="${severity}"`);
+    });
+    expect(html).toContain('data-filter="category" value="api"');
+    expect(html).toContain('data-filter="category" value="memory"');
+  });
+
+  it('should skip overlapping ranges on the same line', () => {
+    const html = createHtmlReport(input({
+      findings: [finding(), finding({ rule: 'inner', column: 10, endColumn: 15 })],
+    }));
+
+    expect(html.match(/<mark /g)).toHaveLength(1);
+  });
+
+  it('should escape attribute-sensitive characters', () => {
+    expect(escapeHtml(`a "b" & 'c'`)).toBe('a &quot;b&quot; &amp; &#39;c&#39;');
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for LifecycleAnalyzer
+ */
+
+import { LifecycleAnalyzer } from '../src/analyzers/LifecycleAnalyzer';
+
+describe('LifecycleAnalyzer', () => {
+  let analyzer: LifecycleAnalyzer;
+
+  beforeEach(() => {
+    analyzer = new LifecycleAnalyzer();
+  });
+
+  const rulesIn = (code: string): string[] =>
+    analyzer.analyzeCode(code, 'main.ts').map(issue => issue.rule);
+
+  it('should report resources acquired in onload and never released', () => {
+    const code = `
+      export default class MyPlugin extends Plugin {
+        async onload() {
+          document.addEventListener('click', this.onClick);
+          window.setInterval(() => this.tick(), 1000);
+          new MutationObserver(() => {}).observe(document.body, { childList: true });
+          this.app.vault.on('modify', () => {});
+          this.view = new EditorView({ parent: document.body });
+        }
+        onunload() {}
+      }
+    `;
+
+    expect(rulesIn(code)).toEqual([
+      'unreleased-dom-listener',
+      'unreleased-interval',
+      'unreleased-observer',
+      'unreleased-event-ref',
+      'unreleased-editor-extension',
+    ]);
+  });
+
+  it('should accept resources handed to register helpers', () => {
+    const code = `
+      class MyPlugin extends Plugin {
+        onload() {
+          this.registerDomEvent(document, 'click', () => {});
+          this.registerInterval(window.setInterval(() => {}, 1000));
+          this.registerEvent(this.app.workspace.on('file-open', () => {}));
+          const observer = new MutationObserver(() => {});
+          this.register(() => observer.disconnect());
+          this.registerEditorExtension([]);
+        }
+      }
+    `;
+
+    expect(rulesIn(code)).toEqual([]);
+  });
+
+  it('should accept stored handles that are registered afterwards', () => {
+    const code = `
+      class MyPlugin extends Plugin {
+        onload() {
+          const ref = this.app.vault.on('modify', () => {});
+          this.registerEvent(ref);
+          const id = window.setInterval(() => {}, 1000);
+          this.registerInterval(id);
+          this.poll = window.setInterval(() => {}, 5000);
+          this.register(() => window.clearTimeout(this.poll));
+          const leaked = this.app.workspace.on('file-open', () => {});
+          this.registerEvent(ref);
+        }
+      }
+    `;
+
+    expect(rulesIn(code)).toEqual(['unreleased-event-ref']);
+  });
+
+  it('should accept explicit releases in onunload and onClose', () => {
+    const code = `
+      class MyPlugin extends Plugin {
+        onload() {
+          this.timer = setInterval(() => {}, 500);
+          this.ref = this.app.metadataCache.on('changed', () => {});
+          document.addEventListener('keydown', this.onKey);
+        }
+        onunload() {
+          clearInterval(this.timer);
+          this.app.metadataCache.offref(this.ref);
+          document.removeEventListener('keydown', this.onKey);
+        }
+      }
+
+      class MyView extends ItemView {
+        async onOpen() {
+          this.observer = new ResizeObserver(() => {});
+        }
+        async onClose() {
+          this.observer.disconnect();
+        }
+      }
+    `;
+
+    expect(rulesIn(code)).toEqual([]);
+  });
+
+  it('should require the release to match the stored handle and event type', () => {
+    const code = `
+      class MyPlugin extends Plugin {
+        onload() {
+          this.timer = setInterval(() => {}, 500);
+          document.addEventListener('keydown', this.onKey);
+        }
+        onunload() {
+          clearInterval(this.otherTimer);
+          document.removeEventListener('keyup', this.onKey);
+        }
+      }
+    `;
+
+    expect(rulesIn(code)).toEqual(['unreleased-interval', 'unreleased-dom-listener']);
+  });
+
+  it('should follow helper methods called from lifecycle methods', () => {
+    const code = `
+      class MyView extends ItemView {
+        async onOpen() {
+          this.setupListeners();
+        }
+        setupListeners() {
+          this.containerEl.addEventListener('scroll', this.onScroll);
+        }
+        async onClose() {
+          this.teardown();
+        }
+        teardown() {}
+      }
+    `;
+
+    const [issue] = analyzer.analyzeCode(code, 'view.ts');
+
+    expect(issue).toEqual(expect.objectContaining({
+      rule: 'unreleased-dom-listener',
+      className: 'MyView',
+      method: 'setupListeners',
+      releaseMethod: 'onClose',
+      location: expect.objectContaining({ file: 'view.ts', line: 7 }),
+    }));
+    expect(issue.description).toContain('MyView.setupListeners (called from onOpen)');
+  });
+
+  it('should treat appended CodeMirror config as released only by a reconfigure', () => {
+    const appended = `
+      class MyPlugin extends Plugin {
+        onload() {
+          this.view.dispatch({ effects: StateEffect.appendConfig.of(myExtension) });
+        }
+        onunload() {}
+      }
+    `;
+    const reconfigured = appended.replace('onunload() {}', 'onunload() { this.view.dispatch({ effects: this.compartment.reconfigure([]) }); }');
+
+    expect(rulesIn(appended)).toEqual(['unreleased-editor-extension']);
+    expect(rulesIn(reconfigured)).toEqual([]);
+  });
+
+  it('should ignore classes without lifecycle methods and honor suppressions', () => {
+    const code = `
+      class Helper {
+        start() { setInterval(() => {}, 1000); }
+      }
+      class MyPlugin extends Plugin {
+        onload() {
+          // workshop-ignore-next-line unreleased-interval -- cleared by the host page
+          setInterval(() => {}, 1000);
+        }
+      }
+    `;
+
+    expect(rulesIn(code)).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for ManifestValidator
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ManifestValidator } from '../src/validation/ManifestValidator';
+
+describe('ManifestValidator', () => {
+  let root: string;
+  let pluginPath: string;
+  const validator = new ManifestValidator();
+
+  const manifest = {
+    id: 'my-plugin',
+    name: 'My Plugin',
+    version: '1.1.0',
+    minAppVersion: '1.0.0',
+    description: 'Does things',
+    author: 'Someone',
+    isDesktopOnly: false,
+  };
+
+  const write = (fileName: string, content: unknown) => {
+    const filePath = path.join(pluginPath, fileName);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  const checksFor = () => validator.validate(pluginPath).issues.map(issue => `${issue.check}: ${issue.message}`);
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'workshop-validate-'));
+    pluginPath = path.join(root, 'my-plugin');
+    fs.mkdirSync(pluginPath);
+    write('manifest.json', manifest);
+    write('versions.json', { '1.0.0': '0.15.0', '1.1.0': '1.0.0' });
+    write('package.json', { name: 'my-plugin', version: '1.1.0' });
+    write('main.ts', "import { Plugin } from 'obsidian';\nexport default class MyPlugin extends Plugin {}\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should accept a consistent plugin', () => {
+    const result = validator.validate(pluginPath);
+
+    expect(result.issues).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should enforce the community id rules', () => {
+    write('manifest.json', { ...manifest, id: 'Obsidian-Helper' });
+
+    expect(checksFor()).toEqual([
+      'manifest-id: id "Obsidian-Helper" must not contain "obsidian"',
+      'manifest-id: id "Obsidian-Helper" must use lowercase letters, digits and dashes only',
+      'manifest-id: id "Obsidian-Helper" does not match the plugin folder "my-plugin"',
+    ]);
+  });
+
+  it('should reject ids with characters other than lowercase letters, digits and dashes', () => {
+    write('manifest.json', { ...manifest, id: 'my_plugin' });
+
+    expect(checksFor()).toContain('manifest-id: id "my_plugin" must use lowercase letters, digits and dashes only');
+  });
+
+  it('should check required fields and version formats', () => {
+    const invalid: Partial<typeof manifest> = { ...manifest, version: 'v1.1', minAppVersion: '1.0' };
+    delete invalid.author;
+    write('manifest.json', invalid);
+
+    expect(checksFor()).toEqual(expect.arrayContaining([
+      'manifest-field: "author" is required and must be a non-empty string',
+      'manifest-version: version "v1.1" must be in x.y.z format',
+      'manifest-version: minAppVersion "1.0" must be in x.y.z format',
+    ]));
+  });
+
+  it('should require isDesktopOnly when Node.js or Electron modules are imported', () => {
+    write('src/files.ts', "import * as fs from 'fs';\nconst { shell } = require('electron');\n");
+
+    const result = validator.validate(pluginPath);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(issue => [issue.file, issue.line, issue.check])).toEqual([
+      [path.join('src', 'files.ts'), 1, 'desktop-only'],
+      [path.join('src', 'files.ts'), 2, 'desktop-only'],
+    ]);
+
+    write('manifest.json', { ...manifest, isDesktopOnly: true });
+    expect(validator.validate(pluginPath).valid).toBe(true);
+  });
+
+  it('should ignore type-only imports of desktop-only modules', () => {
+    write('src/types.ts', [
+      "import type { Stats } from 'fs';",
+      "import { type ParsedPath } from 'path';",
+      "export type { ChildProcess } from 'child_process';",
+      "import { type Dirent, readdirSync } from 'fs';",
+    ].join('\n'));
+
+    expect(validator.validate(pluginPath).issues.map(issue => [issue.line, issue.check])).toEqual([[4, 'desktop-only']]);
+  });
+
+  it('should warn when isDesktopOnly is set without desktop-only imports', () => {
+    write('manifest.json', { ...manifest, isDesktopOnly: true });
+
+    const result = validator.validate(pluginPath);
+
+    expect(result.valid).toBe(true);
+    expect(result.issues.map(issue => issue.severity)).toEqual(['warning']);
+  });
+
+  it('should check versions.json presence, history and current entry', () => {
+    fs.unlinkSync(path.join(pluginPath, 'versions.json'));
+    expect(checksFor()).toEqual(['versions-json: versions.json not found; it maps plugin versions to minAppVersion']);
+
+    write('versions.json', { '1.0.0': '1.2.0', '1.0.10': '1.0.0' });
+    expect(checksFor()).toEqual([
+      'versions-json: minAppVersion decreases from 1.2.0 (1.0.0) to 1.0.0 (1.0.10)',
+      'versions-json: no entry for the manifest version 1.1.0',
+    ]);
+
+    write('versions.json', '{ broken');
+    expect(checksFor()).toEqual([expect.stringMatching(/^invalid-json: versions.json is not valid/)]);
+  });
+
+  it('should require package.json to match the manifest version', () => {
+    write('package.json', { name: 'my-plugin', version: '1.0.0' });
+
+    expect(checksFor()).toEqual(['package-version: version 1.0.0 does not match the manifest version 1.1.0']);
+  });
+
+  it('should fail when manifest.json is missing', () => {
+    fs.unlinkSync(path.join(pluginPath, 'manifest.json'));
+
+    expect(validator.validate(pluginPath)).toEqual(expect.objectContaining({ valid: false }));
+    expect(checksFor()).toEqual(['manifest-missing: manifest.json not found']);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for the in-memory editor behind MarkdownView and PluginTestRunner.openEditor
+ */
+
+import { MockEditor, parseCursorMarkers } from '../src/testing/MockEditor';
+import { PluginTestHelpers } from '../src/testing/PluginTestUtils';
+
+describe('MockEditor', () => {
+  it('should round-trip cursor-marker strings', () => {
+    expect(parseCursorMarkers('a|b\n{cd|} {|ef} g\\|h')).toEqual({
+      text: 'ab\ncd ef g|h',
+      selections: [
+        { anchor: { line: 0, ch: 1 }, head: { line: 0, ch: 1 } },
+        { anchor: { line: 1, ch: 0 }, head: { line: 1, ch: 2 } },
+        { anchor: { line: 1, ch: 5 }, head: { line: 1, ch: 3 } },
+      ],
+    });
+    expect(MockEditor.fromMarked('a|b\n{cd|} {|ef} g\\|h').toMarked()).toBe('a|b\n{cd|} {|ef} g\\|h');
+    expect(new MockEditor('plain').toMarked()).toBe('|plain');
+    expect(() => parseCursorMarkers('{oops')).toThrow('Unclosed { in cursor-marker string');
+  });
+
+  it('should read and edit lines and ranges with clipped positions', () => {
+    const editor = new MockEditor('first\nsecond\nthird');
+
+    expect(editor.lineCount()).toBe(3);
+    expect(editor.lastLine()).toBe(2);
+    expect(editor.getRange({ line: 0, ch: 2 }, { line: 1, ch: 3 })).toBe('rst\nsec');
+    expect(editor.posToOffset({ line: 1, ch: 99 })).toBe(12);
+    expect(editor.offsetToPos(13)).toEqual({ line: 2, ch: 0 });
+    expect(editor.offsetToPos(99)).toEqual({ line: 2, ch: 5 });
+
+    editor.setLine(1, '2nd');
+    editor.replaceRange('1st', { line: 0, ch: 0 }, { line: 0, ch: 5 });
+    editor.replaceRange('!', { line: 2, ch: 5 });
+
+    expect(editor.getValue()).toBe('1st\n2nd\nthird!');
+    expect(editor.wordAt({ line: 2, ch: 2 })).toEqual({ from: { line: 2, ch: 0 }, to: { line: 2, ch: 5 } });
+    expect(editor.wordAt({ line: 2, ch: 6 })).toBeNull();
+  });
+
+  it('should keep cursors before text inserted at them and map selections through edits', () => {
+    const editor = MockEditor.fromMarked('ab| cd {ef|}');
+
+    editor.replaceRange('X', { line: 0, ch: 2 });
+    expect(editor.toMarked()).toBe('ab|X cd {ef|}');
+
+    editor.replaceRange('', { line: 0, ch: 0 }, { line: 0, ch: 3 });
+    expect(editor.toMarked()).toBe('| cd {ef|}');
+    expect(editor.getCursor('from')).toEqual({ line: 0, ch: 0 });
+  });
+
+  it('should replace every selection and merge overlapping ones', () => {
+    const editor = MockEditor.fromMarked('{one|} two {three|}');
+    expect(editor.getSelection()).toBe('one\nthree');
+
+    editor.replaceSelection('X');
+    PluginTestHelpers.assertEditor(editor, 'X| two X|');
+    expect(editor.somethingSelected()).toBe(false);
+
+    editor.setSelections([
+      { anchor: { line: 0, ch: 0 }, head: { line: 0, ch: 4 } },
+      { anchor: { line: 0, ch: 2 }, head: { line: 0, ch: 5 } },
+      { anchor: { line: 0, ch: 99 } },
+    ], 2);
+    expect(editor.listSelections()).toHaveLength(2);
+    expect(editor.toMarked()).toBe('{X two|} X|');
+    expect(editor.getCursor()).toEqual({ line: 0, ch: 7 });
+    expect(() => PluginTestHelpers.assertEditor(editor, 'X two X|')).toThrow('Expected editor "X two X|", got "{X two|} X|"');
+  });
+
+  it('should apply transactions against the original document as one undo step', () => {
+    const editor = MockEditor.fromMarked('- a\n- b|');
+
+    editor.transaction({
+      changes: [
+        { from: { line: 0, ch: 2 }, to: { line: 0, ch: 3 }, text: 'alpha' },
+        { from: { line: 1, ch: 2 }, to: { line: 1, ch: 3 }, text: 'beta' },
+      ],
+      selection: { from: { line: 0, ch: 2 }, to: { line: 0, ch: 7 } },
+    });
+    expect(editor.toMarked()).toBe('- {alpha|}\n- beta');
+    expect(editor.historySize()).toEqual({ undo: 1, redo: 0 });
+    expect(() => editor.transaction({ changes: [
+      { from: { line: 0, ch: 0 }, to: { line: 0, ch: 3 }, text: '' },
+      { from: { line: 0, ch: 2 }, text: '' },
+    ] })).toThrow('Overlapping changes in one transaction');
+
+    editor.undo();
+    expect(editor.toMarked()).toBe('- a\n- b|');
+    editor.redo();
+    expect(editor.toMarked()).toBe('- {alpha|}\n- beta');
+
+    editor.undo();
+    editor.replaceSelection('!');
+    editor.redo();
+    expect(editor.toMarked()).toBe('- a\n- b!|');
+  });
+
+  it('should process lines in one transaction', () => {
+    const editor = new MockEditor('- [ ] one\ntext\n- [ ] two');
+
+    editor.processLines(
+      (_line, text) => (text.startsWith('- [ ]') ? text : null),
+      (line, text) => ({ from: { line, ch: 3 }, to: { line, ch: 4 }, text: 'x' }),
+      true
+    );
+
+    expect(editor.getValue()).toBe('- [x] one\ntext\n- [x] two');
+    expect(editor.historySize().undo).toBe(1);
+  });
+
+  it('should run movement and line commands through exec', () => {
+    const editor = MockEditor.fromMarked('one\ntw|o\nthree');
+
+    editor.exec('goUp');
+    expect(editor.toMarked()).toBe('on|e\ntwo\nthree');
+    editor.exec('goWordRight');
+    editor.exec('goRight');
+    editor.exec('goDown');
+    expect(editor.toMarked()).toBe('one\ntwo\n|three');
+    editor.exec('swapLineDown');
+    editor.exec('goUp');
+    expect(editor.toMarked()).toBe('one\n|two\nthree');
+
+    editor.exec('swapLineDown');
+    expect(editor.toMarked()).toBe('one\nthree\n|two');
+    editor.exec('indentMore');
+    expect(editor.getValue()).toBe('one\nthree\n\ttwo');
+    editor.exec('deleteLine');
+    expect(editor.toMarked()).toBe('one\n|three');
+    expect(() => editor.exec('selectEverything')).toThrow('Unknown editor command: selectEverything');
+  });
+});
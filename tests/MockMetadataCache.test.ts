@@ -0,0 +1,151 @@
+/**
+ * Tests for the metadata cache the mock app builds from its vault
+ */
+
+import { TFile } from 'obsidian';
+import { MockMetadataCache, parseMarkdown } from '../src/testing/MockMetadataCache';
+import { MockVault } from '../src/testing/MockVault';
+import { PluginTestRunner } from '../src/testing/PluginTestUtils';
+
+describe('parseMarkdown', () => {
+  it('should parse frontmatter, headings, tags and sections with positions', () => {
+    const content = [
+      '---',
+      'title: Plan',
+      'tags: [project]',
+      'related: "[[Roadmap]]"',
+      '---',
+      '# Plan #draft',
+      '',
+      'Some text with #idea and `#not-a-tag`.',
+      '',
+      '- item one',
+      '- item two ^second',
+      '',
+      '```js',
+      'const link = "[[Ignored]]";',
+      '```',
+    ].join('\n');
+
+    const cache = parseMarkdown(content);
+
+    expect(cache.frontmatter).toEqual({ title: 'Plan', tags: ['project'], related: '[[Roadmap]]' });
+    expect(cache.frontmatterPosition).toEqual({ start: { line: 0, col: 0, offset: 0 }, end: { line: 4, col: 3, offset: 58 } });
+    expect(cache.frontmatterLinks).toEqual([{ key: 'related', link: 'Roadmap', original: '[[Roadmap]]', displayText: 'Roadmap' }]);
+    expect(cache.headings).toEqual([{ heading: 'Plan #draft', level: 1, position: expect.objectContaining({ start: { line: 5, col: 0, offset: 59 } }) }]);
+    expect(cache.tags!.map(tag => [tag.tag, tag.position.start.line, tag.position.start.col])).toEqual([
+      ['#draft', 5, 7],
+      ['#idea', 7, 15],
+    ]);
+    expect(cache.sections!.map(section => [section.type, section.position.start.line, section.position.end.line])).toEqual([
+      ['yaml', 0, 4],
+      ['heading', 5, 5],
+      ['paragraph', 7, 7],
+      ['list', 9, 10],
+      ['code', 12, 14],
+    ]);
+    expect(cache.blocks).toEqual({ second: { id: 'second', position: expect.objectContaining({ start: { line: 10, col: 0, offset: 125 } }) } });
+    expect(cache.links).toBeUndefined();
+  });
+
+  it('should find wikilinks, markdown links and embeds but skip external URLs', () => {
+    const cache = parseMarkdown('See [[Roadmap#Q1|the plan]], [notes](Meeting%20Notes.md) and [site](https://example.com).\n![[diagram.png]]\n\nA paragraph. ^summary');
+
+    expect(cache.links).toEqual([
+      expect.objectContaining({ link: 'Roadmap#Q1', displayText: 'the plan', original: '[[Roadmap#Q1|the plan]]' }),
+      expect.objectContaining({ link: 'Meeting Notes.md', displayText: 'notes' }),
+    ]);
+    expect(cache.links![0].position.start).toEqual({ line: 0, col: 4, offset: 4 });
+    expect(cache.embeds).toEqual([expect.objectContaining({ link: 'diagram.png', position: expect.objectContaining({ start: { line: 1, col: 0, offset: 90 } }) })]);
+    expect(cache.sections!.map(section => section.type)).toEqual(['paragraph', 'paragraph']);
+    expect(cache.sections![1].id).toBe('summary');
+    expect(cache.blocks!.summary.position).toEqual(cache.sections![1].position);
+  });
+});
+
+describe('MockMetadataCache', () => {
+  let vault: MockVault;
+  let cache: MockMetadataCache;
+
+  beforeEach(() => {
+    vault = new MockVault([
+      { path: 'Index.md', content: '[[Roadmap]], [[Ideas]] and [[Missing]]\n![[pixel.png]]' },
+      { path: 'Roadmap.md', content: '# Roadmap' },
+      { path: 'Projects/Ideas.md', content: 'Back to [[Index]]' },
+      { path: 'Archive/2023/Ideas.md', content: 'old ideas' },
+      { path: 'Archive/2023/Notes.md', content: '[[Ideas]]' },
+    ]);
+    cache = new MockMetadataCache(vault);
+  });
+
+  it('should resolve links like Obsidian and track unresolved ones', () => {
+    expect(cache.getFirstLinkpathDest('Ideas', 'Index.md')!.path).toBe('Projects/Ideas.md');
+    expect(cache.getFirstLinkpathDest('Ideas', 'Archive/2023/Notes.md')!.path).toBe('Archive/2023/Ideas.md');
+    expect(cache.getFirstLinkpathDest('archive/2023/ideas', 'Index.md')!.path).toBe('Archive/2023/Ideas.md');
+    expect(cache.getFirstLinkpathDest('../Roadmap', 'Projects/Ideas.md')!.path).toBe('Roadmap.md');
+    expect(cache.getFirstLinkpathDest('Roadmap#Q1', 'Index.md')!.path).toBe('Roadmap.md');
+    expect(cache.getFirstLinkpathDest('Nope', 'Index.md')).toBeNull();
+
+    expect(cache.resolvedLinks['Index.md']).toEqual({ 'Roadmap.md': 1, 'Projects/Ideas.md': 1 });
+    expect(cache.unresolvedLinks['Index.md']).toEqual({ Missing: 1, 'pixel.png': 1 });
+    expect(cache.resolvedLinks['Roadmap.md']).toEqual({});
+
+    const archived = vault.getFileByPath('Archive/2023/Ideas.md')!;
+    expect(cache.fileToLinktext(vault.getFileByPath('Roadmap.md')!, 'Index.md')).toBe('Roadmap');
+    expect(cache.fileToLinktext(archived, 'Index.md')).toBe('Archive/2023/Ideas');
+    expect(cache.fileToLinktext(archived, 'Archive/2023/Notes.md', false)).toBe('Ideas.md');
+  });
+
+  it('should re-parse on modify and fire changed, resolve and resolved before the write resolves', async () => {
+    const roadmap = vault.getFileByPath('Roadmap.md')!;
+    const events: string[] = [];
+    cache.on('changed', (file: TFile, data: string) => events.push(`changed ${file.path} ${JSON.stringify(data)}`));
+    cache.on('resolve', (file: TFile) => events.push(`resolve ${file.path}`));
+    cache.on('resolved', () => events.push('resolved'));
+
+    await vault.modify(roadmap, '# Roadmap\n[[Missing]]');
+
+    expect(events).toEqual(['changed Roadmap.md "# Roadmap\\n[[Missing]]"', 'resolve Roadmap.md', 'resolved']);
+    expect(cache.getFileCache(roadmap)!.links!.map(link => link.link)).toEqual(['Missing']);
+    expect(cache.unresolvedLinks['Roadmap.md']).toEqual({ Missing: 1 });
+  });
+
+  it('should resolve dangling links once their target is created', async () => {
+    const resolved: string[] = [];
+    cache.on('resolve', (file: TFile) => resolved.push(file.path));
+
+    await vault.create('Missing.md', '');
+    await vault.createBinary('pixel.png', new ArrayBuffer(1));
+
+    expect(resolved).toEqual(['Missing.md', 'Index.md', 'Index.md']);
+    expect(cache.resolvedLinks['Index.md']).toEqual({ 'Roadmap.md': 1, 'Projects/Ideas.md': 1, 'Missing.md': 1, 'pixel.png': 1 });
+    expect(cache.unresolvedLinks['Index.md']).toEqual({});
+  });
+
+  it('should follow renames and deletes', async () => {
+    const roadmap = vault.getFileByPath('Roadmap.md')!;
+    const deleted: string[] = [];
+    cache.on('deleted', (file: TFile, previous) => deleted.push(`${file.path} ${previous.headings[0].heading}`));
+
+    await vault.rename(roadmap, 'Plans/2025.md');
+    expect(cache.getCache('Roadmap.md')).toBeNull();
+    expect(cache.getFileCache(roadmap)!.headings![0].heading).toBe('Roadmap');
+    expect(cache.unresolvedLinks['Index.md']).toEqual({ Missing: 1, 'pixel.png': 1, Roadmap: 1 });
+
+    await vault.delete(roadmap);
+    expect(deleted).toEqual(['Plans/2025.md Roadmap']);
+    expect(cache.getCache('Plans/2025.md')).toBeNull();
+    expect(cache.resolvedLinks['Plans/2025.md']).toBeUndefined();
+  });
+
+  it('should be available to plugins through app.metadataCache', async () => {
+    const runner = new PluginTestRunner({ files: [{ path: 'Note.md', content: '---\nstatus: draft\n---\nBody' }] });
+    const app = runner.getApp();
+
+    const note = app.vault.getFileByPath('Note.md')!;
+    expect(app.metadataCache.getFileCache(note)!.frontmatter).toEqual({ status: 'draft' });
+
+    await app.vault.process(note, data => data.replace('draft', 'done'));
+    expect(app.metadataCache.getFileCache(note)!.frontmatter).toEqual({ status: 'done' });
+  });
+});
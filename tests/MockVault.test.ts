@@ -0,0 +1,147 @@
+/**
+ * Tests for the in-memory vault used by PluginTestRunner
+ */
+
+import { Plugin, TAbstractFile, TFile, TFolder } from 'obsidian';
+import { MockVault } from '../src/testing/MockVault';
+import { PluginTestRunner } from '../src/testing/PluginTestUtils';
+
+describe('MockVault', () => {
+  let vault: MockVault;
+  let events: string[];
+
+  const file = (path: string) => vault.getFileByPath(path)!;
+
+  beforeEach(() => {
+    vault = new MockVault([
+      { path: 'README.md', content: '# Vault' },
+      { path: 'Notes/Ideas.md', content: 'first idea' },
+      { path: 'Notes/Archive/Old.md', content: 'old' },
+    ]);
+    events = [];
+    (['create', 'modify', 'delete'] as const).forEach(name =>
+      vault.on(name, (entry: TAbstractFile) => events.push(`${name} ${entry.path}`))
+    );
+    vault.on('rename', (entry: TAbstractFile, oldPath: string) => events.push(`rename ${oldPath} → ${entry.path}`));
+  });
+
+  it('should model the folder tree with TFile and TFolder instances', () => {
+    const notes = vault.getFolderByPath('Notes')!;
+
+    expect(notes).toBeInstanceOf(TFolder);
+    expect(notes.parent).toBe(vault.getRoot());
+    expect(vault.getRoot().isRoot()).toBe(true);
+    expect(notes.children.map(child => child.name)).toEqual(['Ideas.md', 'Archive']);
+    expect(file('Notes/Ideas.md')).toBeInstanceOf(TFile);
+    expect(file('Notes/Ideas.md')).toEqual(expect.objectContaining({ basename: 'Ideas', extension: 'md', parent: notes }));
+    expect(vault.getFileByPath('Notes')).toBeNull();
+    expect(vault.getAllFolders().map(folder => folder.path)).toEqual(['Notes', 'Notes/Archive']);
+    expect(vault.getMarkdownFiles()).toHaveLength(3);
+  });
+
+  it('should create files and missing folders, and refuse existing paths', async () => {
+    const created = await vault.create('Daily/2024/01-01.md', '- [ ] task');
+
+    expect(created.parent!.path).toBe('Daily/2024');
+    expect(created.stat.size).toBe(10);
+    expect(events).toEqual(['create Daily', 'create Daily/2024', 'create Daily/2024/01-01.md']);
+    await expect(vault.create('README.md', 'again')).rejects.toThrow('File already exists.');
+    await expect(vault.createFolder('Notes')).rejects.toThrow('Folder already exists.');
+  });
+
+  it('should modify, append and process content with modify events', async () => {
+    const ideas = file('Notes/Ideas.md');
+
+    await vault.modify(ideas, 'idea', { mtime: 42 });
+    expect(ideas.stat.mtime).toBe(42);
+    await vault.append(ideas, '\nsecond idea');
+    const processed = await vault.process(ideas, data => data.toUpperCase());
+
+    expect(processed).toBe('IDEA\nSECOND IDEA');
+    expect(await vault.cachedRead(ideas)).toBe('IDEA\nSECOND IDEA');
+    expect(events).toEqual(['modify Notes/Ideas.md', 'modify Notes/Ideas.md', 'modify Notes/Ideas.md']);
+  });
+
+  it('should round-trip binary files', async () => {
+    const image = await vault.createBinary('attachments/pixel.png', new Uint8Array([137, 80, 78, 71]).buffer);
+
+    expect(Array.from(new Uint8Array(await vault.readBinary(image)))).toEqual([137, 80, 78, 71]);
+    expect(image.stat.size).toBe(4);
+    expect(Array.from(new Uint8Array(await vault.readBinary(file('README.md'))))).toEqual(Array.from(Buffer.from('# Vault')));
+  });
+
+  it('should move folders with their contents and fire a rename per entry', async () => {
+    const old = file('Notes/Archive/Old.md');
+
+    await vault.rename(vault.getFolderByPath('Notes')!, 'Projects/Notes 2');
+
+    expect(old.path).toBe('Projects/Notes 2/Archive/Old.md');
+    expect(await vault.read(old)).toBe('old');
+    expect(vault.getAbstractFileByPath('Notes')).toBeNull();
+    expect(events).toEqual([
+      'create Projects',
+      'rename Notes → Projects/Notes 2',
+      'rename Notes/Ideas.md → Projects/Notes 2/Ideas.md',
+      'rename Notes/Archive → Projects/Notes 2/Archive',
+      'rename Notes/Archive/Old.md → Projects/Notes 2/Archive/Old.md',
+    ]);
+    await expect(vault.rename(old, 'README.md')).rejects.toThrow('Destination file already exists!');
+  });
+
+  it('should copy files and folders', async () => {
+    const copy = await vault.copy(file('README.md'), 'Copy.md');
+    await vault.copy(vault.getFolderByPath('Notes')!, 'Backup');
+
+    expect(await vault.read(copy)).toBe('# Vault');
+    expect(await vault.read(file('Backup/Archive/Old.md'))).toBe('old');
+    await expect(vault.copy(copy, 'README.md')).rejects.toThrow('File already exists.');
+  });
+
+  it('should delete folders recursively and reject stale files', async () => {
+    const old = file('Notes/Archive/Old.md');
+
+    await vault.delete(vault.getFolderByPath('Notes')!);
+
+    expect(events).toEqual(['delete Notes/Archive/Old.md', 'delete Notes/Archive', 'delete Notes/Ideas.md', 'delete Notes']);
+    expect(vault.getRoot().children.map(child => child.path)).toEqual(['README.md']);
+    await expect(vault.read(old)).rejects.toThrow('File not found: Notes/Archive/Old.md');
+    await expect(vault.modify(old, 'x')).rejects.toThrow('File not found');
+  });
+
+  it('should detach handlers with offref and when a plugin unloads', async () => {
+    class Watcher extends Plugin {
+      async onload() {
+        this.registerEvent(this.app.vault.on('create', () => undefined));
+      }
+    }
+
+    const runner = new PluginTestRunner();
+    const runnerVault = runner.getApp().vault;
+    // The app's metadata cache listens to the vault too
+    const baseline = runnerVault.listenerCount('create');
+    await runner.loadPlugin(Watcher, { id: 'watcher' });
+    await runner.enablePlugin();
+    expect(runnerVault.listenerCount('create')).toBe(baseline + 1);
+
+    await runner.disablePlugin();
+    expect(runnerVault.listenerCount('create')).toBe(baseline);
+
+    const ref = vault.on('modify', () => undefined);
+    vault.offref(ref);
+    expect(vault.listenerCount('modify')).toBe(1);
+  });
+
+  it('should run every handler and then rethrow the first handler error', async () => {
+    vault.on('modify', () => {
+      throw new Error('first handler failed');
+    });
+    vault.on('modify', () => {
+      throw new Error('second handler failed');
+    });
+    vault.on('modify', () => events.push('last handler'));
+
+    await expect(vault.modify(file('README.md'), 'changed')).rejects.toThrow('first handler failed');
+    expect(events).toEqual(['modify README.md', 'last handler']);
+    expect(await vault.read(file('README.md'))).toBe('changed');
+  });
+});
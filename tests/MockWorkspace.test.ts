@@ -0,0 +1,204 @@
+/**
+ * Tests for the leaves, views and events of the mock workspace
+ */
+
+import { ItemView, MarkdownView, Plugin, TFile } from 'obsidian';
+import { MockWorkspace, MockWorkspaceLeaf } from '../src/testing/MockWorkspace';
+import { PluginTestRunner } from '../src/testing/PluginTestUtils';
+
+const lifecycle: string[] = [];
+
+class CounterView extends ItemView {
+  count = 0;
+
+  getViewType(): string {
+    return 'counter';
+  }
+
+  getDisplayText(): string {
+    return 'Counter';
+  }
+
+  protected async onOpen(): Promise<void> {
+    lifecycle.push('open');
+  }
+
+  protected async onClose(): Promise<void> {
+    lifecycle.push('close');
+  }
+}
+
+class CounterPlugin extends Plugin {
+  async onload() {
+    this.registerView('counter', leaf => new CounterView(leaf));
+    this.app.workspace.onLayoutReady(() => lifecycle.push('layout ready'));
+  }
+}
+
+describe('MockWorkspace', () => {
+  let runner: PluginTestRunner;
+  let workspace: MockWorkspace;
+  let events: string[];
+
+  beforeEach(() => {
+    lifecycle.length = 0;
+    runner = new PluginTestRunner({
+      files: [
+        { path: 'Inbox.md', content: 'inbox' },
+        { path: 'Projects/Plan.md', content: '# Plan' },
+      ],
+    });
+    workspace = runner.getApp().workspace;
+    events = [];
+    workspace.on('layout-change', () => events.push('layout-change'));
+    workspace.on('active-leaf-change', (leaf: MockWorkspaceLeaf | null) => events.push(`active-leaf-change ${leaf ? leaf.view.getViewType() : null}`));
+    workspace.on('file-open', (file: TFile | null) => events.push(`file-open ${file ? file.path : null}`));
+  });
+
+  it('should reuse, add and split leaves like getLeaf does', () => {
+    const first = workspace.getLeaf(false);
+    expect(workspace.getLeaf(false)).toBe(first);
+    expect(first.view.getViewType()).toBe('empty');
+
+    first.setPinned(true);
+    const tab = workspace.getLeaf(false);
+    const split = workspace.getLeaf('split');
+    const popout = workspace.getLeaf('window');
+    const sidebar = workspace.getRightLeaf(false)!;
+
+    expect(tab).not.toBe(first);
+    expect(workspace.rootSplit.children.map(tabs => tabs.children.length)).toEqual([2, 1]);
+    expect(split.parent.parent).toBe(workspace.rootSplit);
+    expect(popout.getRoot()).toBe(workspace.floatingSplit);
+    expect(sidebar.getRoot()).toBe(workspace.rightSplit);
+    expect(workspace.getLeavesOfType('empty')).toHaveLength(5);
+
+    const root: MockWorkspaceLeaf[] = [];
+    workspace.iterateRootLeaves(leaf => root.push(leaf));
+    expect(root).not.toContain(sidebar);
+    expect(events).toEqual(Array(5).fill('layout-change'));
+  });
+
+  it('should open registered views, reveal them and call onClose when detached', async () => {
+    await runner.loadPlugin(CounterPlugin, { id: 'counter', name: 'Counter' });
+    await runner.enablePlugin();
+
+    workspace.rightSplit.collapse();
+    const leaf = workspace.getRightLeaf(false)!;
+    await leaf.setViewState({ type: 'counter', active: true });
+    await workspace.revealLeaf(leaf);
+
+    expect(lifecycle).toEqual(['layout ready', 'open']);
+    expect(workspace.rightSplit.collapsed).toBe(false);
+    expect(workspace.getLeavesOfType('counter')).toEqual([leaf]);
+    expect(workspace.getActiveViewOfType(CounterView)).toBe(leaf.view);
+    expect(workspace.getActiveViewOfType(MarkdownView)).toBeNull();
+    await expect(workspace.getLeaf(false).setViewState({ type: 'unknown' })).rejects.toThrow('No view registered for type "unknown"');
+
+    workspace.detachLeavesOfType('counter');
+    expect(lifecycle).toEqual(['layout ready', 'open', 'close']);
+    expect(workspace.getLeavesOfType('counter')).toEqual([]);
+    expect(workspace.activeLeaf!.view.getViewType()).toBe('empty');
+  });
+
+  it('should detach a plugin\'s views when it unloads', async () => {
+    await runner.loadPlugin(CounterPlugin, { id: 'counter', name: 'Counter' });
+    await runner.enablePlugin();
+    await workspace.getLeaf(true).setViewState({ type: 'counter' });
+
+    await runner.disablePlugin();
+
+    expect(workspace.getLeavesOfType('counter')).toEqual([]);
+    expect(lifecycle).toContain('close');
+    await expect(runner.enablePlugin()).resolves.toBeUndefined();
+  });
+
+  it('should open markdown files in a MarkdownView bound to an editor', async () => {
+    const plan = runner.getApp().vault.getFileByPath('Projects/Plan.md')!;
+    await workspace.getLeaf(false).openFile(plan);
+
+    const view = workspace.getActiveViewOfType(MarkdownView)!;
+    expect(view.file).toBe(plan);
+    expect(view.editor.getValue()).toBe('# Plan');
+    expect(workspace.activeEditor!.editor).toBe(view.editor);
+    expect(workspace.getActiveFile()).toBe(plan);
+    expect(events).toEqual(['layout-change', 'layout-change', 'active-leaf-change markdown', 'file-open Projects/Plan.md']);
+
+    view.editor.setValue('# Plan\n\n- ship it');
+    await view.save();
+    expect(await runner.getApp().vault.read(plan)).toBe('# Plan\n\n- ship it');
+
+    await runner.setActiveFile('Inbox.md');
+    expect(workspace.getLeavesOfType('markdown')).toHaveLength(1);
+    expect(view.editor.getValue()).toBe('inbox');
+    expect(events.slice(-1)).toEqual(['file-open Inbox.md']);
+    await expect(runner.setActiveFile('Missing.md')).rejects.toThrow('File not found: Missing.md');
+  });
+
+  it('should move the focus to the most recent leaf when the active one is detached', async () => {
+    const vault = runner.getApp().vault;
+    await workspace.getLeaf(false).openFile(vault.getFileByPath('Inbox.md')!);
+    const second = workspace.getLeaf('tab');
+    await second.openFile(vault.getFileByPath('Projects/Plan.md')!);
+    events.length = 0;
+
+    second.detach();
+
+    expect(workspace.getActiveFile()!.path).toBe('Inbox.md');
+    expect(events).toEqual(['layout-change', 'active-leaf-change markdown', 'file-open Inbox.md']);
+
+    workspace.activeLeaf!.detach();
+    expect(workspace.activeLeaf).toBeNull();
+    expect(events.slice(-2)).toEqual(['active-leaf-change null', 'file-open null']);
+  });
+
+  it('should run onLayoutReady callbacks immediately once the layout is ready', () => {
+    const calls: string[] = [];
+    workspace.onLayoutReady(() => calls.push('queued'));
+    expect(calls).toEqual([]);
+
+    workspace.setLayoutReady();
+    workspace.onLayoutReady(() => calls.push('immediate'));
+    expect(calls).toEqual(['queued', 'immediate']);
+  });
+
+  it('should rethrow onLayoutReady errors after running every callback', () => {
+    const calls: string[] = [];
+    workspace.onLayoutReady(() => {
+      throw new Error('layout callback failed');
+    });
+    workspace.onLayoutReady(() => calls.push('second'));
+
+    expect(() => workspace.setLayoutReady()).toThrow('layout callback failed');
+    expect(calls).toEqual(['second']);
+  });
+
+  it('should surface onClose errors of detached views', async () => {
+    class BrokenView extends CounterView {
+      getViewType(): string {
+        return 'broken';
+      }
+
+      protected async onClose(): Promise<void> {
+        throw new Error('onClose failed');
+      }
+    }
+    class BrokenPlugin extends Plugin {
+      async onload() {
+        this.registerView('broken', leaf => new BrokenView(leaf));
+      }
+    }
+
+    await runner.loadPlugin(BrokenPlugin, { id: 'broken', name: 'Broken' });
+    await runner.enablePlugin();
+    const leaf = workspace.getLeaf(false);
+    await leaf.setViewState({ type: 'broken' });
+
+    leaf.detach();
+    await expect(workspace.settle()).rejects.toThrow('onClose failed');
+    await expect(workspace.settle()).resolves.toBeUndefined();
+
+    await workspace.getLeaf(false).setViewState({ type: 'broken' });
+    await expect(runner.disablePlugin()).rejects.toThrow('onClose failed');
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Tests for PatternDetector
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { PatternDetector } from '../src/analyzers/patterns/PatternDetector';
+import { PatternRule } from '../src/analyzers/patterns/PatternRule';
+import { PatternDetectionResult } from '../src/types/index';
+
+describe('PatternDetector', () => {
+  let detector: PatternDetector;
+
+  const findPattern = (results: PatternDetectionResult[], pattern: string) =>
+    results.find(result => result.pattern === pattern);
+
+  beforeEach(() => {
+    detector = new PatternDetector();
+  });
+
+  describe('event-listener', () => {
+    it('should detect DOM and Obsidian event registrations', () => {
+      const code = [
+        'el.addEventListener("click", handler);',
+        'this.registerDomEvent(document, "keydown", onKey);',
+        'this.app.workspace.on("file-open", onOpen);',
+        'button.onclick = handler;',
+      ].join('\n');
+
+      const result = findPattern(detector.analyzeCode(code, 'main.ts'), 'event-listener');
+
+      expect(result).toBeDefined();
+      expect(result!.occurrences).toBe(4);
+      expect(result!.locations.map(location => location.line)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should ignore identifiers, comments and strings that look like events', () => {
+      const code = [
+        'const onlyOne = 1;',
+        '// el.addEventListener("click", handler);',
+        'const message = "call addEventListener( later";',
+        'let onChange = () => {};',
+      ].join('\n');
+
+      const result = findPattern(detector.analyzeCode(code, 'main.ts'), 'event-listener');
+
+      expect(result).toBeUndefined();
+    });
+
+    it('should report calls spanning multiple lines once', () => {
+      const code = [
+        'this.registerDomEvent(',
+        '  document,',
+        '  "click",',
+        '  (evt) => console.log(evt)',
+        ');',
+      ].join('\n');
+
+      const result = findPattern(detector.analyzeCode(code, 'main.ts'), 'event-listener');
+
+      expect(result!.occurrences).toBe(1);
+      expect(result!.locations[0]).toEqual({ file: 'main.ts', line: 1, column: 6, endLine: 1, endColumn: 22 });
+    });
+  });
+
+  describe('api-call', () => {
+    it('should only count vault access through the app receiver', () => {
+      const code = [
+        'const content = await this.app.vault.read(file);',
+        'const data = await reader.read(file);',
+        'const cache = this.app.metadataCache.getFileCache(file);',
+      ].join('\n');
+
+      const result = findPattern(detector.analyzeCode(code, 'main.ts'), 'api-call');
+
+      expect(result!.occurrences).toBe(2);
+      expect(result!.locations.map(location => location.line)).toEqual([1, 3]);
+    });
+
+    it('should count a chained vault access once', () => {
+      const code = 'await this.app.vault.adapter.exists(path);';
+
+      const result = findPattern(detector.analyzeCode(code, 'main.ts'), 'api-call');
+
+      expect(result!.occurrences).toBe(1);
+    });
+  });
+
+  describe('state-mutation', () => {
+    it('should detect assignments but not comparisons', () => {
+      const code = [
+        'this.settings = {};',
+        'this.count += 1;',
+        'if (this.mode == "edit") {}',
+        'this.count++;',
+      ].join('\n');
+
+      const result = findPattern(detector.analyzeCode(code, 'main.ts'), 'state-mutation');
+
+      expect(result!.occurrences).toBe(3);
+      expect(result!.locations.map(location => location.line)).toEqual([1, 2, 4]);
+    });
+  });
+
+  describe('lifecycle-hook', () => {
+    it('should detect lifecycle method declarations', () => {
+      const code = [
+        'class MyPlugin extends Plugin {',
+        '  async onload() {',
+        '    this.app.workspace.onLayoutReady(() => {});',
+        '  }',
+        '  onunload() {}',
+        '}',
+      ].join('\n');
+
+      const result = findPattern(detector.analyzeCode(code, 'main.ts'), 'lifecycle-hook');
+
+      expect(result!.occurrences).toBe(3);
+      expect(result!.category).toBe('lifecycle');
+    });
+  });
+
+  describe('singleton-pattern', () => {
+    it('should detect static instances and private constructors', () => {
+      const code = [
+        'class Store {',
+        '  private static instance: Store;',
+        '  private constructor() {}',
+        '  static getInstance() { return Store.instance; }',
+        '}',
+      ].join('\n');
+
+      const result = findPattern(detector.analyzeCode(code, 'store.ts'), 'singleton-pattern');
+
+      expect(result!.occurrences).toBe(3);
+    });
+  });
+
+  it('should parse JavaScript sources', () => {
+    const code = 'document.body.appendChild(document.createElement("div"));';
+
+    const result = findPattern(detector.analyzeCode(code, 'main.js'), 'ui-update');
+
+    expect(result!.occurrences).toBe(2);
+  });
+
+  describe('rule registry', () => {
+    const noticeRule: PatternRule = {
+      id: 'notice-usage',
+      category: 'ui',
+      severity: 'low',
+      match: node => ts.isNewExpression(node) && node.expression.getText() === 'Notice' ? node : null,
+      suggest: () => ['Keep notices short'],
+    };
+
+    it('should register the built-in rules', () => {
+      expect(detector.getRules().map(rule => rule.id)).toEqual([
+        'event-listener',
+        'state-mutation',
+        'lifecycle-hook',
+        'api-call',
+        'ui-update',
+        'observer-pattern',
+        'command-pattern',
+        'singleton-pattern',
+      ]);
+    });
+
+    it('should evaluate user-defined rules', () => {
+      detector.registerRule(noticeRule);
+
+      const result = findPattern(detector.analyzeCode('new Notice("Saved");', 'main.ts'), 'notice-usage');
+
+      expect(result).toMatchObject({
+        category: 'ui',
+        severity: 'low',
+        occurrences: 1,
+        suggestions: ['Keep notices short'],
+      });
+    });
+
+    it('should report exact rules with full confidence regardless of density', () => {
+      detector.registerRule(noticeRule);
+      detector.registerRule({ ...noticeRule, id: 'notice-exact', exact: true });
+      const code = ['new Notice("Saved");', ...Array(200).fill('const value = 1;')].join('\n');
+
+      const results = detector.analyzeCode(code, 'main.ts');
+
+      expect(findPattern(results, 'notice-usage')!.confidence).toBe(0.1);
+      expect(findPattern(results, 'notice-exact')!.confidence).toBe(1);
+      expect(() => detector.registerRule({ ...noticeRule, id: 'bad', exact: 'yes' as any })).toThrow('non-boolean exact flag');
+    });
+
+    it('should only evaluate rules from the selected categories', () => {
+      const code = 'el.innerHTML = "<b>hi</b>";\nfetch(url);';
+      const selected = new PatternDetector(undefined, { enabled: true, categories: ['event', 'state', 'lifecycle', 'api'] });
+      const disabled = new PatternDetector(undefined, { enabled: false, categories: ['api', 'ui'] });
+
+      expect(selected.analyzeCode(code, 'main.ts').map(result => result.pattern)).toEqual(['api-call']);
+      expect(selected.getActiveRules().some(rule => rule.category === 'ui')).toBe(false);
+      expect(disabled.analyzeCode(code, 'main.ts')).toEqual([]);
+    });
+
+    it('should reject duplicate and malformed rules', () => {
+      expect(() => detector.registerRule({ ...noticeRule, id: 'api-call' })).toThrow('already registered');
+      expect(() => detector.registerRule({ ...noticeRule, severity: 'fatal' as any })).toThrow('unknown severity');
+    });
+
+    it('should stop reporting unregistered rules', () => {
+      expect(detector.unregisterRule('api-call')).toBe(true);
+      expect(detector.unregisterRule('api-call')).toBe(false);
+
+      const results = detector.analyzeCode('fetch(url);', 'main.ts');
+
+      expect(findPattern(results, 'api-call')).toBeUndefined();
+    });
+
+    it('should load rules from a module path', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workshop-rules-'));
+      const modulePath = path.join(dir, 'rules.js');
+      fs.writeFileSync(modulePath, [
+        'module.exports = [{',
+        '  id: "todo-call",',
+        '  category: "api",',
+        '  severity: "medium",',
+        `  match: node => node.kind === ${ts.SyntaxKind.CallExpression} &&`,
+        '    node.expression.getText() === "todo" ? node : null,',
+        '  suggest: () => [],',
+        '}];',
+      ].join('\n'));
+
+      try {
+        const loaded = detector.loadRules(modulePath);
+        const result = findPattern(detector.analyzeCode('todo();', 'main.ts'), 'todo-call');
+
+        expect(loaded.map(rule => rule.id)).toEqual(['todo-call']);
+        expect(result!.severity).toBe('medium');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
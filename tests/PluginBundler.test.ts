@@ -0,0 +1,105 @@
+/**
+ * Tests for the esbuild plugin bundler
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { defaultWorkshopConfig, mergeConfig } from '../src/config/WorkshopConfigLoader';
+import { PluginBundler } from '../src/bundler/PluginBundler';
+
+describe('PluginBundler', () => {
+  let pluginPath: string;
+
+  const write = (relativePath: string, content: string) => {
+    const filePath = path.join(pluginPath, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  beforeEach(() => {
+    pluginPath = fs.mkdtempSync(path.join(os.tmpdir(), 'workshop-bundler-'));
+    write('main.ts', [
+      "import { Plugin } from 'obsidian';",
+      "import { shout } from 'tiny-dep';",
+      'export default class WordCount extends Plugin {',
+      '  onload() {',
+      "    shout('loaded');",
+      '  }',
+      '}',
+    ].join('\n'));
+    write('node_modules/tiny-dep/package.json', JSON.stringify({ name: 'tiny-dep', main: 'index.js' }));
+    write('node_modules/tiny-dep/index.js', 'exports.shout = function (text) { return text.toUpperCase() + "!"; };\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(pluginPath, { recursive: true, force: true });
+  });
+
+  it('should minify and emit linked source maps only for production', () => {
+    const bundler = new PluginBundler(mergeConfig(defaultWorkshopConfig, {
+      build: { minify: true, sourceMap: true, target: 'es2020' },
+    }));
+
+    const production = bundler.getBuildOptions(pluginPath, 'production');
+    const development = bundler.getBuildOptions(pluginPath, 'development');
+
+    expect(production).toEqual(expect.objectContaining({ minify: true, sourcemap: 'linked', target: 'es2020', format: 'cjs' }));
+    expect(development).toEqual(expect.objectContaining({ minify: false, sourcemap: 'inline' }));
+    expect(production.external).toEqual(expect.arrayContaining(['obsidian', 'electron', '@codemirror/view', 'fs', 'node:fs']));
+  });
+
+  it('should prefer main.ts and fall back to src/main.ts', () => {
+    expect(PluginBundler.findEntryPoint(pluginPath)).toBe(path.join(pluginPath, 'main.ts'));
+
+    fs.renameSync(path.join(pluginPath, 'main.ts'), path.join(pluginPath, 'index.ts'));
+    expect(() => PluginBundler.findEntryPoint(pluginPath)).toThrow('No entry point found');
+
+    write('src/main.ts', 'export {};\n');
+    expect(PluginBundler.findEntryPoint(pluginPath)).toBe(path.join(pluginPath, 'src', 'main.ts'));
+  });
+
+  it('should inline npm dependencies and keep obsidian external', async () => {
+    const result = await new PluginBundler(defaultWorkshopConfig).bundle(pluginPath);
+    const output = fs.readFileSync(result.outputFile, 'utf8');
+
+    expect(result.outputFile).toBe(path.join(pluginPath, 'main.js'));
+    expect(result.bytes).toBe(Buffer.byteLength(output));
+    expect(output).toContain('require("obsidian")');
+    expect(output).toContain('toUpperCase');
+    expect(output).toContain('module.exports');
+    expect(Object.keys(result.metafile.inputs)).toEqual(expect.arrayContaining(['main.ts', 'node_modules/tiny-dep/index.js']));
+  });
+
+  it('should rebuild when a bundled file changes until disposed', async () => {
+    const builds: Array<number | string> = [];
+    let notify: () => void = () => undefined;
+    const nextBuild = () => new Promise<void>(resolve => {
+      notify = resolve;
+    });
+
+    const firstBuild = nextBuild();
+    const watcher = await new PluginBundler(defaultWorkshopConfig).watch(pluginPath, 'development', result => {
+      builds.push(result instanceof Error ? 'error' : result.bytes);
+      notify();
+    });
+
+    try {
+      await firstBuild;
+      const rebuild = nextBuild();
+      write('main.ts', "import { shout } from 'tiny-dep';\nshout('rebuilt');\n");
+      await rebuild;
+    } finally {
+      await watcher.dispose();
+    }
+
+    expect(builds).toHaveLength(2);
+    expect(fs.readFileSync(path.join(pluginPath, 'main.js'), 'utf8')).toContain('"rebuilt"');
+  });
+
+  it('should report bundling errors with their location', async () => {
+    write('main.ts', "import { missing } from './missing';\nmissing();\n");
+
+    await expect(new PluginBundler(defaultWorkshopConfig).bundle(pluginPath)).rejects.toThrow(/Bundling failed:[\s\S]*main\.ts:1/);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for the plugin test harness
+ */
+
+import { Editor, Plugin } from 'obsidian';
+import { PluginTestRunner } from '../src/testing/PluginTestUtils';
+
+const manifest = { id: 'word-count', name: 'Word Count', version: '1.0.0' };
+
+class WordCountPlugin extends Plugin {
+  public counted: number[] = [];
+
+  async onload() {
+    this.addCommand({
+      id: 'count-words',
+      name: 'Count words in vault',
+      callback: async () => {
+        this.counted.push(this.app.vault.getFiles().length);
+      },
+    });
+
+    this.addCommand({
+      id: 'uppercase-selection',
+      name: 'Uppercase selection',
+      editorCallback: (editor: Editor) => {
+        editor.replaceSelection(editor.getSelection().toUpperCase());
+      },
+    });
+
+    this.addCommand({
+      id: 'count-note-words',
+      name: 'Count words in note',
+      checkCallback: (checking: boolean) => {
+        const editor = this.app.workspace.activeEditor?.editor;
+        if (!editor) {
+          return false;
+        }
+        if (!checking) {
+          this.counted.push(editor.getValue().split(/\s+/).filter(Boolean).length);
+        }
+        return true;
+      },
+    });
+  }
+}
+
+describe('PluginTestRunner commands', () => {
+  let runner: PluginTestRunner;
+  let plugin: WordCountPlugin;
+
+  beforeEach(async () => {
+    runner = new PluginTestRunner({ files: [{ path: 'Note.md', content: 'one two' }] });
+    plugin = await runner.loadPlugin(WordCountPlugin, manifest) as WordCountPlugin;
+    await runner.enablePlugin();
+  });
+
+  it('should list registered commands with plugin-prefixed ids and names', () => {
+    expect(runner.listCommands().map(command => [command.id, command.name])).toEqual([
+      ['word-count:count-words', 'Word Count: Count words in vault'],
+      ['word-count:uppercase-selection', 'Word Count: Uppercase selection'],
+      ['word-count:count-note-words', 'Word Count: Count words in note'],
+    ]);
+  });
+
+  it('should run callbacks by short or full id', async () => {
+    expect(await runner.triggerCommand('count-words')).toBe(true);
+    expect(await runner.triggerCommand('word-count:count-words')).toBe(true);
+    expect(plugin.counted).toEqual([1, 1]);
+  });
+
+  it('should run editor commands against the open editor only', async () => {
+    expect(await runner.triggerCommand('uppercase-selection')).toBe(false);
+
+    const editor = runner.openEditor('hello world');
+    editor.setSelection({ line: 0, ch: 6 }, { line: 0, ch: 11 });
+
+    expect(await runner.triggerCommand('uppercase-selection')).toBe(true);
+    expect(editor.getValue()).toBe('hello WORLD');
+    expect(editor.getCursor()).toEqual({ line: 0, ch: 11 });
+  });
+
+  it('should hide a checkCallback command when there is no markdown editor', async () => {
+    expect(runner.isCommandAvailable('count-note-words')).toBe(false);
+    expect(await runner.triggerCommand('count-note-words')).toBe(false);
+    expect(plugin.counted).toEqual([]);
+
+    runner.openEditor('three little words', 'Note.md');
+
+    expect(runner.isCommandAvailable('count-note-words')).toBe(true);
+    expect(plugin.counted).toEqual([]);
+    expect(await runner.triggerCommand('count-note-words')).toBe(true);
+    expect(plugin.counted).toEqual([3]);
+  });
+
+  it('should reject unknown commands and drop commands when the plugin is disabled', async () => {
+    await expect(runner.triggerCommand('missing')).rejects.toThrow('Command not found: missing (registered: word-count:count-words');
+
+    await runner.disablePlugin();
+
+    expect(runner.listCommands()).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for PreflightChecker and the submission rules
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PatternDetector } from '../src/analyzers/patterns/PatternDetector';
+import { submissionRules } from '../src/analyzers/patterns/rules/SubmissionRules';
+import { PreflightChecker } from '../src/validation/PreflightChecker';
+
+describe('submission rules', () => {
+  const detect = (code: string) => new PatternDetector(submissionRules)
+    .analyzeCode(code, 'main.ts')
+    .map(result => [result.pattern, result.locations.map(location => location.line)]);
+
+  it('should flag code the plugin review rejects', () => {
+    const code = [
+      'el.innerHTML = html;',
+      'el.insertAdjacentHTML("beforeend", html);',
+      'console.log("debug");',
+      'const dir = `${base}/.obsidian/plugins`;',
+      'this.app.vault.adapter.read(path);',
+    ].join('\n');
+
+    expect(detect(code)).toEqual([
+      ['inner-html', [1, 2]],
+      ['console-log', [3]],
+      ['hardcoded-config-dir', [4]],
+      ['vault-adapter', [5]],
+    ]);
+  });
+
+  it('should leave accepted alternatives alone', () => {
+    const code = [
+      'el.textContent = text;',
+      'console.error("failed", error);',
+      'const dir = this.app.vault.configDir + "/plugins";',
+      'const name = "my.obsidian.plugin";',
+      'await this.app.vault.read(file);',
+    ].join('\n');
+
+    expect(detect(code)).toEqual([]);
+  });
+});
+
+describe('PreflightChecker', () => {
+  let root: string;
+  let pluginPath: string;
+
+  const write = (fileName: string, content: unknown) => {
+    const filePath = path.join(pluginPath, fileName);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  const statuses = () => Object.fromEntries(new PreflightChecker().run(pluginPath).checks.map(check => [check.id, check.status]));
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'workshop-preflight-'));
+    pluginPath = path.join(root, 'word-count');
+    fs.mkdirSync(pluginPath);
+    write('manifest.json', {
+      id: 'word-count',
+      name: 'Word Count',
+      version: '1.0.0',
+      minAppVersion: '1.0.0',
+      description: 'Counts words',
+      author: 'Someone',
+    });
+    write('versions.json', { '1.0.0': '1.0.0' });
+    write('main.ts', "import { Plugin } from 'obsidian';\nexport default class WordCount extends Plugin {}\n");
+    write('README.md', '# Word Count\n\nCounts words in the status bar.\n');
+    write('LICENSE', 'MIT License\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should pass a clean plugin', () => {
+    const report = new PreflightChecker().run(pluginPath);
+
+    expect(report.passed).toBe(true);
+    expect(report.checks.map(check => check.status)).toEqual(Array(report.checks.length).fill('pass'));
+  });
+
+  it('should fail on source findings but only warn about vault.adapter', () => {
+    write('src/view.ts', 'export function render(el: HTMLElement, app: any) {\n  el.innerHTML = "<b>hi</b>";\n  app.vault.adapter.exists("x");\n}\n');
+
+    const report = new PreflightChecker().run(pluginPath);
+    const innerHtml = report.checks.find(check => check.id === 'inner-html')!;
+
+    expect(report.passed).toBe(false);
+    expect(innerHtml.status).toBe('fail');
+    expect(innerHtml.details[0]).toBe(`${path.join('src', 'view.ts')}:2:6`);
+    expect(statuses()['vault-adapter']).toBe('warn');
+  });
+
+  it('should name each leftover template piece in one checklist item', () => {
+    write('main.ts', [
+      "import { Plugin } from 'obsidian';",
+      'export default class WordCount extends Plugin {',
+      '  async onload() {',
+      "    this.addRibbonIcon('dice', 'Word Count', () => {});",
+      '  }',
+      '}',
+      'class SampleModal extends Modal {}',
+    ].join('\n'));
+
+    const sampleCode = new PreflightChecker().run(pluginPath).checks.find(check => check.id === 'sample-code')!;
+
+    expect(sampleCode.status).toBe('fail');
+    expect(sampleCode.details).toEqual(['main.ts:4:10 dice ribbon icon', 'main.ts:7:7 SampleModal class']);
+  });
+
+  it('should ignore tests and build configuration', () => {
+    write('tests/main.test.ts', 'console.log("debugging a test");\n');
+    write('esbuild.config.mjs', 'console.log("building");\n');
+
+    expect(statuses()['console-log']).toBe('pass');
+  });
+
+  it('should require a README that is not the template one and a LICENSE', () => {
+    write('README.md', '# Basic Obsidian Plugin Template\n\nThis is a basic template.\n');
+    fs.unlinkSync(path.join(pluginPath, 'LICENSE'));
+
+    expect(statuses()).toEqual(expect.objectContaining({ readme: 'fail', license: 'fail' }));
+  });
+
+  it('should report manifest validation errors', () => {
+    fs.unlinkSync(path.join(pluginPath, 'versions.json'));
+
+    const manifestCheck = new PreflightChecker().run(pluginPath).checks[0];
+
+    expect(manifestCheck).toEqual(expect.objectContaining({ id: 'manifest', status: 'fail' }));
+    expect(manifestCheck.details[0]).toContain('versions.json not found');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for quality gate evaluation
+ */
+
+import { PatternDetector } from '../src/analyzers/patterns/PatternDetector';
+import { collectFindings } from '../src/reporting/Findings';
+import { applyConfidenceThreshold, evaluateQualityGates, formatQualityGateSummary } from '../src/reporting/QualityGates';
+import { Finding } from '../src/types/index';
+
+describe('QualityGates', () => {
+  const finding = (overrides: Partial<Finding> = {}): Finding => ({
+    analyzer: 'event',
+    rule: 'listener-without-removal',
+    category: 'memory-leak',
+    severity: 'high',
+    message: 'Event listener added without corresponding removal',
+    file: 'main.ts',
+    line: 10,
+    column: 5,
+    context: "el.addEventListener('click', handler);",
+    ...overrides,
+  });
+
+  it('should skip gates that are not configured', () => {
+    expect(evaluateQualityGates({}, { findings: [finding()], memoryLeakRisk: 5, docCoverage: 0 })).toEqual([]);
+  });
+
+  it('should count only high-severity event findings', () => {
+    const findings = [
+      finding(),
+      finding({ severity: 'medium' }),
+      finding({ analyzer: 'pattern', rule: 'api-call' }),
+    ];
+
+    const [result] = evaluateQualityGates({ maxHighSeverityEventIssues: 0 }, { findings });
+
+    expect(result).toEqual(expect.objectContaining({ gate: 'maxHighSeverityEventIssues', passed: false, actual: 1, limit: 0 }));
+    expect(evaluateQualityGates({ maxHighSeverityEventIssues: 1 }, { findings })[0].passed).toBe(true);
+  });
+
+  it('should compare memory leak risk and doc coverage against their limits', () => {
+    const results = evaluateQualityGates(
+      { maxMemoryLeakRisk: 2, minDocCoverage: 60 },
+      { memoryLeakRisk: 3, docCoverage: 75 }
+    );
+
+    expect(results.map(result => [result.gate, result.passed])).toEqual([
+      ['maxMemoryLeakRisk', false],
+      ['minDocCoverage', true],
+    ]);
+  });
+
+  it('should fail on any finding from a banned rule', () => {
+    const findings = [finding(), finding({ line: 20 }), finding({ rule: 'interval-without-clear' })];
+
+    const [result] = evaluateQualityGates({ bannedRules: ['listener-without-removal'] }, { findings });
+
+    expect(result.passed).toBe(false);
+    expect(result.actual).toBe(2);
+    expect(result.message).toContain('listener-without-removal at main.ts:10');
+  });
+
+  it('should keep banned rules below the confidence threshold', () => {
+    // One match in a long file scores a low density-based confidence
+    const filler = Array.from({ length: 64 }, (_, i) => `const value${i} = ${i};`);
+    const code = ['el.innerHTML = "<b>hi</b>";', ...filler].join('\n');
+    const patterns = new PatternDetector().analyzeCode(code, 'main.ts');
+    const sources = new Map([['main.ts', code]]);
+    const gates = { bannedRules: ['ui-update'] };
+
+    expect(patterns.find(pattern => pattern.pattern === 'ui-update')!.confidence).toBeLessThan(0.7);
+    expect(applyConfidenceThreshold(patterns, 0.7)).toEqual([]);
+
+    const kept = applyConfidenceThreshold(patterns, 0.7, gates);
+    const findings = collectFindings({ patterns: kept, stateAnalysis: [], eventPatterns: [] }, sources);
+    const [result] = evaluateQualityGates(gates, { findings });
+
+    expect(kept.map(pattern => pattern.pattern)).toEqual(['ui-update']);
+    expect(result).toEqual(expect.objectContaining({ gate: 'bannedRules', passed: false, actual: 1 }));
+  });
+
+  it('should list failed gates first in the summary', () => {
+    const results = evaluateQualityGates(
+      { minDocCoverage: 50, maxMemoryLeakRisk: 0 },
+      { memoryLeakRisk: 1, docCoverage: 80 }
+    );
+
+    const lines = formatQualityGateSummary(results);
+
+    expect(lines[0]).toMatch(/❌ maxMemoryLeakRisk/);
+    expect(lines[1]).toMatch(/✅ minDocCoverage/);
+  });
+});
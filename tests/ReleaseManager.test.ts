@@ -0,0 +1,157 @@
+/**
+ * Tests for ReleaseManager and the release zip writer
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { execFileSync } from 'child_process';
+import { ReleaseManager } from '../src/release/ReleaseManager';
+import { crc32, createZip } from '../src/release/ZipArchive';
+
+/**
+ * Read every entry of a ZIP archive through its central directory
+ */
+function readZip(zip: Buffer): Record<string, string> {
+  const entries: Record<string, string> = {};
+  const end = zip.length - 22;
+  let offset = zip.readUInt32LE(end + 16);
+
+  for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    entries[name] = (method === 8 ? zlib.inflateRawSync(data) : data).toString('utf8');
+    offset += 46 + nameLength;
+  }
+
+  return entries;
+}
+
+describe('createZip', () => {
+  it('should store deflated and small entries that extract to their contents', () => {
+    const repeated = 'this.registerEvent(...);\n'.repeat(200);
+    const zip = createZip([
+      { name: 'my-plugin/main.js', data: Buffer.from(repeated) },
+      { name: 'my-plugin\\styles.css', data: Buffer.from('.x{}') },
+    ], new Date(2024, 0, 2, 3, 4, 6));
+
+    expect(zip.length).toBeLessThan(repeated.length);
+    expect(readZip(zip)).toEqual({ 'my-plugin/main.js': repeated, 'my-plugin/styles.css': '.x{}' });
+  });
+
+  it('should compute standard CRC-32 checksums', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+    expect(createZip([{ name: 'a.txt', data: Buffer.from('123456789') }]).readUInt32LE(14)).toBe(0xcbf43926);
+  });
+});
+
+describe('ReleaseManager', () => {
+  let root: string;
+  let pluginPath: string;
+  const releases = new ReleaseManager();
+
+  const write = (fileName: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(pluginPath, fileName)), { recursive: true });
+    fs.writeFileSync(path.join(pluginPath, fileName), content);
+  };
+  const read = (fileName: string) => fs.readFileSync(path.join(pluginPath, fileName), 'utf8');
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'workshop-release-'));
+    pluginPath = path.join(root, 'word-count');
+    write('manifest.json', '{\n\t"id": "word-count",\n\t"version": "1.2.3",\n\t"minAppVersion": "1.4.0"\n}\n');
+    write('versions.json', '{\n  "1.2.3": "1.0.0"\n}');
+    write('package.json', '{\n    "name": "word-count",\n    "version": "1.2.3"\n}\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should bump semantic versions', () => {
+    expect(ReleaseManager.bumpVersion('1.2.3', 'patch')).toBe('1.2.4');
+    expect(ReleaseManager.bumpVersion('1.2.3', 'minor')).toBe('1.3.0');
+    expect(ReleaseManager.bumpVersion('1.2.3', 'major')).toBe('2.0.0');
+    expect(() => ReleaseManager.bumpVersion('1.2', 'patch')).toThrow('x.y.z');
+  });
+
+  it('should bump every version file and keep its formatting', () => {
+    const bump = releases.applyBump(pluginPath, 'minor');
+
+    expect(bump).toEqual({ previousVersion: '1.2.3', version: '1.3.0', files: ['manifest.json', 'versions.json', 'package.json'] });
+    expect(read('manifest.json')).toBe('{\n\t"id": "word-count",\n\t"version": "1.3.0",\n\t"minAppVersion": "1.4.0"\n}\n');
+    expect(read('versions.json')).toBe('{\n  "1.2.3": "1.0.0",\n  "1.3.0": "1.4.0"\n}');
+    expect(read('package.json')).toBe('{\n    "name": "word-count",\n    "version": "1.3.0"\n}\n');
+  });
+
+  it('should require main.js and manifest.json and pick up styles.css', () => {
+    expect(() => releases.collectArtifacts(pluginPath, 'dist')).toThrow('Release artifacts missing or empty: main.js');
+
+    write('dist/main.js', 'module.exports = {};');
+    write('styles.css', '.word-count {}');
+
+    expect(releases.collectArtifacts(pluginPath, 'dist')).toEqual([
+      { name: 'main.js', sourcePath: path.join(pluginPath, 'dist', 'main.js') },
+      { name: 'manifest.json', sourcePath: path.join(pluginPath, 'manifest.json') },
+      { name: 'styles.css', sourcePath: path.join(pluginPath, 'styles.css') },
+    ]);
+  });
+
+  it('should write the assets, a zip and SHA256SUMS', () => {
+    write('main.js', 'module.exports = {};');
+    const releasesPath = path.join(root, 'releases');
+
+    const release = releases.writePackage(releases.collectArtifacts(pluginPath), releasesPath, 'word-count', '1.2.3');
+
+    expect(release.directory).toBe(path.join(releasesPath, 'word-count', '1.2.3'));
+    expect(fs.readdirSync(release.directory).sort()).toEqual(['SHA256SUMS', 'main.js', 'manifest.json', 'word-count-1.2.3.zip']);
+    expect(Object.keys(readZip(fs.readFileSync(release.zipFile)))).toEqual(['word-count/main.js', 'word-count/manifest.json']);
+    expect(fs.readFileSync(release.checksumFile, 'utf8').split('\n')[0])
+      .toBe(`${release.checksums['main.js']}  main.js`);
+    expect(release.checksums['main.js']).toBe(crypto.createHash('sha256').update('module.exports = {};').digest('hex'));
+    expect(() => releases.writePackage([], releasesPath, 'word-count', '1.2.3')).toThrow('already exists');
+  });
+
+  it('should add release sections below Unreleased and above older releases', () => {
+    write('CHANGELOG.md', '# Changelog\n\n## [Unreleased]\n\n- Work in progress\n\n## [1.2.3] - 2024-01-01\n\n- Older change\n');
+
+    releases.appendChangelog(pluginPath, '1.3.0', ['Add reading time', 'Fix counting in code blocks'], new Date('2024-02-03T12:00:00Z'));
+
+    expect(read('CHANGELOG.md')).toBe([
+      '# Changelog', '', '## [Unreleased]', '', '- Work in progress', '',
+      '## [1.3.0] - 2024-02-03', '', '- Add reading time', '- Fix counting in code blocks', '',
+      '## [1.2.3] - 2024-01-01', '', '- Older change', '',
+    ].join('\n'));
+  });
+
+  it('should list commits touching the plugin since its last tag', () => {
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: root, stdio: 'pipe' });
+    expect(releases.readGitChanges(pluginPath, 'word-count')).toBeNull();
+
+    git('init', '-q');
+    git('config', 'user.email', 'dev@example.com');
+    git('config', 'user.name', 'Dev');
+    git('add', '-A');
+    git('commit', '-qm', 'Initial release');
+    git('tag', ReleaseManager.tagName('word-count', '1.2.3'));
+    write('main.ts', 'export {};');
+    fs.writeFileSync(path.join(root, 'unrelated.txt'), 'x');
+    git('add', '-A');
+    git('commit', '-qm', 'Count words in tables');
+    // Tags of other plugins in the same repository, including one whose id extends this one
+    git('tag', 'other-plugin-2.0.0');
+    git('tag', 'word-count-extra-1.0.0');
+
+    expect(releases.readGitChanges(pluginPath, 'word-count')).toEqual({ tag: 'word-count-1.2.3', subjects: ['Count words in tables'] });
+    expect(releases.readGitChanges(pluginPath, 'other-plugin')!.tag).toBe('other-plugin-2.0.0');
+  });
+});
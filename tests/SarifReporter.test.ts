@@ -0,0 +1,80 @@
+/**
+ * Tests for SarifReporter
+ */
+
+import { createSarifLog, toSarifLevel } from '../src/reporting/SarifReporter';
+import { RuleMetadata } from '../src/types/index';
+
+describe('SarifReporter', () => {
+  const rules: RuleMetadata[] = [
+    { id: 'api-call', category: 'api', severity: 'low', description: 'Network or vault API access' },
+    { id: 'listener-without-removal', category: 'memory-leak', severity: 'high', description: 'Listener leak' },
+  ];
+
+  it('should map severities onto SARIF levels', () => {
+    expect(toSarifLevel('high')).toBe('error');
+    expect(toSarifLevel('medium')).toBe('warning');
+    expect(toSarifLevel('low')).toBe('note');
+  });
+
+  it('should describe rules on the tool driver', () => {
+    const log = createSarifLog([{ toolName: 'plugin-analyzer', rootPath: '/plugins/demo', rules, results: [] }]);
+    const driver = log.runs[0].tool.driver;
+
+    expect(log.version).toBe('2.1.0');
+    expect(driver.rules[1]).toEqual({
+      id: 'listener-without-removal',
+      name: 'ListenerWithoutRemoval',
+      shortDescription: { text: 'Listener leak' },
+      defaultConfiguration: { level: 'error' },
+      properties: { category: 'memory-leak' },
+    });
+    expect(log.runs[0].originalUriBaseIds['%SRCROOT%'].uri).toBe('file:///plugins/demo/');
+  });
+
+  it('should emit precise regions relative to the source root', () => {
+    const log = createSarifLog([{
+      toolName: 'plugin-analyzer',
+      rootPath: '/plugins/demo',
+      rules,
+      results: [{
+        rule: 'api-call',
+        severity: 'low',
+        message: 'api-call pattern detected',
+        file: 'src/main.ts',
+        line: 4,
+        column: 9,
+        endLine: 4,
+        endColumn: 29,
+        context: 'await this.app.vault.read(file);',
+        fingerprint: 'abc123',
+      }],
+    }]);
+    const [result] = log.runs[0].results;
+
+    expect(result).toMatchObject({
+      ruleId: 'api-call',
+      ruleIndex: 0,
+      level: 'note',
+      partialFingerprints: { 'workshopFinding/v1': 'abc123' },
+    });
+    expect(result.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/main.ts', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 4, startColumn: 9, endLine: 4, endColumn: 29 },
+      contextRegion: { startLine: 4, snippet: { text: 'await this.app.vault.read(file);' } },
+    });
+  });
+
+  it('should omit the region for file-level results and describe unknown rules', () => {
+    const log = createSarifLog([{
+      toolName: 'docs-analyzer',
+      rootPath: '/plugins/demo',
+      rules: [],
+      results: [{ rule: 'doc-missing', severity: 'high', message: 'No main heading found', file: 'README.md' }],
+    }]);
+    const run = log.runs[0];
+
+    expect(run.results[0].locations[0].physicalLocation.region).toBeUndefined();
+    expect(run.tool.driver.rules.map((rule: any) => rule.id)).toEqual(['doc-missing']);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for SuppressionSet and analyzer suppression support
+ */
+
+import { SuppressionSet } from '../src/analyzers/SuppressionSet';
+import { PatternDetector } from '../src/analyzers/patterns/PatternDetector';
+import { StateAnalyzer } from '../src/analyzers/StateAnalyzer';
+import { EventPatternAnalyzer } from '../src/analyzers/EventPatternAnalyzer';
+
+describe('SuppressionSet', () => {
+  describe('parse', () => {
+    it('should suppress only the line after an ignore-next-line comment', () => {
+      const code = [
+        '// workshop-ignore-next-line api-call',
+        'this.app.vault.read(file);',
+        'this.app.vault.read(file);',
+      ].join('\n');
+
+      const suppressions = SuppressionSet.parse(code, 'main.ts');
+
+      expect(suppressions.isSuppressed('api-call', 2)).toBe(true);
+      expect(suppressions.isSuppressed('api-call', 3)).toBe(false);
+      expect(suppressions.isSuppressed('ui-update', 2)).toBe(false);
+    });
+
+    it('should suppress a rule across the file with a disable comment', () => {
+      const code = [
+        'const a = 1;',
+        '/* workshop-disable state-global, ui-update -- legacy view */',
+        'const b = 2;',
+      ].join('\n');
+
+      const suppressions = SuppressionSet.parse(code, 'main.ts');
+
+      expect(suppressions.size).toBe(2);
+      expect(suppressions.isSuppressed('state-global', 1)).toBe(true);
+      expect(suppressions.isSuppressed('ui-update', 99)).toBe(true);
+      expect(suppressions.isSuppressed('api-call', 1)).toBe(false);
+    });
+
+    it('should ignore directives inside string literals', () => {
+      const code = 'const text = "// workshop-ignore-next-line api-call";';
+
+      expect(SuppressionSet.parse(code, 'main.ts').size).toBe(0);
+    });
+
+    it('should report directives that matched nothing', () => {
+      const code = [
+        '/* workshop-disable singleton-pattern */',
+        '// workshop-ignore-next-line api-call',
+        'this.app.vault.read(file);',
+      ].join('\n');
+
+      const suppressions = SuppressionSet.parse(code, 'main.ts');
+      suppressions.isSuppressed('api-call', 3);
+
+      expect(suppressions.getUnused('main.ts')).toEqual([
+        { file: 'main.ts', line: 1, rule: 'singleton-pattern', directive: 'disable' },
+      ]);
+    });
+  });
+
+  describe('analyzer integration', () => {
+    it('should drop suppressed PatternDetector locations', () => {
+      const code = [
+        '// workshop-ignore-next-line api-call',
+        'await this.app.vault.read(file);',
+        'await this.app.vault.modify(file, "");',
+      ].join('\n');
+
+      const results = new PatternDetector().analyzeCode(code, 'main.ts');
+      const apiCalls = results.find(result => result.pattern === 'api-call');
+
+      expect(apiCalls!.occurrences).toBe(1);
+      expect(apiCalls!.locations[0].line).toBe(3);
+    });
+
+    it('should drop suppressed StateAnalyzer accesses', () => {
+      const analyzer = new StateAnalyzer({
+        enabled: true,
+        trackGlobalState: true,
+        trackLocalState: false,
+        performanceMetrics: true,
+      });
+      const code = [
+        '/* workshop-disable state-global */',
+        'const vault = this.app.vault;',
+      ].join('\n');
+
+      expect(analyzer.analyzeCode(code, 'main.ts')).toEqual([]);
+    });
+
+    it('should drop suppressed EventPatternAnalyzer issues', () => {
+      const code = [
+        '// workshop-ignore-next-line missing-prevent-default',
+        'el.addEventListener("click", handleClick);',
+        'function handleClick() {',
+        '  setInterval(tick, 1000);',
+        '}',
+      ].join('\n');
+
+      const [result] = new EventPatternAnalyzer().analyzeCode(code, 'main.ts');
+
+      expect(result.issues.map(issue => issue.rule)).toEqual(['interval-without-clear']);
+    });
+
+    it('should mark directives at both the registration and the definition as used', () => {
+      const code = [
+        '// workshop-ignore-next-line interval-without-clear',
+        'el.addEventListener("click", handleClick);',
+        '// workshop-ignore-next-line interval-without-clear',
+        'function handleClick(event) {',
+        '  event.preventDefault();',
+        '  setInterval(tick, 1000);',
+        '}',
+      ].join('\n');
+      const suppressions = SuppressionSet.parse(code, 'main.ts');
+
+      const [result] = new EventPatternAnalyzer().analyzeCode(code, 'main.ts', suppressions);
+
+      expect(result.issues).toEqual([]);
+      expect(suppressions.getUnused('main.ts')).toEqual([]);
+    });
+
+    it('should share one suppression set across analyzers', () => {
+      const code = [
+        '// workshop-ignore-next-line api-call state-global',
+        'const file = this.app.vault.getFiles();',
+      ].join('\n');
+      const suppressions = SuppressionSet.parse(code, 'main.ts');
+      const stateAnalyzer = new StateAnalyzer({
+        enabled: true,
+        trackGlobalState: true,
+        trackLocalState: false,
+        performanceMetrics: true,
+      });
+
+      new PatternDetector().analyzeCode(code, 'main.ts', suppressions);
+      stateAnalyzer.analyzeCode(code, 'main.ts', suppressions);
+
+      expect(suppressions.getUnused('main.ts')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Tests for the basic-plugin template fingerprint rules
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PatternDetector } from '../src/analyzers/patterns/PatternDetector';
+import { templateRules } from '../src/analyzers/patterns/rules/TemplateRules';
+
+describe('template rules', () => {
+  const template = fs.readFileSync(path.join(__dirname, '..', 'templates', 'basic-plugin', 'main.ts'), 'utf8');
+
+  const detect = (code: string) => new PatternDetector(templateRules)
+    .analyzeCode(code, 'main.ts')
+    .map(result => result.pattern);
+
+  it('should fingerprint every piece of the basic-plugin template', () => {
+    expect(detect(template).sort()).toEqual(templateRules.map(rule => rule.id).sort());
+  });
+
+  it('should still recognize the template after create-plugin renames it', () => {
+    // The same replacements PluginGenerator.updateMainFile applies
+    const generated = template
+      .replace(/MyPlugin/g, 'WordCount')
+      .replace(/Sample Plugin/g, 'Word Count')
+      .replace(/sample-plugin/g, 'word-count');
+
+    expect(detect(generated)).not.toContain('template-plugin-class');
+    expect(detect(generated)).toHaveLength(templateRules.length - 1);
+  });
+
+  it('should stop reporting pieces the author has changed', () => {
+    const edited = template
+      .replace("addRibbonIcon('dice'", "addRibbonIcon('calculator'")
+      .replace(/mySetting/g, 'wordGoal')
+      .replace("id: 'sample-editor-command'", "id: 'count-selection'")
+      .replace("console.log('click', evt)", 'this.countWords()')
+      .replace('5 * 60 * 1000', '60 * 1000');
+
+    const remaining = detect(edited);
+
+    [
+      'template-ribbon-icon',
+      'template-my-setting',
+      'template-command-sample-editor-command',
+      'template-click-logger',
+      'template-interval-logger',
+    ].forEach(rule => expect(remaining).not.toContain(rule));
+    expect(remaining).toContain('template-sample-modal');
+  });
+
+  it('should report where each piece is defined', () => {
+    const [result] = new PatternDetector(templateRules).analyzeCode(
+      "this.addCommand({\n  id: 'open-sample-modal-simple',\n  name: 'Open',\n  callback: () => {},\n});",
+      'main.ts'
+    );
+
+    expect(result.pattern).toBe('template-command-open-sample-modal-simple');
+    expect(result.locations).toEqual([expect.objectContaining({ line: 2, column: 3 })]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for deploying built plugins into local vaults
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HOT_RELOAD_MARKER, VaultDeployer } from '../src/deploy/VaultDeployer';
+
+describe('VaultDeployer', () => {
+  let root: string;
+  let files: Array<{ name: string; sourcePath: string }>;
+
+  const makeVault = (name: string) => {
+    fs.mkdirSync(path.join(root, name, '.obsidian'), { recursive: true });
+    return path.join(root, name);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'workshop-deploy-'));
+    fs.mkdirSync(path.join(root, 'build'));
+    files = ['main.js', 'manifest.json'].map(name => {
+      const sourcePath = path.join(root, 'build', name);
+      fs.writeFileSync(sourcePath, `// ${name}`);
+      return { name, sourcePath };
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should copy the files into every vault and touch the hot reload marker', () => {
+    const vaults = [makeVault('personal'), makeVault('work')];
+    const results = new VaultDeployer(vaults).deploy('word-count', files);
+
+    expect(results.map(result => result.pluginDir)).toEqual(vaults.map(vault => path.join(vault, '.obsidian', 'plugins', 'word-count')));
+    results.forEach(result => {
+      expect(fs.readdirSync(result.pluginDir).sort()).toEqual([HOT_RELOAD_MARKER, 'main.js', 'manifest.json']);
+      expect(fs.readFileSync(path.join(result.pluginDir, 'main.js'), 'utf8')).toBe('// main.js');
+    });
+  });
+
+  it('should leave settings alone and skip the marker when hot reload is off', () => {
+    const pluginDir = path.join(makeVault('personal'), '.obsidian', 'plugins', 'word-count');
+    fs.mkdirSync(pluginDir, { recursive: true });
+    fs.writeFileSync(path.join(pluginDir, 'data.json'), '{"goal":500}');
+
+    new VaultDeployer(['personal'], { baseDir: root, hotReload: false }).deploy('word-count', files);
+
+    expect(fs.readdirSync(pluginDir).sort()).toEqual(['data.json', 'main.js', 'manifest.json']);
+    expect(fs.readFileSync(path.join(pluginDir, 'data.json'), 'utf8')).toBe('{"goal":500}');
+  });
+
+  it('should refuse folders that are not vaults', () => {
+    fs.mkdirSync(path.join(root, 'notes'));
+
+    expect(() => new VaultDeployer([path.join(root, 'notes')]).deploy('word-count', files)).toThrow('Not an Obsidian vault');
+    expect(() => new VaultDeployer([]).checkVaults()).toThrow('No vaults configured');
+  });
+
+  it('should resolve relative and home-relative vault paths', () => {
+    expect(VaultDeployer.resolveVaultPath('vaults/dev', '/workshop')).toBe(path.resolve('/workshop', 'vaults/dev'));
+    expect(VaultDeployer.resolveVaultPath('~/Notes', '/workshop')).toBe(path.join(os.homedir(), 'Notes'));
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for the workshop config loader and schema validation
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  defaultWorkshopConfig,
+  findConfigFile,
+  loadWorkshopConfig,
+  mergeConfig,
+} from '../src/config/WorkshopConfigLoader';
+import { validateSchema, workshopConfigSchema } from '../src/config/ConfigSchema';
+
+describe('WorkshopConfigLoader', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'workshop-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const write = (relativePath: string, content: string): string => {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  it('should fall back to the defaults without a config file', () => {
+    const { config, files } = loadWorkshopConfig({ cwd: root });
+
+    expect(files).toEqual([]);
+    expect(config).toEqual(defaultWorkshopConfig);
+  });
+
+  it('should discover the nearest config file in parent directories', () => {
+    const configFile = write('workshop.config.json', '{}');
+    const nested = path.join(root, 'a', 'b');
+    fs.mkdirSync(nested, { recursive: true });
+
+    expect(findConfigFile(nested)).toBe(configFile);
+  });
+
+  it('should merge YAML over the defaults and replace arrays', () => {
+    write('workshop.config.yaml', [
+      'analyzer:',
+      '  rateLimit:',
+      '    requestsPerSecond: 2',
+      '  patterns:',
+      '    categories: [api]',
+      'build:',
+      '  minify: true',
+    ].join('\n'));
+
+    const { config } = loadWorkshopConfig({ cwd: root });
+
+    expect(config.analyzer.rateLimit).toEqual({ ...defaultWorkshopConfig.analyzer.rateLimit, requestsPerSecond: 2 });
+    expect(config.analyzer.patterns.categories).toEqual(['api']);
+    expect(config.build).toEqual({ ...defaultWorkshopConfig.build, minify: true });
+  });
+
+  it('should layer per-plugin overrides on top of the shared config', () => {
+    const shared = write('workshop.config.json', JSON.stringify({ build: { target: 'es2020', minify: true } }));
+    const override = write('plugins/my-plugin/workshop.config.yml', 'build:\n  minify: false\n');
+
+    const { config, files } = loadWorkshopConfig({ cwd: root, pluginPath: path.join(root, 'plugins', 'my-plugin') });
+
+    expect(files).toEqual([shared, override]);
+    expect(config.build).toEqual({ ...defaultWorkshopConfig.build, target: 'es2020', minify: false });
+  });
+
+  it('should resolve custom rule paths against the declaring config file', () => {
+    write('workshop.config.json', JSON.stringify({ analyzer: { patterns: { customRules: ['./rules/team.js'] } } }));
+    const pluginPath = path.join(root, 'plugins', 'my-plugin');
+    write('plugins/my-plugin/workshop.config.yaml', 'analyzer:\n  patterns:\n    customRules: [lint/local.js, /opt/rules.js]\n');
+
+    expect(loadWorkshopConfig({ cwd: path.join(root, 'plugins') }).config.analyzer.patterns.customRules).toEqual([
+      path.join(root, 'rules', 'team.js'),
+    ]);
+    expect(loadWorkshopConfig({ cwd: root, pluginPath }).config.analyzer.patterns.customRules).toEqual([
+      path.join(pluginPath, 'lint', 'local.js'),
+      path.resolve('/opt/rules.js'),
+    ]);
+  });
+
+  it('should resolve vault paths against the declaring config file', () => {
+    const pluginPath = path.join(root, 'plugins', 'my-plugin');
+    write('plugins/my-plugin/workshop.config.yaml', 'development:\n  vaults: [../../vaults/dev, ~/Notes, /srv/vault]\n');
+
+    expect(loadWorkshopConfig({ cwd: os.tmpdir(), pluginPath }).config.development.vaults).toEqual([
+      path.join(root, 'vaults', 'dev'),
+      '~/Notes',
+      path.resolve('/srv/vault'),
+    ]);
+  });
+
+  it('should report schema errors with the file and key path', () => {
+    const configFile = write('workshop.config.json', JSON.stringify({
+      analyzer: { rateLimit: { requestsPerSecond: 'fast' } },
+      testing: { framework: 'ava' },
+    }));
+
+    expect(() => loadWorkshopConfig({ cwd: root })).toThrow(configFile);
+    expect(() => loadWorkshopConfig({ cwd: root })).toThrow('analyzer.rateLimit.requestsPerSecond: expected a number, got "fast"');
+    expect(() => loadWorkshopConfig({ cwd: root })).toThrow('testing.framework: expected one of jest, mocha, vitest, got "ava"');
+  });
+
+  it('should report syntax errors in config files', () => {
+    write('workshop.config.json', '{ "build": ');
+
+    expect(() => loadWorkshopConfig({ cwd: root })).toThrow('Invalid config file');
+  });
+
+  describe('validateSchema', () => {
+    it('should flag unknown keys and out-of-range values', () => {
+      const errors = validateSchema({
+        analyzer: { patterns: { threshold: 2, categories: ['api', 'network'] }, gates: { maxMemoryLeakRisk: 1.5 } },
+        bulid: {},
+      }, workshopConfigSchema);
+
+      expect(errors).toEqual([
+        'analyzer.patterns.threshold: must be at most 1, got 2',
+        'analyzer.patterns.categories[1]: expected one of event, state, lifecycle, api, ui, submission, got "network"',
+        'analyzer.gates.maxMemoryLeakRisk: expected an integer, got 1.5',
+        'bulid: unknown property (expected one of analyzer, development, testing, build)',
+      ]);
+    });
+
+    it('should accept the defaults', () => {
+      expect(validateSchema(defaultWorkshopConfig, workshopConfigSchema)).toEqual([]);
+    });
+  });
+
+  describe('mergeConfig', () => {
+    it('should not modify the base config', () => {
+      const merged = mergeConfig(defaultWorkshopConfig, { testing: { coverage: true } });
+
+      expect(merged.testing.coverage).toBe(true);
+      expect(defaultWorkshopConfig.testing.coverage).toBe(false);
+    });
+  });
+});
@@ -1,39 +1,7 @@
 /**
  * Mock implementation of Obsidian API for testing
+ *
+ * jest.config.js maps `obsidian` here; the classes live in src/testing so the harness ships with them.
  */
 
-export class Plugin {
-  app: any;
-  manifest: any;
-  
-  constructor(app: any, manifest: any) {
-    this.app = app;
-    this.manifest = manifest;
-  }
-}
-
-export class Notice {
-  constructor(message: string) {
-    console.log(`Notice: ${message}`);
-  }
-}
-
-export class Setting {
-  constructor() {}
-}
-
-export class PluginSettingTab {
-  constructor() {}
-}
-
-export class Component {
-  constructor() {}
-}
-
-export class TFile {
-  constructor() {}
-}
-
-export class Vault {
-  constructor() {}
-}
\ No newline at end of file
+export * from '../../src/testing/MockObsidian';